@@ -1,17 +1,44 @@
 /**
  * Memory CLI - 命令行查看/搜索/导出记忆
  * V4.1 - 支持 list / search / stats / dump / compact / dedup
+ * V4.2 - 新增 history / undo（记忆版本历史与回滚）
+ * V4.3 - 新增 pending / accept / reject（自动提取的待确认记忆）
+ * V4.4 - pending 同时列出 delete_memory 提交的删除请求、定期整理提交的合并 / 改写
+ * V4.5 - 新增 export / import（Markdown / JSON 导出，Markdown / CSV / JSONL / JSON 导入）
+ * V4.6 - 新增 archived（已过期归档的记忆），list 显示到期时间
  *
  * 用法:
  *   tsx scripts/memory-cli.ts list [--cat <category>] [--source <source>] [--limit <n>]
- *   tsx scripts/memory-cli.ts search <query>
+ *   tsx scripts/memory-cli.ts search <query> [--mode keyword|semantic|hybrid]
  *   tsx scripts/memory-cli.ts stats
  *   tsx scripts/memory-cli.ts dump [--format md|jsonl]
  *   tsx scripts/memory-cli.ts compact
+ *   tsx scripts/memory-cli.ts history <id>
+ *   tsx scripts/memory-cli.ts undo <id> [--seq <n>]
+ *   tsx scripts/memory-cli.ts pending
+ *   tsx scripts/memory-cli.ts accept <pendingId>
+ *   tsx scripts/memory-cli.ts reject <pendingId>
+ *   tsx scripts/memory-cli.ts export [--format md|json] [--out <file>]
+ *   tsx scripts/memory-cli.ts import <file> [--format md|csv|jsonl|json] [--strategy skip|overwrite|merge] [--dry-run]
+ *   tsx scripts/memory-cli.ts archived [--limit <n>]
  */
 
-import { MemoryDB } from '../src/core/memory/memory-db.js'
+import * as fs from 'node:fs'
+import { MemoryDB, SEARCH_MODES, type SearchMode } from '../src/core/memory/memory-db.js'
 import { MEMORY_CONFIG } from '../src/core/memory/config.js'
+import { formatMemoryTime } from '../src/core/memory/memory-expiry.js'
+import {
+  EXPORT_FORMATS,
+  IMPORT_FORMATS,
+  IMPORT_STRATEGIES,
+  detectImportFormat,
+  exportMemories,
+  formatImportDiff,
+  parseImport,
+  type ExportFormat,
+  type ImportFormat,
+  type ImportStrategy,
+} from '../src/core/memory/memory-transfer.js'
 
 const db = new MemoryDB(MEMORY_CONFIG.DB_PATH)
 const [, , command, ...args] = process.argv
@@ -29,8 +56,8 @@ Commands:
   list [--cat <category>] [--source <source>] [--limit <n>]
     列出记忆条目
 
-  search <query>
-    FTS5 全文搜索
+  search <query> [--mode keyword|semantic|hybrid]
+    关键词 / 语义 / 混合检索（默认 hybrid）
 
   stats
     显示统计信息
@@ -41,6 +68,28 @@ Commands:
   compact
     手动触发容量淘汰
 
+  history <id>
+    查看单条记忆的变更历史
+
+  undo <id> [--seq <n>]
+    回滚记忆到指定变更（缺省为最近一次变更）之前的状态
+
+  pending
+    列出待审核项（自动提取的新增记忆 / delete_memory 删除请求）
+
+  accept <pendingId> / reject <pendingId>
+    确认写入 / 丢弃待确认记忆
+
+  export [--format md|json] [--out <file>]
+    导出为按分类分组的 Markdown（默认，可编辑后导回）或 JSON，缺省输出到 stdout
+
+  import <file> [--format md|csv|jsonl|json] [--strategy skip|overwrite|merge] [--dry-run]
+    导入记忆（格式缺省按扩展名推断）；与已有记忆冲突时跳过（默认）/ 覆盖 / 合并
+    --dry-run 只打印变更预览，不写入
+
+  archived [--limit <n>]
+    归档当前已过期的记忆，并列出最近归档的记忆
+
   help
     显示此帮助信息
 
@@ -76,6 +125,7 @@ switch (command) {
       imp: e.imp,
       text: e.text.slice(0, 60) + (e.text.length > 60 ? '...' : ''),
       updated: e.updated_at,
+      expires: e.expires_at ? formatMemoryTime(e.expires_at) : '',
     })))
     console.log(`\n共 ${entries.length} 条记忆`)
     break
@@ -88,7 +138,13 @@ switch (command) {
       process.exit(1)
     }
 
-    const results = db.search(query, 20)
+    const mode = (getFlag(args, '--mode') || 'hybrid') as SearchMode
+    if (!SEARCH_MODES.includes(mode)) {
+      console.error('❌ --mode must be keyword, semantic or hybrid')
+      process.exit(1)
+    }
+
+    const results = await db.search(query, 20, mode)
     if (results.length === 0) {
       console.log('📭 未找到匹配的记忆')
       break
@@ -157,6 +213,170 @@ switch (command) {
     break
   }
 
+  case 'history': {
+    const id = parseInt(args[0] || '')
+    if (isNaN(id)) {
+      console.error('❌ Usage: history <id>')
+      process.exit(1)
+    }
+
+    const history = db.getHistory(id)
+    if (history.length === 0) {
+      console.log(`📭 记忆 #${id} 没有变更记录`)
+      break
+    }
+
+    console.table(history.map(h => ({
+      seq: h.seq,
+      ts: h.ts,
+      op: h.op,
+      actor: h.actor,
+      text: (h.after ?? h.before)?.text.slice(0, 50) ?? '',
+    })))
+    console.log(`\n共 ${history.length} 条变更`)
+    break
+  }
+
+  case 'undo': {
+    const id = parseInt(args[0] || '')
+    if (isNaN(id)) {
+      console.error('❌ Usage: undo <id> [--seq <n>]')
+      process.exit(1)
+    }
+    const seqFlag = getFlag(args, '--seq')
+    const seq = seqFlag !== undefined ? parseInt(seqFlag) : undefined
+
+    const change = db.revert(id, 'cli', seq)
+    if (!change) {
+      console.error(`❌ 记忆 #${id} 没有可回滚的变更`)
+      process.exit(1)
+    }
+    console.log(change.after
+      ? `↩️ 记忆 #${id} 已恢复: ${change.after.text}`
+      : `↩️ 记忆 #${id} 已移除（回滚了新增）`)
+    break
+  }
+
+  case 'pending': {
+    const pending = db.listPending()
+    if (pending.length === 0) {
+      console.log('📭 暂无待确认记忆')
+      break
+    }
+
+    console.table(pending.map(p => {
+      const text = p.op === 'delete'
+        ? `删除 ${p.targets?.length ?? 0} 条: ${(p.targets ?? []).map(t => `#${t.id}`).join(' ')}`
+        : p.op === 'consolidate'
+          ? `${(p.targets ?? []).map(t => `#${t.id}`).join(' ')} → ${p.entry?.text ?? ''}`
+          : p.entry?.text ?? ''
+      return {
+        id: p.id,
+        op: p.op,
+        cat: p.entry?.cat ?? '-',
+        imp: p.entry?.imp ?? '-',
+        confidence: p.confidence?.toFixed(2) ?? '-',
+        text: text.slice(0, 60) + (text.length > 60 ? '...' : ''),
+        reason: p.reason.slice(0, 40),
+      }
+    }))
+    console.log(`\n共 ${pending.length} 条待确认记忆`)
+    break
+  }
+
+  case 'accept':
+  case 'reject': {
+    const id = parseInt(args[0] || '')
+    if (isNaN(id)) {
+      console.error(`❌ Usage: ${command} <pendingId>`)
+      process.exit(1)
+    }
+
+    if (command === 'accept') {
+      const result = db.acceptPending(id, 'cli')
+      if (!result) {
+        console.error(`❌ 待确认记忆 #${id} 不存在`)
+        process.exit(1)
+      }
+      console.log(`✅ 待确认记忆 #${id} 已确认: ${result}`)
+    } else {
+      if (!db.rejectPending(id)) {
+        console.error(`❌ 待确认记忆 #${id} 不存在`)
+        process.exit(1)
+      }
+      console.log(`🗑️ 待确认记忆 #${id} 已丢弃`)
+    }
+    break
+  }
+
+  case 'export': {
+    const format = (getFlag(args, '--format') || 'md') as ExportFormat
+    if (!EXPORT_FORMATS.includes(format)) {
+      console.error(`❌ --format must be one of ${EXPORT_FORMATS.join(', ')}`)
+      process.exit(1)
+    }
+
+    const entries = db.getAll()
+    const content = exportMemories(entries, format)
+    const out = getFlag(args, '--out')
+    if (out) {
+      fs.writeFileSync(out, content, 'utf-8')
+      console.log(`✅ 导出了 ${entries.length} 条记忆: ${out}`)
+    } else {
+      process.stdout.write(content)
+    }
+    break
+  }
+
+  case 'import': {
+    const file = args[0]
+    if (!file || file.startsWith('--')) {
+      console.error('❌ Usage: import <file> [--format md|csv|jsonl|json] [--strategy skip|overwrite|merge] [--dry-run]')
+      process.exit(1)
+    }
+
+    const format = (getFlag(args, '--format') || detectImportFormat(file)) as ImportFormat | undefined
+    if (!format || !IMPORT_FORMATS.includes(format)) {
+      console.error(`❌ 无法识别导入格式，请指定 --format ${IMPORT_FORMATS.join('|')}`)
+      process.exit(1)
+    }
+    const strategy = (getFlag(args, '--strategy') || 'skip') as ImportStrategy
+    if (!IMPORT_STRATEGIES.includes(strategy)) {
+      console.error(`❌ --strategy must be one of ${IMPORT_STRATEGIES.join(', ')}`)
+      process.exit(1)
+    }
+
+    const { candidates, errors } = parseImport(fs.readFileSync(file, 'utf-8'), format)
+    const report = db.importEntries(candidates, { strategy, dryRun: args.includes('--dry-run'), actor: 'cli' })
+    console.log(formatImportDiff({ ...report, errors }))
+    break
+  }
+
+  case 'archived': {
+    const limit = parseInt(getFlag(args, '--limit') || '50')
+    const archivedNow = db.archiveExpired()
+    if (archivedNow > 0) {
+      console.log(`📦 本次归档 ${archivedNow} 条过期记忆`)
+    }
+
+    const archived = db.getArchived().slice(-limit).reverse()
+    if (archived.length === 0) {
+      console.log('📭 暂无归档记忆')
+      break
+    }
+
+    console.table(archived.map(e => ({
+      id: e.id,
+      cat: e.cat,
+      imp: e.imp,
+      text: e.text.slice(0, 60) + (e.text.length > 60 ? '...' : ''),
+      expired: e.expires_at ? formatMemoryTime(e.expires_at) : '',
+      archived: formatMemoryTime(e.archived_at),
+    })))
+    console.log(`\n共 ${archived.length} 条归档记忆`)
+    break
+  }
+
   case 'help':
   case '--help':
   case '-h':
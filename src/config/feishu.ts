@@ -31,6 +31,7 @@ export function getFeishuConfig(): FeishuConfig {
       enableStreaming: true,
       enableStreamingCard: true,
       showTypingIndicator: true,
+      showUsageFooter: process.env.FEISHU_SHOW_USAGE_FOOTER === 'true',
     }
   }
 }
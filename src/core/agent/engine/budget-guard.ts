@@ -0,0 +1,189 @@
+/**
+ * BudgetGuard - 每日费用预算（硬上限）
+ *
+ * 基于 UsageLedger 统计当天（Asia/Shanghai）费用，超出预算时拒绝新的对话轮次；
+ * 进行中的轮次通过 SDK maxBudgetUsd 限制剩余额度，超额即中止；
+ * 同一轮内的重试、模型回退与结构化输出重新提示共享该额度，每次尝试的费用都计入台账。
+ *
+ * 配置路径: data/budgets.json（每次检查时重新读取，修改后无需重启）
+ * {
+ *   "dailyUsd": 50,                 // 全局每日上限
+ *   "chatDailyUsd": 5,              // 每个飞书会话的默认每日上限
+ *   "chats": { "oc_xxx": 10 },      // 指定会话的每日上限（覆盖默认值）
+ *   "cronJobDailyUsd": 2,           // 每个定时任务的默认每日上限
+ *   "cronJobs": { "job_id": 1 }     // 指定定时任务的每日上限（覆盖默认值）
+ * }
+ *
+ * 未配置的维度不限制。超额告警发送给 FEISHU_ALERT_OPEN_ID，同一预算每天只告警一次。
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { UsageLedger } from './usage-ledger.js'
+import type { QueryContext } from '../types/agent.js'
+import { getDefaultFeishuAgentBridge } from '../../../services/feishu/feishu-agent-bridge.js'
+
+const CONFIG_PATH = path.join('data', 'budgets.json')
+
+// ==================== 类型定义 ====================
+
+export interface BudgetConfig {
+  dailyUsd?: number
+  chatDailyUsd?: number
+  chats?: Record<string, number>
+  cronJobDailyUsd?: number
+  cronJobs?: Record<string, number>
+}
+
+export interface BudgetLimit {
+  scope: 'global' | 'chat' | 'cronJob'
+  /** chatId / cronJobId，global 时为空 */
+  key?: string
+  limitUsd: number
+  spentUsd: number
+}
+
+export interface BudgetStatus {
+  allowed: boolean
+  /** 已超额的预算（allowed=false 时存在） */
+  exceeded?: BudgetLimit
+  /** 所有适用预算中剩余额度最小的一项，用于限制本轮 maxBudgetUsd */
+  binding?: BudgetLimit
+  /** 本轮可用的剩余额度（USD），无预算限制时为 undefined */
+  remainingUsd?: number
+}
+
+/**
+ * 预算超额错误：新轮次被拒绝或进行中的轮次被 SDK 中止
+ */
+export class BudgetExceededError extends Error {
+  constructor(public readonly limit?: BudgetLimit) {
+    super(limit ? formatBudgetExceeded(limit) : '费用预算已用尽，本轮对话已中止')
+    this.name = 'BudgetExceededError'
+  }
+}
+
+// ==================== BudgetGuard ====================
+
+export class BudgetGuard {
+  private ledger: UsageLedger
+  /** 已告警的预算：scope:key → 日期 */
+  private alerted = new Map<string, string>()
+
+  constructor(ledger: UsageLedger) {
+    this.ledger = ledger
+  }
+
+  /**
+   * 检查本轮调用方适用的所有预算
+   */
+  check(context: QueryContext): BudgetStatus {
+    const limits = this.resolveLimits(context)
+    if (limits.length === 0) return { allowed: true }
+
+    const exceeded = limits.find(l => l.spentUsd >= l.limitUsd)
+    if (exceeded) {
+      return { allowed: false, exceeded }
+    }
+
+    const binding = limits.reduce((min, l) =>
+      l.limitUsd - l.spentUsd < min.limitUsd - min.spentUsd ? l : min,
+    )
+    return { allowed: true, binding, remainingUsd: binding.limitUsd - binding.spentUsd }
+  }
+
+  /**
+   * 检查预算：已超额时告警并抛出 BudgetExceededError，否则返回本轮可用额度
+   */
+  async enforce(context: QueryContext): Promise<BudgetStatus> {
+    const status = this.check(context)
+    if (!status.allowed) {
+      await this.alert(status.exceeded!)
+      throw new BudgetExceededError(status.exceeded)
+    }
+    return status
+  }
+
+  /**
+   * 发送超额告警（同一预算每天只发一次）
+   */
+  async alert(limit: BudgetLimit): Promise<void> {
+    const alertKey = `${limit.scope}:${limit.key ?? ''}`
+    const today = new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Shanghai' })
+    if (this.alerted.get(alertKey) === today) return
+    this.alerted.set(alertKey, today)
+
+    console.warn(`💰 ${formatBudgetExceeded(limit)}`)
+
+    const alertOpenId = process.env.FEISHU_ALERT_OPEN_ID
+    const bridge = getDefaultFeishuAgentBridge()
+    if (bridge && bridge.isBridgeConnected() && alertOpenId) {
+      try {
+        await bridge.sendMessageToChat(alertOpenId, `⚠️ 预算告警\n${formatBudgetExceeded(limit)}`)
+      } catch (e) {
+        console.error('❌ 发送预算告警失败:', e)
+      }
+    }
+  }
+
+  // ==================== 内部方法 ====================
+
+  private resolveLimits(context: QueryContext): BudgetLimit[] {
+    const config = this.loadConfig()
+    const chatLimit = context.chatId
+      ? config.chats?.[context.chatId] ?? config.chatDailyUsd
+      : undefined
+    const cronJobLimit = context.cronJobId
+      ? config.cronJobs?.[context.cronJobId] ?? config.cronJobDailyUsd
+      : undefined
+
+    if (config.dailyUsd === undefined && chatLimit === undefined && cronJobLimit === undefined) {
+      return []
+    }
+
+    const spend = this.ledger.dailySpend()
+    const limits: BudgetLimit[] = []
+
+    if (config.dailyUsd !== undefined) {
+      limits.push({ scope: 'global', limitUsd: config.dailyUsd, spentUsd: spend.totalUsd })
+    }
+    if (chatLimit !== undefined) {
+      limits.push({
+        scope: 'chat',
+        key: context.chatId,
+        limitUsd: chatLimit,
+        spentUsd: spend.chats[context.chatId!] ?? 0,
+      })
+    }
+    if (cronJobLimit !== undefined) {
+      limits.push({
+        scope: 'cronJob',
+        key: context.cronJobId,
+        limitUsd: cronJobLimit,
+        spentUsd: spend.cronJobs[context.cronJobId!] ?? 0,
+      })
+    }
+
+    return limits
+  }
+
+  private loadConfig(): BudgetConfig {
+    try {
+      if (!fs.existsSync(CONFIG_PATH)) return {}
+      return JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8')) as BudgetConfig
+    } catch (error) {
+      console.warn('⚠️ 读取 budgets.json 失败，忽略预算限制:', error)
+      return {}
+    }
+  }
+}
+
+/**
+ * 预算超额提示文案
+ */
+export function formatBudgetExceeded(limit: BudgetLimit): string {
+  const scopeLabel = limit.scope === 'global'
+    ? '全局'
+    : limit.scope === 'chat' ? `会话 ${limit.key} ` : `定时任务 ${limit.key} `
+  return `${scopeLabel}今日费用预算已用尽（$${limit.spentUsd.toFixed(4)} / $${limit.limitUsd.toFixed(2)}）`
+}
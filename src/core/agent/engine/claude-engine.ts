@@ -1,11 +1,45 @@
-import { query, type Options } from '@anthropic-ai/claude-agent-sdk'
-import type { AgentResponse, EventHandlers } from '../types/agent'
+import { query, type Options, type SDKMessage, type SDKResultMessage } from '@anthropic-ai/claude-agent-sdk'
+import type { AgentResponse, EventHandlers, QueryContext, RetryInfo } from '../types/agent'
+import type { ToolCallerContext } from '../types/tools'
 import { ToolManager } from './tool-manager'
 import { SessionIdStore } from './session-id-store'
+import { UsageLedger, getSharedUsageLedger } from './usage-ledger'
+import { BudgetExceededError } from './budget-guard'
+import { ModelRouter } from './model-router'
+import {
+  RETRY_CONFIG,
+  TransientQueryError,
+  classifyError,
+  computeBackoffDelay,
+  detectTransientFailure,
+  sleep,
+} from './retry-policy'
+import {
+  STRUCTURED_OUTPUT_CONFIG,
+  StructuredOutputError,
+  buildCorrectionPrompt,
+  buildStructuredPrompt,
+  parseStructuredOutput,
+  resolveOutputSchema,
+} from './structured-output'
 import { getVisionGuardConfig } from './vision-guard'
+import { checkMcpToolAllowlist } from './mcp-registry'
 import { PERSONAL_OPTIMIZER_AGENT, OTHERS_ANALYZER_AGENT } from '../../self-iteration/skill-optimizer-agent.js'
 import { getSkillInterceptorConfig } from '../../self-iteration/skill-interceptor.js'
 
+/**
+ * 单次调用的费用累计：瞬时故障重试、模型回退、结构化输出重新提示共享同一个费用上限
+ */
+interface QuerySpend {
+  /** 费用上限（USD），未设置表示不限 */
+  limitUsd?: number
+  spentUsd: number
+  /** 记录一次尝试的 result（含被丢弃的尝试）并累计费用 */
+  record: (message: SDKResultMessage) => void
+}
+
+type BuildOptions = (model: string, maxBudgetUsd?: number) => Options
+
 export class ClaudeEngine {
   private config: {
     model: string
@@ -16,12 +50,19 @@ export class ClaudeEngine {
   /** SDK session_id 持久化存储 */
   private sessionIdStore: SessionIdStore
 
+  /** Token 用量与费用台账 */
+  private usageLedger: UsageLedger
+
+  /** 模型路由（默认模型 + 回退链） */
+  private modelRouter: ModelRouter
+
   /** VisionGuard 配置 (三层防线) */
   private visionGuard = getVisionGuardConfig()
 
   constructor() {
     this.toolManager = new ToolManager()
     this.sessionIdStore = new SessionIdStore()
+    this.usageLedger = getSharedUsageLedger()
     const env = {
       ...process.env,
       ANTHROPIC_BASE_URL: process.env.ANTHROPIC_BASE_URL,
@@ -32,6 +73,7 @@ export class ClaudeEngine {
       model: process.env.CLAUDE_MODEL || '',
       env,
     }
+    this.modelRouter = new ModelRouter(this.config.model)
   }
 
   /**
@@ -41,6 +83,20 @@ export class ClaudeEngine {
     return this.sessionIdStore
   }
 
+  /**
+   * 获取用量台账（供 /api/agent/usage 查询）
+   */
+  getUsageLedger(): UsageLedger {
+    return this.usageLedger
+  }
+
+  /**
+   * 获取模型路由（供 /model 指令查询默认模型与回退链）
+   */
+  getModelRouter(): ModelRouter {
+    return this.modelRouter
+  }
+
   /**
    * 构建包含 VisionGuard + SkillInterceptor 的 query options
    *
@@ -55,14 +111,17 @@ export class ClaudeEngine {
     systemPrompt?: string,
     abortController?: AbortController,
     sessionId?: string,
+    maxBudgetUsd?: number,
+    model: string = this.config.model,
   ) {
-    const { model, env } = this.config
+    const { env } = this.config
     const guard = this.visionGuard
     const skillInterceptor = getSkillInterceptorConfig()
+    const { toolAllowlists, ...sdkToolsConfig } = toolsConfig
 
     // 合并 allowedTools: 原有工具 + Agent (Sub-Agent 必需)
     const allowedTools = [
-      ...toolsConfig.allowedTools,
+      ...sdkToolsConfig.allowedTools,
       ...guard.additionalAllowedTools,
     ]
     // 去重
@@ -92,7 +151,7 @@ export class ClaudeEngine {
     }
 
     return {
-      ...toolsConfig,
+      ...sdkToolsConfig,
       allowedTools: uniqueAllowedTools,
       model,
       settingSources: ['project'] as Options['settingSources'],
@@ -109,17 +168,174 @@ export class ClaudeEngine {
       hooks: mergedHooks,
 
       // 层级三: canUseTool 兜底 (含 Bash cat 图片拦截)
-      canUseTool: guard.canUseTool,
+      // 外部 MCP Server 白名单外的工具不会被 allowedTools 自动批准，在此拒绝
+      canUseTool: async (toolName: string, input: Record<string, unknown>) => {
+        const denial = checkMcpToolAllowlist(toolName, toolAllowlists)
+        if (denial) return { behavior: 'deny' as const, message: denial }
+        return guard.canUseTool(toolName, input)
+      },
 
       // AbortController
       ...(abortController ? { abortController } : {}),
 
+      // 费用硬上限：超出剩余预算时 SDK 中止本轮（error_max_budget_usd）
+      ...(maxBudgetUsd !== undefined ? { maxBudgetUsd } : {}),
+
       // [RESUME] 核心改动：如果已有 SDK session_id，用 resume 续接对话
       // SDK 会自动从 ~/.claude/projects/<encoded-cwd>/<session-id>.jsonl 恢复完整上下文
       ...(sdkSessionId ? { resume: sdkSessionId } : {}),
     }
   }
 
+  /**
+   * 无工具的 query options（context.toolFree）：
+   * 不挂载内置工具与 MCP Server、不读取项目设置、不 resume、单轮，输入中的对话内容无法诱导模型调用工具
+   */
+  private buildToolFreeOptions(
+    systemPrompt: string | undefined,
+    maxBudgetUsd: number | undefined,
+    model: string,
+    abortController?: AbortController,
+  ): Options {
+    return {
+      model,
+      tools: [],
+      mcpServers: {},
+      allowedTools: [],
+      settingSources: [],
+      maxTurns: 1,
+      cwd: process.cwd(),
+      env: this.config.env,
+      canUseTool: async () => ({ behavior: 'deny', message: 'Tools are disabled for this query' }),
+      ...(systemPrompt ? { systemPrompt } : {}),
+      ...(maxBudgetUsd !== undefined ? { maxBudgetUsd } : {}),
+      ...(abortController ? { abortController } : {}),
+    }
+  }
+
+  /**
+   * 创建单次调用的费用累计，每次尝试的 result 都写入台账
+   */
+  private createQuerySpend(sessionId: string | undefined, context: QueryContext): QuerySpend {
+    const spend: QuerySpend = {
+      limitUsd: context.maxBudgetUsd,
+      spentUsd: 0,
+      record: (message) => {
+        const usage = UsageLedger.fromResultMessage(message)
+        spend.spentUsd += usage.costUsd
+        this.usageLedger.record(usage, sessionId, context)
+      },
+    }
+    return spend
+  }
+
+  /**
+   * 按模型回退链执行 query
+   * 当前模型过载 / 限流且尚未产生任何输出时，丢弃本次尝试并切换到回退链中的下一个模型；
+   * 一旦已有输出（assistant 内容 / 工具调用）则不再切换，避免重复回复
+   * 每次尝试的 maxBudgetUsd 为扣除此前各次尝试费用后的剩余额度
+   */
+  private async *queryWithModelFallback(
+    prompt: string,
+    buildOptions: BuildOptions,
+    spend: QuerySpend,
+    preferredModel?: string,
+  ): AsyncGenerator<SDKMessage> {
+    const models = this.modelRouter.resolveChain(preferredModel)
+
+    for (let i = 0; i < models.length; i++) {
+      const model = models[i]!
+      const nextModel = models[i + 1]
+      let produced = false
+      let unavailable = false
+
+      const remainingUsd = spend.limitUsd !== undefined ? spend.limitUsd - spend.spentUsd : undefined
+      if (remainingUsd !== undefined && remainingUsd <= 0) {
+        throw new BudgetExceededError()
+      }
+
+      try {
+        for await (const message of query({ prompt, options: buildOptions(model, remainingUsd) })) {
+          if (message.type === 'result') {
+            spend.record(message)
+          }
+          if (!produced && nextModel !== undefined && ModelRouter.isUnavailableMessage(message)) {
+            console.warn(`⚠️ 模型 ${model || '(default)'} 过载或限流，切换到回退模型 ${nextModel}`)
+            unavailable = true
+            break
+          }
+          if (message.type === 'assistant' || message.type === 'user') {
+            produced = true
+          }
+          yield message
+        }
+      } catch (error) {
+        if (produced || nextModel === undefined || !ModelRouter.isUnavailableError(error)) {
+          throw error
+        }
+        console.warn(`⚠️ 模型 ${model || '(default)'} 调用失败（${error instanceof Error ? error.message : error}），切换到回退模型 ${nextModel}`)
+        continue
+      }
+
+      if (!unavailable) return
+    }
+  }
+
+  /**
+   * 带重试的 query：过载 / 限流 / 网络抖动等瞬时故障按指数退避 + jitter 重试
+   *
+   * 安全约束：
+   *   - 本次尝试已发起工具调用时不重试，避免有副作用的工具被重复执行
+   *   - 失败的尝试不会写入 SessionIdStore，重试时 resume 仍使用上一轮成功保存的 SDK session_id
+   */
+  private async *queryWithRetry(
+    prompt: string,
+    buildOptions: BuildOptions,
+    spend: QuerySpend,
+    preferredModel?: string,
+    onRetry?: (info: RetryInfo) => Promise<void>,
+    signal?: AbortSignal,
+  ): AsyncGenerator<SDKMessage> {
+    for (let attempt = 0; ; attempt++) {
+      let toolUsed = false
+      let failure: unknown
+
+      try {
+        for await (const message of this.queryWithModelFallback(prompt, buildOptions, spend, preferredModel)) {
+          const transient = detectTransientFailure(message)
+          if (transient) {
+            failure = new TransientQueryError(transient)
+            break
+          }
+          if (message.type === 'assistant' && message.message?.content?.some?.((b: any) => b.type === 'tool_use')) {
+            toolUsed = true
+          }
+          yield message
+        }
+      } catch (error) {
+        failure = error
+      }
+
+      if (failure === undefined) return
+
+      if (
+        toolUsed
+        || attempt >= RETRY_CONFIG.MAX_RETRIES
+        || signal?.aborted
+        || classifyError(failure) === 'fatal'
+      ) {
+        throw failure
+      }
+
+      const reason = failure instanceof Error ? failure.message : String(failure)
+      const delayMs = computeBackoffDelay(attempt)
+      console.warn(`🔁 Claude 调用瞬时失败（${reason}），${delayMs}ms 后第 ${attempt + 1}/${RETRY_CONFIG.MAX_RETRIES} 次重试`)
+      await onRetry?.({ attempt: attempt + 1, maxRetries: RETRY_CONFIG.MAX_RETRIES, delayMs, reason })
+      await sleep(delayMs, signal)
+      if (signal?.aborted) throw failure
+    }
+  }
+
   /**
    * 发送消息给Claude并获取响应（非流式，支持 resume）
    *
@@ -127,31 +343,104 @@ export class ClaudeEngine {
    *   - 新增 sessionId 参数：业务层会话 ID
    *   - prompt 只传当前用户消息（不再拼接历史）
    *   - 从 result 中捕获 SDK session_id 并持久化
+   *
+   * @param context - 调用方上下文（发信人等），用于工具权限校验与用量归属；
+   *   传入 outputSchema 时进入结构化输出模式
    */
   async sendMessage(
     userMessage: string,
     systemPrompt?: string,
     sessionId?: string,
+    context: QueryContext = {},
+  ): Promise<AgentResponse> {
+    if (context.outputSchema) {
+      return this.sendStructuredMessage(userMessage, systemPrompt, sessionId, context)
+    }
+    return this.runMessageQuery(userMessage, systemPrompt, sessionId, context)
+  }
+
+  /**
+   * 结构化输出：校验最终回复，未通过时携带校验错误重新提示模型
+   * 有 sessionId 时通过 resume 续接，只发送纠正提示；否则重新携带原始请求与上次输出
+   */
+  private async sendStructuredMessage(
+    userMessage: string,
+    systemPrompt: string | undefined,
+    sessionId: string | undefined,
+    context: QueryContext,
+  ): Promise<AgentResponse> {
+    const { jsonSchema, validator } = resolveOutputSchema(context.outputSchema!)
+    const maxRetries = context.maxOutputRetries ?? STRUCTURED_OUTPUT_CONFIG.MAX_RETRIES
+    const structuredPrompt = buildStructuredPrompt(userMessage, jsonSchema)
+
+    // 重新提示与首次请求共享本轮费用上限
+    const spend = this.createQuerySpend(sessionId, context)
+    let prompt = structuredPrompt
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.runMessageQuery(prompt, systemPrompt, sessionId, context, spend)
+      const parsed = parseStructuredOutput(response.content, validator)
+      if (parsed.success) {
+        return { ...response, parsed: parsed.data }
+      }
+
+      if (attempt >= maxRetries) {
+        throw new StructuredOutputError(
+          `结构化输出校验失败（已重试 ${maxRetries} 次）: ${parsed.error}`,
+          response.content,
+        )
+      }
+
+      console.warn(`⚠️ 结构化输出校验失败，第 ${attempt + 1}/${maxRetries} 次重新提示: ${parsed.error}`)
+      prompt = buildCorrectionPrompt(
+        parsed.error,
+        sessionId ? undefined : { prompt: structuredPrompt, lastOutput: response.content },
+      )
+    }
+  }
+
+  /**
+   * 单次非流式 query
+   */
+  private async runMessageQuery(
+    userMessage: string,
+    systemPrompt: string | undefined,
+    sessionId: string | undefined,
+    context: QueryContext,
+    spend: QuerySpend = this.createQuerySpend(sessionId, context),
   ): Promise<AgentResponse> {
     try {
-      const toolsConfig = await this.toolManager.getTools()
+      const toolsConfig = context.toolFree ? null : await this.toolManager.getTools(toToolCaller(sessionId, context))
 
       // [RESUME] 使用异步生成器作为提示 (含 VisionGuard 三层防线 + resume)
-      const response = query({
-        prompt: userMessage,
-        options: this.buildQueryOptions(toolsConfig, systemPrompt, undefined, sessionId),
-      })
+      const response = this.queryWithRetry(
+        userMessage,
+        (model, maxBudgetUsd) => toolsConfig
+          ? this.buildQueryOptions(toolsConfig, systemPrompt, context.abortController, sessionId, maxBudgetUsd, model)
+          : this.buildToolFreeOptions(systemPrompt, maxBudgetUsd, model, context.abortController),
+        spend,
+        context.model,
+        undefined,
+        context.abortController?.signal,
+      )
 
       let result = ''
       let lastAssistantContent = ''
+      let usage: AgentResponse['usage']
 
       // 处理AI响应流
       for await (const message of response) {
-        if (message.type === 'result') {
+        if (message.type === 'system' && message.subtype === 'init') {
+          this.toolManager.getMcpRegistry().recordStatuses(message.mcp_servers)
+        } else if (message.type === 'result') {
           // [RESUME] 捕获 SDK 分配的 session_id，持久化以便下次 resume
           if (sessionId && message.session_id) {
             this.sessionIdStore.set(sessionId, message.session_id)
           }
+          // 台账已在 queryWithModelFallback 中按尝试记录
+          usage = UsageLedger.fromResultMessage(message)
+          if (message.subtype === 'error_max_budget_usd') {
+            throw new BudgetExceededError()
+          }
           result += (message as any).result
         } else if (message.type === 'assistant') {
           const assistantContent = message?.message?.content
@@ -175,8 +464,10 @@ export class ClaudeEngine {
 
       return {
         content: result,
+        usage,
       }
     } catch (error) {
+      if (error instanceof BudgetExceededError) throw error
       console.error('Claude引擎错误:', error)
       throw new Error(`Claude API调用失败: ${error instanceof Error ? error.message : '未知错误'}`)
     }
@@ -193,6 +484,8 @@ export class ClaudeEngine {
    * 消息处理逻辑与原版完全相同，仅改变了"上下文来源"：
    *   原来: 手动拼接历史 → 每次全新 session
    *   现在: SDK resume → 自动恢复完整 session（包括工具调用历史）
+   *
+   * @param context - 调用方上下文（发信人等），用于工具权限校验与用量归属
    */
   async sendMessageStream(
     userMessage: string,
@@ -200,6 +493,7 @@ export class ClaudeEngine {
     systemPrompt?: string,
     abortController?: AbortController,
     sessionId?: string,
+    context: QueryContext = {},
   ): Promise<string> {
     let result = ''
     let pushedContent = ''
@@ -208,9 +502,27 @@ export class ClaudeEngine {
     const toolUseIdToName = new Map<string, string>()
     const toolUseIdToParent = new Map<string, string>()
 
+    // 重试回放：非 null 时表示重试后新生成的文本，与已推送内容比对，避免重复推送
+    let replayText: string | null = null
+    const pushText = async (text: string) => {
+      if (replayText !== null) {
+        replayText += text
+        if (pushedContent.startsWith(replayText)) return
+        if (replayText.startsWith(pushedContent)) {
+          text = replayText.slice(pushedContent.length)
+        } else {
+          // 与已推送内容分叉：另起一段输出重试后的完整文本
+          text = '\n\n' + replayText
+        }
+        replayText = null
+      }
+      await eventHandlers?.onContentDelta?.(text)
+      pushedContent += text
+    }
+
     try {
       await eventHandlers?.onContentStart?.()
-      const toolsConfig = await this.toolManager.getTools()
+      const toolsConfig = await this.toolManager.getTools(toToolCaller(sessionId, context))
 
       // [RESUME] prompt 只传当前用户消息，不再拼接历史
       // SDK 通过 resume 选项自动恢复之前的完整对话上下文
@@ -218,14 +530,25 @@ export class ClaudeEngine {
         prompt: userMessage,
         options: this.buildQueryOptions(toolsConfig, systemPrompt, undefined, sessionId),
       })
-      const response = query({
-        prompt: userMessage,
-        options: this.buildQueryOptions(toolsConfig, systemPrompt, abortController, sessionId),
-      })
+      const response = this.queryWithRetry(
+        userMessage,
+        (model, maxBudgetUsd) => this.buildQueryOptions(toolsConfig, systemPrompt, abortController, sessionId, maxBudgetUsd, model),
+        this.createQuerySpend(sessionId, context),
+        context.model,
+        async (info) => {
+          // 重试会从头重新生成回复：已推送到卡片的文本进入回放去重
+          replayText = pushedContent ? '' : null
+          await eventHandlers?.onRetry?.(info)
+        },
+        abortController?.signal,
+      )
 
       // 处理AI响应流（abortController.abort() 会中断此循环）
       for await (const message of response) {
-        if (message.type === 'result') {
+        if (message.type === 'system' && message.subtype === 'init') {
+          // 记录外部 MCP Server 连接状态，供 /api/agent/mcp 查询
+          this.toolManager.getMcpRegistry().recordStatuses(message.mcp_servers)
+        } else if (message.type === 'result') {
           // ====== result 消息：最终结果 ======
           const resultMsg = message as any
           const messageResult = resultMsg.result
@@ -235,6 +558,13 @@ export class ClaudeEngine {
             this.sessionIdStore.set(sessionId, message.session_id)
           }
 
+          // 通知调用方本轮用量（如卡片 footer），台账已在 queryWithModelFallback 中按尝试记录
+          const usage = UsageLedger.fromResultMessage(message)
+          await eventHandlers?.onUsage?.(usage)
+          if (message.subtype === 'error_max_budget_usd') {
+            throw new BudgetExceededError()
+          }
+
           if (messageResult && messageResult.trim()) {
             result = messageResult
 
@@ -290,8 +620,7 @@ export class ClaudeEngine {
               // --- text 块 ---
               if (block.type === 'text' && block.text) {
                 if (!isSubAgentMessage) {
-                  await eventHandlers?.onContentDelta?.(block.text)
-                  pushedContent += block.text
+                  await pushText(block.text)
                 }
               }
             }
@@ -390,6 +719,8 @@ export class ClaudeEngine {
       return result
 
     } catch (error) {
+      // 预算超额由上层（AgentEngine）统一展示与告警
+      if (error instanceof BudgetExceededError) throw error
       const errMsg = error instanceof Error ? error.message : String(error)
       await eventHandlers?.onError?.(errMsg)
       throw error
@@ -416,3 +747,15 @@ export class ClaudeEngine {
     return this.sendMessage(prompt, systemPrompt)
   }
 }
+
+/**
+ * 本轮 query 的工具调用方：未经验证的 userId 不参与权限校验
+ */
+function toToolCaller(sessionId: string | undefined, context: QueryContext): ToolCallerContext {
+  return {
+    sessionId,
+    userId: context.userIdUnverified ? undefined : context.userId,
+    chatId: context.chatId,
+    system: context.system,
+  }
+}
@@ -18,7 +18,8 @@
  *   - SystemPrompt 构建 — 每次 query 仍需注入最新的高优记忆
  */
 
-import { SystemPromptBuilder, type SystemPromptResult } from './system-prompt-builder.js'
+import { SystemPromptBuilder, type BuildOptions, type SystemPromptResult } from './system-prompt-builder.js'
+import type { MemoryScope } from '../../memory/memory-db.js'
 
 // ==================== 类型定义（向后兼容） ====================
 
@@ -63,13 +64,13 @@ export class ContextBuilder {
    * 构建 System Prompt（核心方法）
    *
    * Resume 模式下，这是 ContextBuilder 唯一的核心职责：
-   * 每次 query 前构建最新的 system prompt，注入高优记忆。
+   * 每次 query 前构建最新的 system prompt，注入高优记忆及与当前消息相关的记忆。
    *
    * 注意：resume 时 SDK 会使用新传入的 systemPrompt，
    * 所以每次都能注入最新的记忆内容。
    */
-  buildSystemPrompt(): SystemPromptResult {
-    return this.systemPromptBuilder.build()
+  async buildSystemPrompt(scope: MemoryScope = {}, options: BuildOptions = {}): Promise<SystemPromptResult> {
+    return this.systemPromptBuilder.build(scope, options)
   }
 
   // ==================== 兼容方法 ====================
@@ -85,7 +86,7 @@ export class ContextBuilder {
    */
   async build(sessionId: string, userMessage: string): Promise<ContextBuildResult> {
     console.warn('⚠️ ContextBuilder.build() 在 Resume 模式下已弃用，上下文由 SDK resume 管理')
-    const systemPromptResult = this.systemPromptBuilder.build()
+    const systemPromptResult = await this.systemPromptBuilder.build({}, { query: userMessage })
 
     return {
       systemPrompt: systemPromptResult.text,
@@ -0,0 +1,185 @@
+/**
+ * McpServerRegistry - 外部 MCP Server 注册表
+ *
+ * 从配置文件加载 stdio / HTTP / SSE 类型的外部 MCP Server，
+ * 合并进 ToolManager.getTools() 返回的 mcpServers 与 allowedTools。
+ *
+ * 配置路径: data/mcp-servers.json（每次 query 前重新读取，修改后无需重启）
+ * {
+ *   "servers": {
+ *     "github": {
+ *       "type": "stdio",
+ *       "command": "npx",
+ *       "args": ["-y", "@modelcontextprotocol/server-github"],
+ *       "env": { "GITHUB_TOKEN": "${GITHUB_TOKEN}" },
+ *       "allowedTools": ["create_issue", "search_repositories"],
+ *       "enabled": true
+ *     },
+ *     "docs": { "type": "http", "url": "https://example.com/mcp", "headers": { "Authorization": "Bearer ${DOCS_TOKEN}" } }
+ *   }
+ * }
+ *
+ * - env / headers 中的 ${VAR} 从 process.env 注入，避免把密钥写进配置文件
+ * - allowedTools 为空表示放行该 Server 的全部工具；非空时未列出的工具在 canUseTool 中被拒绝
+ * - 健康状态来自 SDK system/init 消息中的 mcp_servers 字段，每次 query 更新
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { McpServerConfig } from '@anthropic-ai/claude-agent-sdk'
+
+const CONFIG_PATH = path.join('data', 'mcp-servers.json')
+
+// ==================== 类型定义 ====================
+
+interface ExternalServerBase {
+  /** 是否启用，默认 true */
+  enabled?: boolean
+  /** 工具白名单（不含 mcp__server__ 前缀），为空放行全部 */
+  allowedTools?: string[]
+}
+
+export type ExternalMcpServerConfig = ExternalServerBase & (
+  | { type?: 'stdio'; command: string; args?: string[]; env?: Record<string, string> }
+  | { type: 'http' | 'sse'; url: string; headers?: Record<string, string> }
+)
+
+interface McpServersFile {
+  servers?: Record<string, ExternalMcpServerConfig>
+}
+
+export interface McpServerHealth {
+  name: string
+  type: 'stdio' | 'http' | 'sse'
+  enabled: boolean
+  allowedTools: string[] | 'all'
+  /** SDK 报告的连接状态；尚未被任何 query 加载过时为 unknown */
+  status: string
+  /** 最近一次状态更新时间 */
+  checkedAt?: string
+}
+
+// ==================== McpServerRegistry ====================
+
+export class McpServerRegistry {
+  private statuses = new Map<string, { status: string; checkedAt: string }>()
+
+  /**
+   * 获取已启用的外部 MCP Server 配置（SDK 格式）与对应的 allowedTools
+   * allowedTools 只负责自动批准，白名单的拒绝由 toolAllowlists + checkMcpToolAllowlist 在 canUseTool 中执行
+   * @param reservedNames - 已被内置 Server 占用的名称，同名外部配置会被忽略
+   */
+  getEnabledServers(reservedNames: string[] = []): {
+    mcpServers: Record<string, McpServerConfig>
+    allowedTools: string[]
+    /** 配置了白名单的 Server → 允许的工具名（不含前缀） */
+    toolAllowlists: Record<string, string[]>
+  } {
+    const mcpServers: Record<string, McpServerConfig> = {}
+    const allowedTools: string[] = []
+    const toolAllowlists: Record<string, string[]> = {}
+
+    for (const [name, server] of Object.entries(this.loadConfig())) {
+      if (server.enabled === false) continue
+      if (reservedNames.includes(name)) {
+        console.warn(`⚠️ 外部 MCP Server 名称与内置冲突，已忽略: ${name}`)
+        continue
+      }
+
+      mcpServers[name] = this.toSdkConfig(server)
+
+      if (server.allowedTools && server.allowedTools.length > 0) {
+        allowedTools.push(...server.allowedTools.map(t => `mcp__${name}__${t}`))
+        toolAllowlists[name] = server.allowedTools
+      } else {
+        allowedTools.push(`mcp__${name}`)
+      }
+    }
+
+    return { mcpServers, allowedTools, toolAllowlists }
+  }
+
+  /**
+   * 记录 SDK 报告的 MCP Server 连接状态（来自 system/init 消息）
+   */
+  recordStatuses(servers: Array<{ name: string; status: string }>): void {
+    const checkedAt = new Date().toISOString()
+    for (const server of servers) {
+      this.statuses.set(server.name, { status: server.status, checkedAt })
+    }
+  }
+
+  /**
+   * 获取所有已配置外部 Server 的健康状态
+   */
+  getHealth(): McpServerHealth[] {
+    return Object.entries(this.loadConfig()).map(([name, server]) => {
+      const enabled = server.enabled !== false
+      const recorded = this.statuses.get(name)
+      return {
+        name,
+        type: server.type ?? 'stdio',
+        enabled,
+        allowedTools: server.allowedTools && server.allowedTools.length > 0 ? server.allowedTools : 'all',
+        status: enabled ? recorded?.status ?? 'unknown' : 'disabled',
+        checkedAt: recorded?.checkedAt,
+      }
+    })
+  }
+
+  // ==================== 内部方法 ====================
+
+  private loadConfig(): Record<string, ExternalMcpServerConfig> {
+    try {
+      if (!fs.existsSync(CONFIG_PATH)) return {}
+      const content = fs.readFileSync(CONFIG_PATH, 'utf-8')
+      const data = JSON.parse(content) as McpServersFile
+      return data.servers ?? {}
+    } catch (error) {
+      console.warn('⚠️ 读取 mcp-servers.json 失败，忽略外部 MCP Server:', error)
+      return {}
+    }
+  }
+
+  private toSdkConfig(server: ExternalMcpServerConfig): McpServerConfig {
+    if (!('command' in server)) {
+      return {
+        type: server.type,
+        url: server.url,
+        ...(server.headers ? { headers: this.interpolateEnv(server.headers) } : {}),
+      }
+    }
+    return {
+      type: 'stdio',
+      command: server.command,
+      ...(server.args ? { args: server.args } : {}),
+      ...(server.env ? { env: this.interpolateEnv(server.env) } : {}),
+    }
+  }
+
+  /**
+   * 将 ${VAR} 占位符替换为 process.env 中的值（缺失时替换为空串）
+   */
+  private interpolateEnv(values: Record<string, string>): Record<string, string> {
+    const result: Record<string, string> = {}
+    for (const [key, value] of Object.entries(values)) {
+      result[key] = String(value).replace(/\$\{(\w+)\}/g, (_match, name: string) => process.env[name] ?? '')
+    }
+    return result
+  }
+}
+
+/**
+ * 校验外部 MCP 工具是否在所属 Server 的白名单内
+ * @returns 拒绝原因；不属于受限 Server 或在白名单内时返回 null
+ */
+export function checkMcpToolAllowlist(toolName: string, toolAllowlists: Record<string, string[]>): string | null {
+  for (const [server, tools] of Object.entries(toolAllowlists)) {
+    const prefix = `mcp__${server}__`
+    if (!toolName.startsWith(prefix)) continue
+    return tools.includes(toolName.slice(prefix.length))
+      ? null
+      : `Tool "${toolName}" is not in the allowedTools of MCP server "${server}"`
+  }
+  return null
+}
@@ -0,0 +1,372 @@
+/**
+ * MemoryConsolidator - 记忆定期整理（合并 / 改写 / 矛盾标记）
+ *
+ * 由内置 CronJob（taskType=memory_consolidation）每小时检查一次，满足任一条件时执行：
+ *   - 上次整理以来新增 / 修改的记忆数 ≥ DEDUP.AI_TRIGGER_COUNT
+ *   - 距上次整理 ≥ DEDUP.AI_INTERVAL_HOURS，且期间有新的变更
+ *
+ * 流程：
+ *   1. 按作用域 + 分类分批；correction 归入语义最相近的分类批次，便于发现被纠正推翻的偏好
+ *   2. 每批交给模型给出 merge / rewrite / contradiction 操作
+ *   3. merge / rewrite 进入记忆审核队列（见 memory-review.ts），通过后由 MemoryDB.consolidate 写入，
+ *      derived_from 指向变更日志中的原始快照；contradiction 只在报告中标记，由管理员决定如何处理
+ *   4. 报告发送到管理员会话；dryRun 时只生成报告不入队，也不推进变更序号
+ *
+ * 只整理有效期内的记忆；模型调用无工具、受定时任务预算约束（超额时抛出 BudgetExceededError）
+ *
+ * 状态文件: data/memory.consolidation.json（与 memory.jsonl 同目录）
+ * {"lastRunAt": "2026-01-01T00:00:00.000Z", "lastSeq": 120}
+ */
+
+import * as fs from 'node:fs'
+import z from 'zod'
+import type { ClaudeEngine } from './claude-engine.js'
+import { BudgetExceededError, type BudgetGuard } from './budget-guard.js'
+import { stageMemoryReview } from './memory-review.js'
+import { isMemoryActive, type MemoryDB, type MemoryEntry } from '../../memory/memory-db.js'
+import { cosineSimilarity } from '../../memory/embedding-provider.js'
+import { MEMORY_CONFIG, MEMORY_CONSOLIDATE_SYSTEM_PROMPT, type MemoryCat } from '../../memory/config.js'
+
+const STATE_PATH = MEMORY_CONFIG.DB_PATH.replace(/\.(jsonl|db|md)$/, '.consolidation.json')
+
+// ==================== 类型定义 ====================
+
+const actionSchema = z.object({
+  actions: z.array(z.discriminatedUnion('op', [
+    z.object({
+      op: z.literal('merge'),
+      ids: z.array(z.number().int()).min(2),
+      text: z.string().min(1),
+      keywords: z.string().optional(),
+      imp: z.number().int().min(1).max(5).optional(),
+      reason: z.string().default(''),
+    }),
+    z.object({
+      op: z.literal('rewrite'),
+      id: z.number().int(),
+      text: z.string().min(1),
+      keywords: z.string().optional(),
+      reason: z.string().default(''),
+    }),
+    z.object({
+      op: z.literal('contradiction'),
+      ids: z.array(z.number().int()).min(2),
+      keep: z.number().int().optional(),
+      reason: z.string().default(''),
+    }),
+  ])),
+})
+
+export type ConsolidationAction = z.infer<typeof actionSchema>['actions'][number]
+
+export interface ConsolidationOptions {
+  /** 只生成报告，不提交审核 */
+  dryRun?: boolean
+  /** 忽略触发条件，立即执行 */
+  force?: boolean
+  /** 触发本次整理的定时任务 ID，用于用量归属 */
+  cronJobId?: string
+}
+
+export interface ConsolidationReport {
+  runAt: string
+  dryRun: boolean
+  /** 参与整理的记忆条数 */
+  scanned: number
+  batches: number
+  /** pendingId：已提交审核的队列 ID，未提交（预演 / contradiction / 记忆已变更）时为空 */
+  actions: Array<{ action: ConsolidationAction; pendingId?: number }>
+  /** 整理前的原文（记忆 ID → text），用于报告对比 */
+  originals: Record<number, string>
+  /** 调用失败的批次数 */
+  failedBatches: number
+}
+
+interface ConsolidationState {
+  lastRunAt?: string
+  lastSeq?: number
+}
+
+// ==================== MemoryConsolidator 类 ====================
+
+export class MemoryConsolidator {
+  private memoryDb: MemoryDB
+  private claudeEngine: ClaudeEngine
+  private budgetGuard: BudgetGuard
+
+  constructor(memoryDb: MemoryDB, claudeEngine: ClaudeEngine, budgetGuard: BudgetGuard) {
+    this.memoryDb = memoryDb
+    this.claudeEngine = claudeEngine
+    this.budgetGuard = budgetGuard
+  }
+
+  /**
+   * 执行一次整理
+   * @returns 整理报告；未满足触发条件时返回 null
+   */
+  async run(options: ConsolidationOptions = {}): Promise<ConsolidationReport | null> {
+    const dryRun = options.dryRun ?? false
+    const state = this.loadState()
+    if (!options.force && !this.isDue(state)) {
+      return null
+    }
+
+    const now = Date.now()
+    const entries = this.memoryDb.getAll().filter(e => isMemoryActive(e, now))
+    const batches = await this.buildBatches(entries)
+    const report: ConsolidationReport = {
+      runAt: new Date().toISOString(),
+      dryRun,
+      scanned: batches.reduce((sum, b) => sum + b.length, 0),
+      batches: batches.length,
+      actions: [],
+      originals: Object.fromEntries(entries.map(e => [e.id!, e.text])),
+      failedBatches: 0,
+    }
+
+    console.log(`🧹 记忆整理开始: ${entries.length} 条记忆，${batches.length} 个批次${dryRun ? '（预演）' : ''}`)
+
+    for (const batch of batches) {
+      let actions: ConsolidationAction[]
+      try {
+        actions = await this.proposeActions(batch, options.cronJobId)
+      } catch (error) {
+        if (error instanceof BudgetExceededError) throw error
+        report.failedBatches++
+        console.error('❌ 记忆整理批次失败:', error)
+        continue
+      }
+
+      for (const action of actions) {
+        const pendingId = dryRun ? undefined : this.stage(action)
+        report.actions.push({ action, pendingId })
+      }
+    }
+
+    // 预演未提交任何变更：保留原序号，关闭预演后下次仍会整理这批变更
+    this.saveState({ lastRunAt: report.runAt, lastSeq: dryRun ? state.lastSeq : this.memoryDb.getLatestChangeSeq() })
+    console.log(`🧹 记忆整理完成: ${report.actions.length} 项操作，${report.actions.filter(a => a.pendingId !== undefined).length} 项已提交审核`)
+    return report
+  }
+
+  // ==================== 内部方法：触发条件 ====================
+
+  private isDue(state: ConsolidationState): boolean {
+    const { AI_INTERVAL_HOURS, AI_TRIGGER_COUNT } = MEMORY_CONFIG.DEDUP
+
+    // 首次运行：不依赖变更日志（旧数据可能没有历史记录）
+    if (!state.lastRunAt) {
+      return this.memoryDb.getAll().length >= 2
+    }
+
+    const changes = this.memoryDb.getChangesSince(state.lastSeq ?? 0)
+      .filter(c => c.actor !== 'consolidation' && (c.op === 'insert' || c.op === 'merge' || c.op === 'update'))
+      .length
+    const hoursSince = (Date.now() - new Date(state.lastRunAt).getTime()) / (3600 * 1000)
+
+    return changes >= AI_TRIGGER_COUNT || (hoursSince >= AI_INTERVAL_HOURS && changes > 0)
+  }
+
+  // ==================== 内部方法：分批 ====================
+
+  /**
+   * 按作用域 + 分类分批，只保留至少 2 条的批次
+   */
+  private async buildBatches(entries: MemoryEntry[]): Promise<MemoryEntry[][]> {
+    let embeddings = new Map<number, number[]>()
+    try {
+      embeddings = await this.memoryDb.getEmbeddings()
+    } catch (error) {
+      console.warn('⚠️ 记忆向量化失败，按分类整批整理:', error)
+    }
+    const similarity = (a: MemoryEntry, b: MemoryEntry): number => {
+      const va = embeddings.get(a.id!)
+      const vb = embeddings.get(b.id!)
+      return va && vb ? cosineSimilarity(va, vb) : 0
+    }
+
+    const byScope = new Map<string, MemoryEntry[]>()
+    for (const entry of entries) {
+      const key = `${entry.user_id ?? ''}|${entry.chat_id ?? ''}`
+      byScope.set(key, [...(byScope.get(key) ?? []), entry])
+    }
+
+    const batches: MemoryEntry[][] = []
+    for (const scoped of byScope.values()) {
+      const byCat = new Map<MemoryCat, MemoryEntry[]>()
+      for (const entry of scoped.filter(e => e.cat !== 'correction')) {
+        byCat.set(entry.cat, [...(byCat.get(entry.cat) ?? []), entry])
+      }
+
+      // correction 归入语义最相近的分类，找不到时单独成批
+      const assignments = scoped.filter(e => e.cat === 'correction').map(correction => {
+        let bestCat: MemoryCat = 'correction'
+        let bestSimilarity: number = MEMORY_CONFIG.DEDUP.AI_CORRECTION_SIMILARITY
+        for (const [cat, group] of byCat) {
+          for (const entry of group) {
+            const sim = similarity(correction, entry)
+            if (sim >= bestSimilarity) {
+              bestCat = cat
+              bestSimilarity = sim
+            }
+          }
+        }
+        return [bestCat, correction] as const
+      })
+      for (const [cat, correction] of assignments) {
+        byCat.set(cat, [...(byCat.get(cat) ?? []), correction])
+      }
+
+      for (const group of byCat.values()) {
+        batches.push(...this.chunkBySimilarity(group, similarity))
+      }
+    }
+
+    return batches.filter(b => b.length >= 2)
+  }
+
+  /**
+   * 超出批次上限时贪心聚类：每批以剩余的第一条为种子，取与其最相近的若干条
+   */
+  private chunkBySimilarity(
+    group: MemoryEntry[],
+    similarity: (a: MemoryEntry, b: MemoryEntry) => number,
+  ): MemoryEntry[][] {
+    const { AI_BATCH_SIZE } = MEMORY_CONFIG.DEDUP
+    if (group.length <= AI_BATCH_SIZE) return [group]
+
+    const chunks: MemoryEntry[][] = []
+    let remaining = [...group]
+    while (remaining.length > 0) {
+      const [seed, ...rest] = remaining
+      const nearest = rest
+        .map(entry => ({ entry, sim: similarity(seed!, entry) }))
+        .sort((a, b) => b.sim - a.sim)
+        .slice(0, AI_BATCH_SIZE - 1)
+        .map(n => n.entry)
+      chunks.push([seed!, ...nearest])
+      remaining = rest.filter(e => !nearest.includes(e))
+    }
+    return chunks
+  }
+
+  // ==================== 内部方法：模型调用与写入 ====================
+
+  /**
+   * 让模型给出本批的整理操作，丢弃引用批次外 ID、或多个 merge / rewrite 改动同一条记忆的操作
+   */
+  private async proposeActions(batch: MemoryEntry[], cronJobId?: string): Promise<ConsolidationAction[]> {
+    const prompt = batch
+      .map(e => `#${e.id} [${e.cat}] (imp=${e.imp}, updated=${e.updated_at}) ${e.text}${e.keywords ? `  kw: ${e.keywords}` : ''}`)
+      .join('\n')
+
+    // 记忆内容来自对话，视为不可信输入：无工具调用，费用计入定时任务预算
+    const budget = await this.budgetGuard.enforce({ cronJobId })
+    const response = await this.claudeEngine.sendMessage(`【待整理记忆】\n${prompt}`, MEMORY_CONSOLIDATE_SYSTEM_PROMPT, undefined, {
+      cronJobId,
+      outputSchema: actionSchema,
+      maxOutputRetries: 1,
+      maxBudgetUsd: budget.remainingUsd,
+      toolFree: true,
+    })
+    const { actions } = response.parsed as z.infer<typeof actionSchema>
+
+    const batchIds = new Set(batch.map(e => e.id!))
+    const used = new Set<number>()
+    return actions.filter(action => {
+      const ids = action.op === 'rewrite' ? [action.id] : action.ids
+      const conflicts = action.op !== 'contradiction' && ids.some(id => used.has(id))
+      if (conflicts || ids.some(id => !batchIds.has(id)) || new Set(ids).size !== ids.length) {
+        console.warn(`⚠️ 丢弃无效的整理操作: ${JSON.stringify(action)}`)
+        return false
+      }
+      // contradiction 只做标记，可与 merge / rewrite 引用同一条记忆
+      if (action.op !== 'contradiction') ids.forEach(id => used.add(id))
+      return true
+    })
+  }
+
+  /**
+   * merge / rewrite 提交审核，entry 为整理后的记忆（作用域与保留的第一条一致）
+   * @returns 审核队列 ID；contradiction 或原始记忆已不存在时返回 undefined
+   */
+  private stage(action: ConsolidationAction): number | undefined {
+    if (action.op === 'contradiction') return undefined
+
+    const ids = action.op === 'merge' ? action.ids : [action.id]
+    const current = this.memoryDb.getAll()
+    const targets = ids
+      .map(id => current.find(e => e.id === id))
+      .filter((e): e is MemoryEntry => e !== undefined)
+    if (targets.length !== ids.length) return undefined
+
+    const kept = targets[0]!
+    const pending = stageMemoryReview(this.memoryDb, {
+      op: 'consolidate',
+      entry: {
+        source: kept.source,
+        cat: kept.cat,
+        imp: (action.op === 'merge' ? action.imp : undefined) ?? Math.max(...targets.map(t => t.imp)),
+        text: action.text,
+        keywords: action.keywords ?? kept.keywords,
+        user_id: kept.user_id,
+        chat_id: kept.chat_id,
+      },
+      targets: targets.map(t => ({ ...t })),
+      reason: action.reason,
+      origin: 'consolidation',
+    })
+    return pending.id
+  }
+
+  // ==================== 内部方法：状态 ====================
+
+  private loadState(): ConsolidationState {
+    try {
+      if (!fs.existsSync(STATE_PATH)) return {}
+      return JSON.parse(fs.readFileSync(STATE_PATH, 'utf-8')) as ConsolidationState
+    } catch (error) {
+      console.warn('⚠️ 读取记忆整理状态失败，视为首次运行:', error)
+      return {}
+    }
+  }
+
+  private saveState(state: ConsolidationState): void {
+    fs.writeFileSync(STATE_PATH, JSON.stringify(state, null, 2) + '\n', 'utf-8')
+  }
+}
+
+/**
+ * 整理报告文案（发送到管理员会话）
+ */
+export function formatConsolidationReport(report: ConsolidationReport): string {
+  const quote = (id: number) => `「${report.originals[id] ?? '(已不存在)'}」`
+  const lines: string[] = [
+    `🧹 记忆整理报告${report.dryRun ? '（预演，未写入）' : ''} ${new Date(report.runAt).toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })}`,
+    `扫描 ${report.scanned} 条记忆，${report.batches} 个批次，${report.actions.length} 项操作`,
+  ]
+  if (report.failedBatches > 0) {
+    lines.push(`❌ ${report.failedBatches} 个批次调用失败`)
+  }
+
+  for (const { action, pendingId } of report.actions) {
+    const status = report.dryRun || action.op === 'contradiction' ? ''
+      : pendingId !== undefined ? ` 📥 待审核 #${pendingId}` : ' ⏭️ 未提交（记忆已变更）'
+    lines.push('')
+    if (action.op === 'merge') {
+      lines.push(`🔗 合并 ${action.ids.map(id => `#${id}`).join(' ')} → #${action.ids[0]}「${action.text}」${status}`)
+      lines.push(...action.ids.map(id => `   - #${id} ${quote(id)}`))
+    } else if (action.op === 'rewrite') {
+      lines.push(`✏️ 改写 #${action.id} ${quote(action.id)} → 「${action.text}」${status}`)
+    } else {
+      lines.push(`⚠️ 矛盾 ${action.ids.map(id => `#${id}`).join(' ↔ ')}${action.keep !== undefined ? `（建议保留 #${action.keep}）` : ''}`)
+      lines.push(...action.ids.map(id => `   - #${id} ${quote(id)}`))
+    }
+    if (action.reason) lines.push(`   理由: ${action.reason}`)
+  }
+
+  if (report.dryRun && report.actions.some(a => a.action.op !== 'contradiction')) {
+    lines.push('', '将任务配置 dryRun 设为 false 后下次整理时提交审核')
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,263 @@
+/**
+ * MemoryExtractor - 对话后自动提取记忆
+ *
+ * 每轮流式对话完成后，将本轮问答交给轻量模型提取候选记忆（分类 / 重要性 / 关键词 / 置信度）：
+ *   - 配置了 LLM_BASE_URL / LLM_API_KEY / LLM_MODEL 时使用 LlmEngine
+ *   - 否则使用 Claude 结构化输出（MEMORY_EXTRACT_MODEL，默认 haiku），无工具调用并受 BudgetGuard 预算限制
+ *
+ * 候选先经 MemoryDB.checkDuplicate 过滤已有记忆，再按会话的提取模式处理（均经过审核队列，决定记入审核日志）：
+ *   review 全部等待人工审核（默认，见 memory-review.ts）
+ *   auto   置信度 ≥ autoAcceptConfidence 的新记忆入队后立即自动通过（审核人记为 auto），其余等待人工审核；
+ *          会与已有记忆合并（改写其内容）的候选始终需要人工审核
+ *   off    不提取
+ *
+ * 配置路径: data/memory-extraction.json（每次提取时重新读取，修改后无需重启）
+ * {
+ *   "defaultMode": "review",            // 默认模式
+ *   "autoAcceptConfidence": 0.8,        // 自动写入的置信度阈值
+ *   "chats": { "oc_xxx": "review" }     // 指定会话的模式（覆盖默认值）
+ * }
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import z from 'zod'
+import type { ClaudeEngine } from './claude-engine.js'
+import type { BudgetGuard } from './budget-guard.js'
+import { LlmEngine } from './llm-engine.js'
+import { parseStructuredOutput } from './structured-output.js'
+import { stageMemoryReview } from './memory-review.js'
+import type { MemoryDB, MemoryEntry } from '../../memory/memory-db.js'
+import { MEMORY_CONFIG, MEMORY_CATEGORIES, MEMORY_EXTRACT_SYSTEM_PROMPT } from '../../memory/config.js'
+
+const CONFIG_PATH = path.join('data', 'memory-extraction.json')
+
+// ==================== 类型定义 ====================
+
+export type ExtractionMode = 'auto' | 'review' | 'off'
+
+export const EXTRACTION_MODES: ExtractionMode[] = ['auto', 'review', 'off']
+
+export interface ExtractionConfig {
+  defaultMode?: ExtractionMode
+  autoAcceptConfidence?: number
+  chats?: Record<string, ExtractionMode>
+}
+
+/** 一轮已完成的问答 */
+export interface ExtractionTurn {
+  sessionId: string
+  userMessage: string
+  assistantMessage: string
+  userId?: string
+  chatId?: string
+}
+
+export interface ExtractionResult {
+  mode: ExtractionMode
+  /** 自动通过审核并写入的条数 */
+  accepted: number
+  /** 进入待确认队列的条数 */
+  staged: number
+  /** 与已有记忆 / 待确认候选重复而丢弃的条数 */
+  skipped: number
+}
+
+const candidateSchema = z.object({
+  memories: z.array(z.object({
+    text: z.string().min(1),
+    cat: z.enum(MEMORY_CATEGORIES),
+    imp: z.number().int().min(1).max(5),
+    keywords: z.string().default(''),
+    scope: z.enum(['user', 'chat', 'global']).default('user'),
+    confidence: z.number().min(0).max(1),
+    reason: z.string().default(''),
+  })),
+})
+
+type Candidate = z.infer<typeof candidateSchema>['memories'][number]
+
+// ==================== MemoryExtractor 类 ====================
+
+export class MemoryExtractor {
+  private memoryDb: MemoryDB
+  private claudeEngine: ClaudeEngine
+  private budgetGuard: BudgetGuard
+  private llmEngine: LlmEngine | null = null
+
+  constructor(memoryDb: MemoryDB, claudeEngine: ClaudeEngine, budgetGuard: BudgetGuard) {
+    this.memoryDb = memoryDb
+    this.claudeEngine = claudeEngine
+    this.budgetGuard = budgetGuard
+  }
+
+  /**
+   * 会话当前的提取模式
+   */
+  getMode(chatId?: string): ExtractionMode {
+    const config = this.loadConfig()
+    return (chatId && config.chats?.[chatId]) || config.defaultMode || 'review'
+  }
+
+  /**
+   * 设置会话的提取模式（写回配置文件）
+   */
+  setMode(chatId: string, mode: ExtractionMode): void {
+    const config = this.loadConfig()
+    config.chats = { ...config.chats, [chatId]: mode }
+    fs.mkdirSync(path.dirname(CONFIG_PATH), { recursive: true })
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2) + '\n', 'utf-8')
+  }
+
+  /**
+   * 从一轮问答中提取记忆
+   */
+  async extract(turn: ExtractionTurn): Promise<ExtractionResult> {
+    const mode = this.getMode(turn.chatId)
+    const result: ExtractionResult = { mode, accepted: 0, staged: 0, skipped: 0 }
+    if (mode === 'off' || !turn.userMessage.trim() || !turn.assistantMessage.trim()) {
+      return result
+    }
+
+    const threshold = this.loadConfig().autoAcceptConfidence ?? MEMORY_CONFIG.EXTRACTION.AUTO_ACCEPT_CONFIDENCE
+    const candidates = await this.proposeCandidates(turn)
+
+    for (const candidate of candidates) {
+      const entry = this.toEntry(candidate, turn)
+      const duplicate = this.memoryDb.checkDuplicate(entry)
+      if (duplicate.action === 'skip' || this.isPending(entry)) {
+        result.skipped++
+        continue
+      }
+
+      const item = {
+        op: 'insert' as const,
+        entry,
+        confidence: candidate.confidence,
+        reason: candidate.reason,
+        origin: 'extraction' as const,
+        session_id: turn.sessionId,
+        duplicate_of: duplicate.existingId,
+      }
+
+      // 合并会改写已有记忆的内容，必须人工审核
+      if (mode === 'auto' && candidate.confidence >= threshold && duplicate.action === 'add') {
+        const pending = this.memoryDb.stagePending(item)
+        this.memoryDb.acceptPending(pending.id, 'extraction', {}, 'auto')
+        result.accepted++
+      } else {
+        stageMemoryReview(this.memoryDb, item)
+        result.staged++
+      }
+    }
+
+    if (result.accepted > 0) {
+      this.memoryDb.compact()
+    }
+    if (candidates.length > 0) {
+      console.log(`🧠 记忆自动提取 [session=${turn.sessionId}, mode=${mode}]: 写入 ${result.accepted}，待确认 ${result.staged}，重复 ${result.skipped}`)
+    }
+    return result
+  }
+
+  // ==================== 内部方法 ====================
+
+  /**
+   * 调用提取模型，返回候选记忆（最多 MAX_CANDIDATES 条）
+   */
+  private async proposeCandidates(turn: ExtractionTurn): Promise<Candidate[]> {
+    const prompt = await this.buildPrompt(turn)
+    const llmEngine = this.getLlmEngine()
+
+    let parsed: unknown
+    if (llmEngine) {
+      const output = await llmEngine.executeOnceLLMQuery(MEMORY_EXTRACT_SYSTEM_PROMPT, prompt, { json_format: true })
+      const result = parseStructuredOutput(output, candidateSchema)
+      if (!result.success) {
+        throw new Error(`提取结果校验失败: ${result.error}`)
+      }
+      parsed = result.data
+    } else {
+      // 输入是不可信的对话内容：无工具调用，费用计入发信会话的预算
+      const context = { userId: turn.userId, chatId: turn.chatId }
+      const budget = await this.budgetGuard.enforce(context)
+      const response = await this.claudeEngine.sendMessage(prompt, MEMORY_EXTRACT_SYSTEM_PROMPT, undefined, {
+        ...context,
+        model: MEMORY_CONFIG.EXTRACTION.MODEL,
+        outputSchema: candidateSchema,
+        maxOutputRetries: 1,
+        maxBudgetUsd: budget.remainingUsd,
+        toolFree: true,
+      })
+      parsed = response.parsed
+    }
+
+    const { memories } = parsed as z.infer<typeof candidateSchema>
+    return memories.slice(0, MEMORY_CONFIG.EXTRACTION.MAX_CANDIDATES)
+  }
+
+  private async buildPrompt(turn: ExtractionTurn): Promise<string> {
+    const { MAX_MESSAGE_CHARS, MAX_CANDIDATES } = MEMORY_CONFIG.EXTRACTION
+    const related = await this.memoryDb.search(turn.userMessage, 10, 'hybrid', { userId: turn.userId, chatId: turn.chatId })
+    const existing = related.length > 0
+      ? related.map(m => `- [${m.cat}] ${m.text}`).join('\n')
+      : '（无）'
+
+    return `【已有记忆】
+${existing}
+
+【本轮对话】
+用户: ${turn.userMessage.slice(0, MAX_MESSAGE_CHARS)}
+
+助手: ${turn.assistantMessage.slice(0, MAX_MESSAGE_CHARS)}
+
+最多提取 ${MAX_CANDIDATES} 条，输出 {"memories": [...]}。`
+  }
+
+  /**
+   * 候选 → 记忆条目；作用域对应的发信人 / 会话缺失时退化为全局
+   */
+  private toEntry(candidate: Candidate, turn: ExtractionTurn): Omit<MemoryEntry, 'id' | 'created_at' | 'updated_at'> {
+    return {
+      source: 'USER',
+      cat: candidate.cat,
+      imp: candidate.imp,
+      text: candidate.text,
+      keywords: candidate.keywords,
+      user_id: candidate.scope === 'user' ? turn.userId : undefined,
+      chat_id: candidate.scope === 'chat' ? turn.chatId : undefined,
+    }
+  }
+
+  /**
+   * 同一作用域下已有相同内容的待确认候选
+   */
+  private isPending(entry: Pick<MemoryEntry, 'text' | 'user_id' | 'chat_id'>): boolean {
+    return this.memoryDb.listPending().some(p =>
+      p.op === 'insert'
+      && p.entry?.text === entry.text
+      && p.entry.user_id === entry.user_id
+      && p.entry.chat_id === entry.chat_id,
+    )
+  }
+
+  /**
+   * 配置了 LLM_* 环境变量时使用 LlmEngine，否则返回 null
+   */
+  private getLlmEngine(): LlmEngine | null {
+    if (!this.llmEngine && process.env.LLM_BASE_URL && process.env.LLM_API_KEY && process.env.LLM_MODEL) {
+      this.llmEngine = new LlmEngine()
+    }
+    return this.llmEngine
+  }
+
+  private loadConfig(): ExtractionConfig {
+    try {
+      if (!fs.existsSync(CONFIG_PATH)) return {}
+      return JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8')) as ExtractionConfig
+    } catch (error) {
+      console.warn('⚠️ 读取 memory-extraction.json 失败，使用默认配置:', error)
+      return {}
+    }
+  }
+}
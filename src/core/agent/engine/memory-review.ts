@@ -0,0 +1,31 @@
+/**
+ * MemoryReview - 记忆审核收件箱
+ *
+ * 需要人工审核的自动提取记忆、delete_memory 删除请求、定期整理的合并 / 改写先进入 MemoryDB 审核队列，
+ * 同时向 FEISHU_MEMORY_REVIEW_CHAT_ID 发送带「通过 / 修改后通过 / 拒绝」按钮的交互卡片，
+ * 按钮回调由 FeishuAgentBridge 处理并写回 MemoryDB。
+ *
+ * 未配置审核会话或飞书未连接时只入队，仍可通过 REST（/api/memory/v2/pending）或 CLI 审核。
+ */
+
+import type { MemoryDB } from '../../memory/memory-db.js'
+import type { PendingMemory } from '../../memory/memory-pending.js'
+import { getDefaultFeishuAgentBridge } from '../../../services/feishu/feishu-agent-bridge.js'
+
+/**
+ * 入队并通知审核人（通知失败只打日志，不影响入队）
+ */
+export function stageMemoryReview(memoryDb: MemoryDB, item: Omit<PendingMemory, 'id' | 'proposed_at'>): PendingMemory {
+  const pending = memoryDb.stagePending(item)
+  notifyReviewer(pending).catch(error => {
+    console.error(`❌ 发送记忆审核卡片失败 [pending=${pending.id}]:`, error)
+  })
+  return pending
+}
+
+async function notifyReviewer(pending: PendingMemory): Promise<void> {
+  const chatId = process.env.FEISHU_MEMORY_REVIEW_CHAT_ID
+  const bridge = getDefaultFeishuAgentBridge()
+  if (!chatId || !bridge?.isBridgeConnected()) return
+  await bridge.sendMemoryReviewCard(chatId, pending)
+}
@@ -0,0 +1,78 @@
+/**
+ * ModelRouter - 模型路由与回退链
+ *
+ * 模型来源优先级（由调用方按顺序传入 preferred）：
+ *   单次请求 model（POST /api/agent/sessions/:id/messages）
+ *   > 会话模型（飞书 /model 指令，持久化到会话元数据）
+ *   > 定时任务模型（AgentPromptConfig.model）
+ *   > 默认模型（CLAUDE_MODEL）
+ *
+ * 回退链：CLAUDE_FALLBACK_MODELS（逗号分隔）。主模型过载 / 限流且尚未产生输出时，
+ * 依次切换到回退链中的下一个模型。
+ */
+
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk'
+
+/** 可触发模型回退的 SDK 错误类型（429 限流 / 5xx 过载） */
+const FALLBACK_ERRORS = new Set(['rate_limit', 'server_error'])
+
+/** 抛出的异常中可识别为过载 / 限流的特征 */
+const FALLBACK_ERROR_PATTERN = /overloaded|rate[ _-]?limit|\b429\b|\b529\b/i
+
+/** 模型名合法字符（含 Bedrock / Vertex 风格的 ID） */
+const MODEL_NAME_PATTERN = /^[\w.:@/\-[\]]+$/
+
+export class ModelRouter {
+  private defaultModel: string
+
+  constructor(defaultModel: string = process.env.CLAUDE_MODEL || '') {
+    this.defaultModel = defaultModel
+  }
+
+  getDefaultModel(): string {
+    return this.defaultModel
+  }
+
+  getFallbackModels(): string[] {
+    return (process.env.CLAUDE_FALLBACK_MODELS || '')
+      .split(',')
+      .map(m => m.trim())
+      .filter(Boolean)
+  }
+
+  /**
+   * 解析本轮的模型尝试顺序：首选模型（缺省为默认模型）+ 回退链（去重）
+   * 返回空字符串表示使用 SDK 默认模型
+   */
+  resolveChain(preferred?: string): string[] {
+    const primary = preferred || this.defaultModel
+    const chain = [primary, ...this.getFallbackModels()]
+    return chain.filter((model, index) => chain.indexOf(model) === index)
+  }
+
+  static isValidModelName(model: string): boolean {
+    return MODEL_NAME_PATTERN.test(model)
+  }
+
+  /**
+   * SDK 消息是否表示主模型不可用（过载 / 限流）
+   */
+  static isUnavailableMessage(message: SDKMessage): boolean {
+    if (message.type === 'assistant') {
+      return !!message.error && FALLBACK_ERRORS.has(message.error)
+    }
+    if (message.type === 'result' && message.is_error) {
+      const text = message.subtype === 'success' ? message.result : message.errors.join('\n')
+      return FALLBACK_ERROR_PATTERN.test(text)
+    }
+    return false
+  }
+
+  /**
+   * 抛出的异常是否表示主模型不可用（过载 / 限流）
+   */
+  static isUnavailableError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error)
+    return FALLBACK_ERROR_PATTERN.test(message)
+  }
+}
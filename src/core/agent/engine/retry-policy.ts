@@ -0,0 +1,129 @@
+/**
+ * RetryPolicy - SDK / API 瞬时故障的重试策略
+ *
+ * 错误分类：
+ *   - retryable: 过载（529 / overloaded）、限流（429）、5xx、网络抖动（ECONNRESET / 超时等）
+ *   - fatal:     鉴权 / 计费 / 参数错误、用户中断、预算超额，以及其他无法识别的错误
+ * 优先按异常的 status（HTTP 状态码）/ code（网络错误码）字段判断；只有文本时仅匹配 API 错误的固定格式
+ * （"API Error: 529 …"、错误体中的 "type":"overloaded_error" 等），不匹配正文中任意出现的 network / timeout
+ *
+ * 退避：指数退避 + full jitter，delay = random(0, min(maxDelay, baseDelay * 2^attempt))
+ */
+
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk'
+import { BudgetExceededError } from './budget-guard'
+
+export const RETRY_CONFIG = {
+  /** 最大重试次数（不含首次） */
+  MAX_RETRIES: 3,
+  /** 基础退避时间（ms） */
+  BASE_DELAY_MS: 1000,
+  /** 单次退避上限（ms） */
+  MAX_DELAY_MS: 20000,
+} as const
+
+export type ErrorClass = 'retryable' | 'fatal'
+
+/** SDK 以消息形式报告的可重试错误类型 */
+const RETRYABLE_SDK_ERRORS = new Set(['rate_limit', 'server_error'])
+
+/** 可重试的 HTTP 状态码：限流、服务端错误、过载 */
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504, 529])
+
+/** 可重试的 Node 网络错误码 */
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'])
+
+/** 行首的 API 错误格式：状态码、SDK 的超时 / 连接错误文案、网络错误码；或错误体中可重试的 error.type */
+const RETRYABLE_PATTERN = new RegExp([
+  '^(?:api error:?\\s*)?(?:(?:408|429|500|502|503|504|529)\\b|overloaded\\b|rate limited\\b|too many requests\\b|request timed out\\b|connection error\\b|socket hang up\\b)',
+  '^(?:api error:?\\s*)?(?:(?:read|connect|getaddrinfo)\\s+)?(?:ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN)\\b',
+  '"type"\\s*:\\s*"(?:overloaded_error|rate_limit_error|api_error)"',
+].join('|'), 'im')
+
+/** 行首的 4xx 状态码，或错误体中不可重试的 error.type */
+const FATAL_PATTERN = /^(?:api error:?\s*)?(?:400|401|403|404)\b|"type"\s*:\s*"(?:authentication_error|permission_error|invalid_request_error|not_found_error|billing_error)"/im
+
+/**
+ * SDK 通过 assistant / result 消息（而非异常）报告的瞬时故障
+ * 由 ClaudeEngine 抛出，交给重试逻辑按可重试错误处理
+ */
+export class TransientQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TransientQueryError'
+  }
+}
+
+/**
+ * 对异常进行分类
+ */
+export function classifyError(error: unknown): ErrorClass {
+  if (error instanceof TransientQueryError) return 'retryable'
+  if (error instanceof BudgetExceededError) return 'fatal'
+  if (error instanceof Error && error.name === 'AbortError') return 'fatal'
+
+  const { status, code } = readErrorFields(error)
+  if (status !== undefined) return RETRYABLE_STATUS.has(status) ? 'retryable' : 'fatal'
+  if (code !== undefined && RETRYABLE_CODES.has(code)) return 'retryable'
+
+  const message = error instanceof Error ? error.message : String(error)
+  return isRetryableText(message) ? 'retryable' : 'fatal'
+}
+
+/**
+ * SDK 消息是否报告了可重试的瞬时故障，是则返回错误描述
+ */
+export function detectTransientFailure(message: SDKMessage): string | null {
+  if (message.type === 'assistant' && message.error && RETRYABLE_SDK_ERRORS.has(message.error)) {
+    return `API error: ${message.error}`
+  }
+  if (message.type === 'result' && message.is_error) {
+    const text = message.subtype === 'success' ? message.result : message.errors.join('\n')
+    if (isRetryableText(text)) {
+      return text.slice(0, 200)
+    }
+  }
+  return null
+}
+
+/**
+ * 错误文本是否符合可重试的 API 错误格式
+ */
+function isRetryableText(text: string): boolean {
+  return RETRYABLE_PATTERN.test(text) && !FATAL_PATTERN.test(text)
+}
+
+/**
+ * 读取异常上的 HTTP 状态码与网络错误码（网络错误码可能在 cause 上）
+ */
+function readErrorFields(error: unknown): { status?: number; code?: string } {
+  if (typeof error !== 'object' || error === null) return {}
+  const { status, code, cause } = error as { status?: unknown; code?: unknown; cause?: { code?: unknown } }
+  const causeCode = typeof cause === 'object' && cause !== null ? cause.code : undefined
+  return {
+    status: typeof status === 'number' ? status : undefined,
+    code: typeof code === 'string' ? code : typeof causeCode === 'string' ? causeCode : undefined,
+  }
+}
+
+/**
+ * 第 attempt 次重试（从 0 开始）前的退避时间
+ */
+export function computeBackoffDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_CONFIG.MAX_DELAY_MS, RETRY_CONFIG.BASE_DELAY_MS * 2 ** attempt)
+  return Math.round(Math.random() * ceiling)
+}
+
+/**
+ * 可被 AbortSignal 提前结束的等待
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve()
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
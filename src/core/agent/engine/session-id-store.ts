@@ -6,12 +6,16 @@
  * 本模块负责持久化存储该映射，使进程重启后仍可恢复会话。
  *
  * 存储路径: data/sdk-session-map.json
+ *
+ * 同时记录会话分叉（fork）的 parent → child 血缘关系，
+ * 独立存储于 data/session-lineage.json（/new 重置会话不影响血缘记录）。
  */
 
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 
 const STORE_PATH = path.join('data', 'sdk-session-map.json')
+const LINEAGE_PATH = path.join('data', 'session-lineage.json')
 
 interface SessionMapEntry {
   /** SDK 分配的 session_id（用于 resume） */
@@ -20,11 +24,44 @@ interface SessionMapEntry {
   updatedAt: string
 }
 
+/** 分叉记录（key 为子会话 ID） */
+export interface SessionForkRecord {
+  /** 父会话 ID */
+  parentSessionId: string
+  /** 分叉点：保留到父会话的第几轮（从 0 开始，含） */
+  turnIndex: number
+  /** 分叉时间 */
+  forkedAt: string
+}
+
+/** 会话血缘查询结果 */
+export interface SessionLineage {
+  sessionId: string
+  /** 直接父会话（非分叉会话为 null） */
+  parent: (SessionForkRecord & { sessionId: string }) | null
+  /** 祖先链，从直接父会话到根会话 */
+  ancestors: string[]
+  /** 直接子会话 */
+  children: Array<SessionForkRecord & { sessionId: string }>
+}
+
+/**
+ * 会话无法分叉：没有对话历史（no_history）或分叉点超出历史轮数（invalid_turn）
+ */
+export class SessionForkError extends Error {
+  constructor(message: string, public readonly reason: 'no_history' | 'invalid_turn') {
+    super(message)
+    this.name = 'SessionForkError'
+  }
+}
+
 export class SessionIdStore {
   private map: Record<string, SessionMapEntry> = {}
+  private lineage: Record<string, SessionForkRecord> = {}
 
   constructor() {
     this.load()
+    this.loadLineage()
   }
 
   /** 获取 SDK session_id */
@@ -74,6 +111,49 @@ export class SessionIdStore {
     return cleaned
   }
 
+  // ==================== 分叉血缘 ====================
+
+  /** 记录一次分叉 */
+  recordFork(parentSessionId: string, childSessionId: string, turnIndex: number): void {
+    this.lineage[childSessionId] = {
+      parentSessionId,
+      turnIndex,
+      forkedAt: new Date().toISOString(),
+    }
+    this.persistLineage()
+  }
+
+  /** 获取分叉记录（非分叉会话返回 undefined） */
+  getForkRecord(sessionId: string): SessionForkRecord | undefined {
+    return this.lineage[sessionId]
+  }
+
+  /** 查询会话血缘：父会话、祖先链、直接子会话 */
+  getLineage(sessionId: string): SessionLineage {
+    const record = this.lineage[sessionId]
+
+    const ancestors: string[] = []
+    const visited = new Set<string>([sessionId])
+    let current = record?.parentSessionId
+    while (current && !visited.has(current)) {
+      ancestors.push(current)
+      visited.add(current)
+      current = this.lineage[current]?.parentSessionId
+    }
+
+    const children = Object.entries(this.lineage)
+      .filter(([, r]) => r.parentSessionId === sessionId)
+      .map(([childId, r]) => ({ sessionId: childId, ...r }))
+      .sort((a, b) => a.forkedAt.localeCompare(b.forkedAt))
+
+    return {
+      sessionId,
+      parent: record ? { sessionId: record.parentSessionId, ...record } : null,
+      ancestors,
+      children,
+    }
+  }
+
   // ==================== 内部方法 ====================
 
   private load(): void {
@@ -100,4 +180,27 @@ export class SessionIdStore {
       console.error('❌ 持久化 SDK session 映射失败:', error)
     }
   }
+
+  private loadLineage(): void {
+    try {
+      if (fs.existsSync(LINEAGE_PATH)) {
+        this.lineage = JSON.parse(fs.readFileSync(LINEAGE_PATH, 'utf-8'))
+      }
+    } catch (error) {
+      console.warn('⚠️ 加载会话血缘失败，使用空记录:', error)
+      this.lineage = {}
+    }
+  }
+
+  private persistLineage(): void {
+    try {
+      const dir = path.dirname(LINEAGE_PATH)
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true })
+      }
+      fs.writeFileSync(LINEAGE_PATH, JSON.stringify(this.lineage, null, 2), 'utf-8')
+    } catch (error) {
+      console.error('❌ 持久化会话血缘失败:', error)
+    }
+  }
 }
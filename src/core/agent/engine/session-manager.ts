@@ -1,5 +1,8 @@
 /**
- * SessionManager V5.0 - Resume 模式会话管理
+ * SessionManager V5.1 - Resume 模式会话管理 + 元数据持久化
+ *
+ * V5.1: SessionState 写入 data/sessions/{id}/session.json，
+ *   getSession() 在内存未命中时懒加载恢复，进程重启后会话仍可查询
  *
  * 改造说明：
  *   V4.x: 调用 ContextBuilder.build() 手动拼装上下文（裁剪/压缩/摘要/图片替换）
@@ -14,9 +17,14 @@
  *   - SystemPromptBuilder 改为直接暴露，由 AgentEngine 调用
  */
 
+import * as fs from 'node:fs'
+import * as path from 'node:path'
 import type { SessionConfig, SessionState } from '../types/agent.js'
 import { ConversationStore } from '../../memory/conversation-store.js'
 import { estimateTokens } from '../../memory/config.js'
+import { getSessionMetaPath } from '../../../utils/paths.js'
+import { SessionMetaStore } from './session-meta-store.js'
+import type { SessionIdStore } from './session-id-store.js'
 
 // 简化消息类型
 type SimpleMessage = {
@@ -27,11 +35,15 @@ type SimpleMessage = {
 export class SessionManager {
   private sessions: Map<string, SessionState>
   private conversationStore: ConversationStore
+  private metaStore: SessionMetaStore
+  private sessionIdStore?: SessionIdStore
 
-  constructor(conversationStore: ConversationStore) {
+  constructor(conversationStore: ConversationStore, sessionIdStore?: SessionIdStore) {
     this.sessions = new Map()
     this.conversationStore = conversationStore
-    console.log('📋 SessionManager V5.0 初始化完成（Resume 模式）')
+    this.metaStore = new SessionMetaStore()
+    this.sessionIdStore = sessionIdStore
+    console.log('📋 SessionManager V5.1 初始化完成（Resume 模式 + 元数据持久化）')
   }
 
   /**
@@ -39,39 +51,65 @@ export class SessionManager {
    */
   createSession(config: SessionConfig): SessionState {
     const now = new Date()
+
+    // 检查 ConversationStore 中是否已有历史（如分叉复制的历史），计入消息统计
+    const existingHistory = this.conversationStore.loadSync(config.sessionId)
+    if (existingHistory.length > 0) {
+      console.log(`💾 会话 ${config.sessionId} 发现 ${existingHistory.length} 条本地历史记录`)
+    }
+
     const session: SessionState = {
       sessionId: config.sessionId,
       userId: config.userId,
       messages: [],
       createdAt: now,
       updatedAt: now,
-      contextLength: 0,
+      contextLength: existingHistory.reduce((sum, e) => sum + (e.token_est || 0), 0),
+      userMessageCount: existingHistory.filter(e => e.role === 'user').length,
+      assistantMessageCount: existingHistory.filter(e => e.role === 'assistant').length,
+      resumeSessionId: this.sessionIdStore?.get(config.sessionId),
+      feishu: config.feishu,
     }
 
     this.sessions.set(config.sessionId, session)
-
-    // 检查 ConversationStore 中是否已有历史（用于日志提示）
-    const existingHistory = this.conversationStore.loadSync(config.sessionId)
-    if (existingHistory.length > 0) {
-      console.log(`💾 会话 ${config.sessionId} 发现 ${existingHistory.length} 条本地历史记录`)
-    }
+    this.metaStore.save(session)
 
     console.log(`✅ 会话创建成功: ${config.sessionId}`)
     return session
   }
 
   /**
-   * 获取会话
+   * 获取会话（内存未命中时从 session.json 懒加载）
    */
   getSession(sessionId: string): SessionState | null {
-    return this.sessions.get(sessionId) || null
+    const cached = this.sessions.get(sessionId)
+    if (cached) return cached
+
+    const restored = this.metaStore.load(sessionId) ?? this.restoreFromHistory(sessionId)
+    if (!restored) return null
+
+    // resume id 以 SessionIdStore 为准（SDK 每轮可能更新）
+    restored.resumeSessionId = this.sessionIdStore?.get(sessionId) ?? restored.resumeSessionId
+    this.sessions.set(sessionId, restored)
+    console.log(`♻️ 会话已从磁盘恢复: ${sessionId}`)
+    return restored
   }
 
   /**
-   * 删除会话
+   * 删除会话（内存 + 元数据文件）
    */
   deleteSession(sessionId: string): boolean {
-    return this.sessions.delete(sessionId)
+    const inMemory = this.sessions.delete(sessionId)
+    const persisted = this.metaStore.load(sessionId) !== null
+    this.metaStore.delete(sessionId)
+    return inMemory || persisted
+  }
+
+  /**
+   * 列出所有已持久化的会话元数据（含未加载到内存的）
+   */
+  listPersistedSessions(): SessionState[] {
+    return this.metaStore.listAll()
   }
 
   /**
@@ -82,7 +120,7 @@ export class SessionManager {
    *   不再作为下一轮对话上下文的来源。上下文由 SDK resume 机制自动管理。
    */
   addMessage(sessionId: string, message: SimpleMessage): void {
-    const session = this.sessions.get(sessionId)
+    const session = this.getSession(sessionId)
     if (!session) {
       throw new Error(`会话不存在: ${sessionId}`)
     }
@@ -94,9 +132,28 @@ export class SessionManager {
     // 持久化到 ConversationStore（JSONL 文件 → 辅助用途）
     this.conversationStore.append(sessionId, role, content)
 
-    // 更新内存中的会话状态
+    // 更新会话状态并持久化
     session.updatedAt = new Date()
     session.contextLength += estimateTokens(content)
+    if (role === 'user') session.userMessageCount++
+    if (role === 'assistant') session.assistantMessageCount++
+    session.resumeSessionId = this.sessionIdStore?.get(sessionId) ?? session.resumeSessionId
+    this.metaStore.save(session)
+  }
+
+  /**
+   * 设置会话级模型（undefined 恢复默认模型）并持久化
+   */
+  setModel(sessionId: string, model?: string): SessionState {
+    const session = this.getSession(sessionId)
+    if (!session) {
+      throw new Error(`会话不存在: ${sessionId}`)
+    }
+
+    session.model = model
+    session.updatedAt = new Date()
+    this.metaStore.save(session)
+    return session
   }
 
   /**
@@ -114,7 +171,7 @@ export class SessionManager {
    * 清空会话消息
    */
   clearMessages(sessionId: string): void {
-    const session = this.sessions.get(sessionId)
+    const session = this.getSession(sessionId)
     if (!session) {
       throw new Error(`会话不存在: ${sessionId}`)
     }
@@ -122,7 +179,10 @@ export class SessionManager {
     this.conversationStore.deleteSession(sessionId)
     session.messages = []
     session.contextLength = 0
+    session.userMessageCount = 0
+    session.assistantMessageCount = 0
     session.updatedAt = new Date()
+    this.metaStore.save(session)
     console.log(`🗑️ 会话 ${sessionId} 对话已清空`)
   }
 
@@ -193,6 +253,29 @@ export class SessionManager {
 
   // ==================== 内部方法 ====================
 
+  /**
+   * 兼容旧数据：没有 session.json 但有 history.jsonl 的会话，从对话历史重建元数据
+   */
+  private restoreFromHistory(sessionId: string): SessionState | null {
+    // 先检查目录，避免 loadSync 为不存在的会话创建空目录
+    if (!fs.existsSync(path.dirname(getSessionMetaPath(sessionId)))) return null
+
+    const history = this.conversationStore.loadSync(sessionId)
+    if (history.length === 0) return null
+
+    const session: SessionState = {
+      sessionId,
+      messages: [],
+      createdAt: new Date(history[0]!.ts),
+      updatedAt: new Date(history[history.length - 1]!.ts),
+      contextLength: history.reduce((sum, e) => sum + (e.token_est || 0), 0),
+      userMessageCount: history.filter(e => e.role === 'user').length,
+      assistantMessageCount: history.filter(e => e.role === 'assistant').length,
+    }
+    this.metaStore.save(session)
+    return session
+  }
+
   private extractTextContent(content: string | any[]): string {
     if (typeof content === 'string') return content
     if (Array.isArray(content)) {
@@ -0,0 +1,99 @@
+/**
+ * SessionMetaStore - SessionState 元数据持久化
+ *
+ * SessionManager 在内存中维护 SessionState，进程重启（/restart）后会丢失。
+ * 本模块把会话元数据写入 data/sessions/{sessionId}/session.json，
+ * 供 SessionManager.getSession() 懒加载恢复、FeishuAgentBridge 恢复 chat → session 映射。
+ *
+ * 不持久化 messages：对话内容以 ConversationStore（history.jsonl）为准。
+ */
+
+import * as fs from 'node:fs'
+import { getSessionDir, getSessionMetaPath, listAllSessionIds } from '../../../utils/paths.js'
+import type { FeishuSessionOrigin, SessionState } from '../types/agent.js'
+
+interface PersistedSessionMeta {
+  sessionId: string
+  userId?: string
+  createdAt: string
+  updatedAt: string
+  contextLength: number
+  userMessageCount: number
+  assistantMessageCount: number
+  resumeSessionId?: string
+  feishu?: FeishuSessionOrigin
+  model?: string
+}
+
+export class SessionMetaStore {
+  /** 读取会话元数据，不存在或损坏时返回 null */
+  load(sessionId: string): SessionState | null {
+    return this.readFile(getSessionMetaPath(sessionId))
+  }
+
+  /** 写入会话元数据 */
+  save(session: SessionState): void {
+    const meta: PersistedSessionMeta = {
+      sessionId: session.sessionId,
+      userId: session.userId,
+      createdAt: session.createdAt.toISOString(),
+      updatedAt: session.updatedAt.toISOString(),
+      contextLength: session.contextLength,
+      userMessageCount: session.userMessageCount,
+      assistantMessageCount: session.assistantMessageCount,
+      resumeSessionId: session.resumeSessionId,
+      feishu: session.feishu,
+      model: session.model,
+    }
+
+    try {
+      getSessionDir(session.sessionId)
+      fs.writeFileSync(getSessionMetaPath(session.sessionId), JSON.stringify(meta, null, 2), 'utf-8')
+    } catch (error) {
+      console.error(`❌ 持久化会话元数据失败: ${session.sessionId}`, error)
+    }
+  }
+
+  /** 删除会话元数据 */
+  delete(sessionId: string): void {
+    const filePath = getSessionMetaPath(sessionId)
+    if (fs.existsSync(filePath)) {
+      fs.rmSync(filePath, { force: true })
+    }
+  }
+
+  /** 列出所有已持久化的会话 */
+  listAll(): SessionState[] {
+    const sessions: SessionState[] = []
+    for (const dirName of listAllSessionIds()) {
+      const session = this.readFile(getSessionMetaPath(dirName))
+      if (session) sessions.push(session)
+    }
+    return sessions
+  }
+
+  // ==================== 内部方法 ====================
+
+  private readFile(filePath: string): SessionState | null {
+    try {
+      if (!fs.existsSync(filePath)) return null
+      const meta = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as PersistedSessionMeta
+      return {
+        sessionId: meta.sessionId,
+        userId: meta.userId,
+        messages: [],
+        createdAt: new Date(meta.createdAt),
+        updatedAt: new Date(meta.updatedAt),
+        contextLength: meta.contextLength || 0,
+        userMessageCount: meta.userMessageCount || 0,
+        assistantMessageCount: meta.assistantMessageCount || 0,
+        resumeSessionId: meta.resumeSessionId,
+        feishu: meta.feishu,
+        model: meta.model,
+      }
+    } catch (error) {
+      console.warn(`⚠️ 读取会话元数据失败: ${filePath}`, error)
+      return null
+    }
+  }
+}
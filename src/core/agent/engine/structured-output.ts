@@ -0,0 +1,136 @@
+/**
+ * StructuredOutput - 结构化输出（JSON Schema / zod 校验）
+ *
+ * 调用方传入 JSON Schema（HTTP 接口）或 zod schema（内部调用）后：
+ *   1. 在 prompt 末尾追加输出格式要求（附 JSON Schema）
+ *   2. 从最终回复中提取 JSON 并用 zod 校验
+ *   3. 校验失败时携带错误信息重新提示模型，最多 maxOutputRetries 次
+ */
+
+import z from 'zod'
+
+export const STRUCTURED_OUTPUT_CONFIG = {
+  /** 校验失败后的默认重新提示次数 */
+  MAX_RETRIES: 2,
+  /** 重新提示时回显的上次输出最大长度 */
+  MAX_ECHO_CHARS: 2000,
+} as const
+
+/** JSON Schema 对象或 zod schema */
+export type OutputSchema = z.ZodType | Record<string, unknown>
+
+export interface ResolvedOutputSchema {
+  jsonSchema: Record<string, unknown>
+  validator: z.ZodType
+}
+
+export type StructuredParseResult =
+  | { success: true; data: unknown }
+  | { success: false; error: string }
+
+/**
+ * 结构化输出在重试次数内仍未通过校验
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    /** 最后一次模型输出（原文） */
+    public readonly lastOutput: string,
+  ) {
+    super(message)
+    this.name = 'StructuredOutputError'
+  }
+}
+
+/**
+ * 统一为 JSON Schema（用于提示）+ zod validator（用于校验）
+ * JSON Schema 无法转换时抛出异常，HTTP 接口据此返回 400
+ */
+export function resolveOutputSchema(schema: OutputSchema): ResolvedOutputSchema {
+  if (schema instanceof z.ZodType) {
+    return {
+      jsonSchema: z.toJSONSchema(schema) as Record<string, unknown>,
+      validator: schema,
+    }
+  }
+  return {
+    jsonSchema: schema,
+    validator: z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]),
+  }
+}
+
+/**
+ * 在用户消息后追加输出格式要求
+ */
+export function buildStructuredPrompt(message: string, jsonSchema: Record<string, unknown>): string {
+  return `${message}
+
+[输出格式要求]
+只输出一个符合以下 JSON Schema 的 JSON 值，不要包含解释文字或 Markdown 代码块：
+${JSON.stringify(jsonSchema, null, 2)}`
+}
+
+/**
+ * 校验失败后的重新提示
+ * @param original - 无会话续接（一次性调用）时需要重新携带原始请求与上次输出
+ */
+export function buildCorrectionPrompt(
+  error: string,
+  original?: { prompt: string; lastOutput: string },
+): string {
+  const correction = `[输出校验失败]
+上一次输出不符合要求的 JSON Schema：
+${error}
+
+请修正后重新输出完整的 JSON，不要包含解释文字或 Markdown 代码块。`
+
+  if (!original) return correction
+
+  return `${original.prompt}
+
+[上一次输出]
+${original.lastOutput.slice(0, STRUCTURED_OUTPUT_CONFIG.MAX_ECHO_CHARS)}
+
+${correction}`
+}
+
+/**
+ * 从模型回复中提取 JSON 并校验
+ * 兼容 ```json 代码块包裹、前后夹带说明文字的情况
+ */
+export function parseStructuredOutput(text: string, validator: z.ZodType): StructuredParseResult {
+  const json = extractJson(text)
+  if (json === undefined) {
+    return { success: false, error: '输出中未找到合法的 JSON' }
+  }
+
+  const result = validator.safeParse(json)
+  if (!result.success) {
+    return { success: false, error: z.prettifyError(result.error) }
+  }
+  return { success: true, data: result.data }
+}
+
+// ==================== 工具函数 ====================
+
+function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)
+  const candidates = [text.trim(), fenced?.[1]?.trim()]
+
+  // 截取第一个 { / [ 到最后一个 } / ] 之间的内容
+  const start = text.search(/[{[]/)
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'))
+  if (start !== -1 && end > start) {
+    candidates.push(text.slice(start, end + 1))
+  }
+
+  for (const candidate of candidates) {
+    if (!candidate) continue
+    try {
+      return JSON.parse(candidate)
+    } catch {
+      // 尝试下一个候选
+    }
+  }
+  return undefined
+}
@@ -1,20 +1,38 @@
 /**
- * SystemPromptBuilder - 组装 systemPrompt（静态层 + Top-N 常驻记忆）
+ * SystemPromptBuilder - 组装 systemPrompt（静态层 + 常驻记忆 + 相关记忆）
  * V5.4 - 按重要性注入高优记忆，不做搜索，零匹配开销
+ * V5.7 - 只注入全局记忆 + 当前发信人 / 飞书会话作用域内的记忆
+ * V5.12 - 只注入有效期内的记忆，临时记忆标注到期时间
+ * V5.13 - 按当前消息检索注入相关的低优记忆；记忆预算按会话实际 token 占用动态计算
  */
 
 import * as fs from 'node:fs'
-import { MemoryDB, type MemoryEntry } from '../../memory/memory-db.js'
-import { MEMORY_CONFIG, estimateTokens } from '../../memory/config.js'
+import { MemoryDB, type MemoryEntry, type MemoryScope, type SearchResult } from '../../memory/memory-db.js'
+import { MEMORY_CONFIG, estimateTokens, getDynamicMemoryBudget } from '../../memory/config.js'
+import { formatMemoryTime } from '../../memory/memory-expiry.js'
 
 // ==================== 类型定义 ====================
 
+/** 注入的单条记忆及原因 */
+export interface InjectedMemory {
+  id: number
+  /** active：imp≥4 常驻记忆 / relevant：按当前消息检索命中 */
+  section: 'active' | 'relevant'
+  reason: string
+  tokens: number
+}
+
 export interface BuildStats {
   soulTokens: number
   claudeTokens: number
   memoryTokens: number
   memoryCount: number
   totalTokens: number
+  /** 会话当前上下文占用（决定动态记忆预算） */
+  conversationTokens: number
+  /** 本次动态记忆预算 */
+  memoryBudget: number
+  injected: InjectedMemory[]
 }
 
 export interface SystemPromptResult {
@@ -22,6 +40,13 @@ export interface SystemPromptResult {
   stats: BuildStats
 }
 
+export interface BuildOptions {
+  /** 当前用户消息，用于检索相关记忆；为空时只注入常驻记忆 */
+  query?: string
+  /** 会话当前已占用的上下文 token */
+  conversationTokens?: number
+}
+
 // ==================== SystemPromptBuilder ====================
 
 export class SystemPromptBuilder {
@@ -33,31 +58,54 @@ export class SystemPromptBuilder {
 
   /**
    * 构建 System Prompt
-   * SOUL.md + CLAUDE.md + imp≥4 的常驻记忆（按重要性降序，受 budget 截断）
+   * SOUL.md + CLAUDE.md
+   *   + Active Memories：imp≥4 的常驻记忆（按重要性降序）
+   *   + Relevant Memories：与当前消息相关、未进入常驻段的记忆（按检索得分降序）
+   * 两段共享 getDynamicMemoryBudget(conversationTokens)，有消息时常驻段最多占 1 - BUDGET_SHARE
+   * @param scope - 当前发信人 / 飞书会话，其他用户、其他会话的记忆不会注入
    */
-  build(): SystemPromptResult {
+  async build(scope: MemoryScope = {}, options: BuildOptions = {}): Promise<SystemPromptResult> {
     const { SOUL, CLAUDE } = MEMORY_CONFIG.TOKEN_BUDGET
+    const { MAX_ENTRIES, BUDGET_SHARE } = MEMORY_CONFIG.RELEVANT_MEMORY
 
     const soul = this.loadAndTruncate('./data/SOUL.md', SOUL)
     const claude = this.loadAndTruncate('./data/CLAUDE.md', CLAUDE)
 
-    // 取 imp≥4 的记忆，按 imp 降序
-    const topMemories = this.memoryDb.getTopMemories(50)
-      .filter(e => e.imp >= 4)
+    const conversationTokens = options.conversationTokens ?? 0
+    const memoryBudget = getDynamicMemoryBudget(conversationTokens)
+    const query = options.query?.trim()
 
-    // 格式化，受 budget 截断
-    const dynamicBudget = MEMORY_CONFIG.TOKEN_BUDGET.DYNAMIC_DEFAULT
-    const { content: memoryContent, count: memoryCount } = this.formatMemories(topMemories, dynamicBudget)
+    // 取有效期内 imp≥4 的记忆，按 imp 降序
+    const topMemories = this.memoryDb.getTopMemories(50, scope)
+      .filter(e => e.imp >= 4)
+    const activeBudget = query ? Math.floor(memoryBudget * (1 - BUDGET_SHARE)) : memoryBudget
+    const active = this.formatMemories(topMemories, activeBudget, e => ({ section: 'active', reason: `imp=${e.imp}` }))
+
+    // 剩余预算注入与当前消息相关的记忆
+    let relevant: { content: string; injected: InjectedMemory[] } = { content: '', injected: [] }
+    if (query) {
+      const injectedIds = new Set(active.injected.map(m => m.id))
+      const hits = (await this.searchRelevant(query, scope))
+        .filter(r => !injectedIds.has(r.id!))
+        .slice(0, MAX_ENTRIES)
+      const usedTokens = active.injected.reduce((sum, m) => sum + m.tokens, 0)
+      relevant = this.formatMemories(hits, memoryBudget - usedTokens, r => ({
+        section: 'relevant',
+        reason: this.describeMatch(r),
+      }))
+    }
 
     const parts: string[] = []
     if (soul) parts.push(soul)
     if (claude) parts.push(claude)
-    if (memoryContent) parts.push(`\n## Active Memories\n${memoryContent}`)
+    if (active.content) parts.push(`\n## Active Memories\n${active.content}`)
+    if (relevant.content) parts.push(`\n## Relevant Memories\n与当前消息相关的记忆：\n${relevant.content}`)
     const text = parts.join('\n\n')
 
     const soulTokens = estimateTokens(soul)
     const claudeTokens = estimateTokens(claude)
-    const memoryTokens = estimateTokens(memoryContent)
+    const injected = [...active.injected, ...relevant.injected]
+    const memoryTokens = injected.reduce((sum, m) => sum + m.tokens, 0)
 
     return {
       text,
@@ -65,8 +113,11 @@ export class SystemPromptBuilder {
         soulTokens,
         claudeTokens,
         memoryTokens,
-        memoryCount,
+        memoryCount: injected.length,
         totalTokens: soulTokens + claudeTokens + memoryTokens,
+        conversationTokens,
+        memoryBudget,
+        injected,
       },
     }
   }
@@ -87,21 +138,47 @@ export class SystemPromptBuilder {
     }
   }
 
+  /**
+   * 检索与当前消息相关的记忆（失败只打日志，不影响 system prompt 构建）
+   */
+  private async searchRelevant(query: string, scope: MemoryScope): Promise<SearchResult[]> {
+    try {
+      return await this.memoryDb.search(query, MEMORY_CONFIG.RELEVANT_MEMORY.MAX_ENTRIES * 2, 'hybrid', scope)
+    } catch (error) {
+      console.warn('⚠️ 相关记忆检索失败，仅注入常驻记忆:', error)
+      return []
+    }
+  }
+
+  private describeMatch(result: SearchResult): string {
+    const parts = [`score=${result.score.toFixed(2)}`]
+    if (result.fts_rank > 0) parts.push(`关键词命中 ${result.fts_rank}`)
+    if (result.similarity !== undefined) parts.push(`相似度 ${result.similarity.toFixed(2)}`)
+    return parts.join(', ')
+  }
+
   /**
    * 格式化记忆条目（只用 text，不含 keywords），受 budget 截断
    */
-  private formatMemories(entries: MemoryEntry[], budget: number): { content: string; count: number } {
+  private formatMemories<T extends MemoryEntry>(
+    entries: T[],
+    budget: number,
+    describe: (entry: T) => Pick<InjectedMemory, 'section' | 'reason'>,
+  ): { content: string; injected: InjectedMemory[] } {
     const lines: string[] = []
+    const injected: InjectedMemory[] = []
     let usedTokens = 0
 
     for (const entry of entries) {
-      const line = `- [${entry.cat}](imp=${entry.imp}) ${entry.text}`
+      const expiry = entry.expires_at ? `（有效至 ${formatMemoryTime(entry.expires_at)}）` : ''
+      const line = `- [${entry.cat}](imp=${entry.imp}) ${entry.text}${expiry}`
       const lineTokens = estimateTokens(line)
       if (usedTokens + lineTokens > budget) break
       lines.push(line)
+      injected.push({ id: entry.id!, ...describe(entry), tokens: lineTokens })
       usedTokens += lineTokens
     }
 
-    return { content: lines.join('\n'), count: lines.length }
+    return { content: lines.join('\n'), injected }
   }
 }
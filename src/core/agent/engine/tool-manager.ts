@@ -1,12 +1,34 @@
 import { tool, createSdkMcpServer } from '@anthropic-ai/claude-agent-sdk'
+import { existsSync, readFileSync } from 'fs'
+import { ToolPermissionLevel } from '../types/tools'
+import { McpServerRegistry } from './mcp-registry'
 import type {
   RegisteredTool,
+  ToolCallerContext,
   ToolExecutionContext,
   ToolCallRequest,
   ToolCallResponse,
+  ToolPermission,
+  ToolRateLimit,
   ToolValidationResult,
 } from '../types/tools'
 
+/** 工具权限覆盖配置：{ "tool_name": { "level": "admin", "allowedUsers": [] } } */
+const PERMISSIONS_FILE = 'data/tool-permissions.json'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+/** perDay 按该时区的自然日计数（UTC+8，无夏令时） */
+const RATE_LIMIT_TIME_ZONE = 'Asia/Shanghai'
+
+/** 限流拒绝信息 */
+interface RateLimitRejection {
+  scope: 'minute' | 'session' | 'day'
+  limit: number
+  /** 距离窗口重置的秒数；session 维度无法重置时为 null */
+  retryAfterSeconds: number | null
+}
+
 export const DEFAULT_ALLOWED_TOOLS = [
   'Bash',
   'Read', 'Write', 'Edit', 'Glob', 'Grep',
@@ -22,10 +44,19 @@ export class ToolManager {
   private tools: Map<string, RegisteredTool>
   private rateLimitBuckets: Map<string, { count: number; resetTime: number }>
   private toolPrefix = "cf-claw-tools"
+  private mcpRegistry: McpServerRegistry
 
   constructor() {
     this.tools = new Map()
     this.rateLimitBuckets = new Map()
+    this.mcpRegistry = new McpServerRegistry()
+  }
+
+  /**
+   * 获取外部 MCP Server 注册表（健康状态查询 / 状态回写）
+   */
+  getMcpRegistry(): McpServerRegistry {
+    return this.mcpRegistry
   }
 
   /**
@@ -41,6 +72,8 @@ export class ToolManager {
       description: options.description,
       inputSchema: options.inputSchema,
       execute: options.execute,
+      permission: options.permission,
+      rateLimit: options.rateLimit,
     }
 
     this.tools.set(options.name, registeredTool)
@@ -59,16 +92,54 @@ export class ToolManager {
   /**
    * 获取MCP工具配置（参考官方写法）
    * 纯转换：将已注册的工具转为 Claude Agent SDK 格式，不再自行注册工具
+   *
+   * @param caller - 本轮调用方，工具执行前按其身份校验权限；无权限时返回工具错误而非隐藏工具，
+   *   便于模型向用户解释原因
    */
-  async getTools() {
+  async getTools(caller: ToolCallerContext = {}) {
+    const permissionOverrides = this.loadPermissionOverrides()
+
     const internalTools = Array.from(this.tools.values()).map((handler) => {
       return tool(
         handler.name,
         handler.description,
         handler.inputSchema,
         async (args) => {
+          const permission = permissionOverrides[handler.name] ?? handler.permission
+          const denial = this.checkPermission(permission, caller)
+          if (denial) {
+            console.warn(`🚫 工具调用被拒绝: ${handler.name} [user=${caller.userId}] ${denial}`)
+            return {
+              content: [{
+                type: "text",
+                text: `Error: 权限不足，无法调用工具 ${handler.name}：${denial}`
+              }],
+              isError: true,
+            }
+          }
+
+          const rejection = this.consumeRateLimit(handler.name, handler.rateLimit, caller.sessionId)
+          if (rejection) {
+            const retryHint = rejection.retryAfterSeconds !== null
+              ? `retry after ${rejection.retryAfterSeconds} s`
+              : 'session limit reached, do not retry in this session'
+            console.warn(`🚦 工具调用被限流: ${handler.name} [${rejection.scope} ≤ ${rejection.limit}] ${retryHint}`)
+            return {
+              content: [{
+                type: "text",
+                text: `Error: rate limited, ${retryHint}\n` + JSON.stringify({
+                  error: 'rate_limited',
+                  tool: handler.name,
+                  ...rejection,
+                }, null, 2)
+              }],
+              isError: true,
+            }
+          }
+
           try {
-            const result = await handler.execute(args)
+            const isAdmin = caller.userId !== undefined && this.getAdminUserIds().includes(caller.userId)
+            const result = await handler.execute(args, { ...caller, isAdmin })
             return {
               content: [{
                 type: "text",
@@ -89,22 +160,127 @@ export class ToolManager {
       )
     })
 
-    // 外部 MCP 工具（暂时为空，可根据需要扩展）
-    const externalMcpTools: any[] = []
-
-    const allTools = [...internalTools, ...externalMcpTools]
+    const allowedTools = internalTools.map((t) => `mcp__${this.toolPrefix}__${t.name}`)
 
-    const allowedTools = allTools.map((t) => `mcp__${this.toolPrefix}__${t.name}`)
+    // 外部 MCP Server（data/mcp-servers.json）
+    const external = this.mcpRegistry.getEnabledServers([this.toolPrefix])
 
     return {
       mcpServers: {
         [this.toolPrefix]: createSdkMcpServer({
           name: this.toolPrefix,
           version: "1.0.0",
-          tools: allTools,
+          tools: internalTools,
         }),
+        ...external.mcpServers,
       },
-      allowedTools: [...allowedTools, ...DEFAULT_ALLOWED_TOOLS],
+      allowedTools: [...allowedTools, ...external.allowedTools, ...DEFAULT_ALLOWED_TOOLS],
+      toolAllowlists: external.toolAllowlists,
+    }
+  }
+
+  /**
+   * 校验调用方是否有权限使用工具
+   * @returns 拒绝原因；有权限时返回 null
+   */
+  private checkPermission(permission: ToolPermission | undefined, caller: ToolCallerContext): string | null {
+    // 系统内部调用（定时任务、自迭代）不受限
+    if (caller.system) return null
+    if (!permission || permission.level === ToolPermissionLevel.PUBLIC) return null
+
+    // 无法确认调用方身份时拒绝（fail closed）
+    if (!caller.userId) return '无法确认调用方身份，仅可使用公开工具'
+
+    if (this.getAdminUserIds().includes(caller.userId)) return null
+
+    if (permission.level === ToolPermissionLevel.ADMIN) {
+      return '该工具仅限管理员使用'
+    }
+
+    if (permission.allowedUsers && !permission.allowedUsers.includes(caller.userId)) {
+      return '当前用户不在该工具的白名单中'
+    }
+
+    return null
+  }
+
+  /**
+   * 检查并消耗限流配额
+   * 先校验所有维度，全部通过后才计数，避免被拒绝的调用占用配额
+   * @returns 拒绝信息；放行时返回 null
+   */
+  private consumeRateLimit(toolName: string, rateLimit: ToolRateLimit | undefined, sessionId?: string): RateLimitRejection | null {
+    if (!rateLimit) return null
+
+    const now = Date.now()
+    const checks: Array<{ key: string; scope: RateLimitRejection['scope']; limit: number; resetTime: number }> = []
+    if (rateLimit.perMinute) {
+      checks.push({ key: `${toolName}:minute`, scope: 'minute', limit: rateLimit.perMinute, resetTime: now + MINUTE_MS })
+    }
+    if (rateLimit.perSession && sessionId) {
+      checks.push({ key: `${toolName}:session:${sessionId}`, scope: 'session', limit: rateLimit.perSession, resetTime: Infinity })
+    }
+    if (rateLimit.perDay) {
+      checks.push({ key: `${toolName}:day`, scope: 'day', limit: rateLimit.perDay, resetTime: nextDayStart(now) })
+    }
+
+    for (const check of checks) {
+      const bucket = this.rateLimitBuckets.get(check.key)
+      if (bucket && bucket.resetTime > now && bucket.count >= check.limit) {
+        return {
+          scope: check.scope,
+          limit: check.limit,
+          retryAfterSeconds: Number.isFinite(bucket.resetTime)
+            ? Math.ceil((bucket.resetTime - now) / 1000)
+            : null,
+        }
+      }
+    }
+
+    for (const check of checks) {
+      const bucket = this.rateLimitBuckets.get(check.key)
+      if (!bucket || bucket.resetTime <= now) {
+        this.rateLimitBuckets.set(check.key, { count: 1, resetTime: check.resetTime })
+      } else {
+        bucket.count++
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * 清除指定会话的 session 维度限流计数（会话删除/重置时调用）
+   */
+  resetSessionRateLimits(sessionId: string): void {
+    const suffix = `:session:${sessionId}`
+    for (const key of this.rateLimitBuckets.keys()) {
+      if (key.endsWith(suffix)) {
+        this.rateLimitBuckets.delete(key)
+      }
+    }
+  }
+
+  /**
+   * 管理员 open_id 列表（FEISHU_ADMIN_OPEN_IDS，逗号分隔）
+   */
+  private getAdminUserIds(): string[] {
+    return (process.env.FEISHU_ADMIN_OPEN_IDS || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean)
+  }
+
+  /**
+   * 读取工具权限覆盖配置（每轮读取，修改后无需重启）
+   */
+  private loadPermissionOverrides(): Record<string, ToolPermission> {
+    if (!existsSync(PERMISSIONS_FILE)) return {}
+    try {
+      return JSON.parse(readFileSync(PERMISSIONS_FILE, 'utf-8'))
+    } catch (error) {
+      console.warn('⚠️ 读取 tool-permissions.json 失败，忽略权限覆盖:', error)
+      return {}
     }
   }
 
@@ -218,3 +394,11 @@ export class ToolManager {
     this.rateLimitBuckets.clear()
   }
 }
+
+/**
+ * 下一个自然日 0 点（RATE_LIMIT_TIME_ZONE）的时间戳
+ */
+function nextDayStart(now: number): number {
+  const date = new Date(now).toLocaleDateString('sv-SE', { timeZone: RATE_LIMIT_TIME_ZONE })
+  return Date.parse(`${date}T00:00:00+08:00`) + DAY_MS
+}
@@ -0,0 +1,320 @@
+/**
+ * UsageLedger - Token 用量与费用台账
+ *
+ * 每次 query 结束（SDK result 消息）追加一行到 data/usage-ledger.jsonl，
+ * 按 session / 飞书会话 / 发信人 / 定时任务 / Skill 归属，供 /api/agent/usage 按天 / 周聚合。
+ *
+ * 日期分组按 Asia/Shanghai 时区计算，周以周一为起点。
+ *
+ * 每日费用（预算检查）与各 session 最近一轮用量（动态记忆预算）每轮都会查询，
+ * 启动时扫描台账一次建立内存索引，之后随 record() 增量更新，不再重复读取文件。
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { SDKResultMessage } from '@anthropic-ai/claude-agent-sdk'
+import type { QueryContext, TurnUsage } from '../types/agent.js'
+
+const LEDGER_PATH = path.join('data', 'usage-ledger.jsonl')
+const TIME_ZONE = 'Asia/Shanghai'
+
+// ==================== 类型定义 ====================
+
+export interface UsageRecord extends TurnUsage {
+  ts: number
+  sessionId?: string
+  chatId?: string
+  userId?: string
+  cronJobId?: string
+  skills: string[]
+}
+
+export type UsageGroupBy = 'day' | 'week'
+
+export const USAGE_DIMENSIONS = ['session', 'chat', 'user', 'cronJob', 'skill'] as const
+export type UsageDimension = typeof USAGE_DIMENSIONS[number]
+
+export interface UsageQuery {
+  groupBy?: UsageGroupBy
+  /** 起始日期（含），YYYY-MM-DD */
+  from?: string
+  /** 截止日期（含），YYYY-MM-DD */
+  to?: string
+  sessionId?: string
+  chatId?: string
+  userId?: string
+  cronJobId?: string
+  skill?: string
+  /** 在每个时间桶内再按该维度拆分 */
+  dimension?: UsageDimension
+}
+
+export interface UsageTotals {
+  turns: number
+  inputTokens: number
+  outputTokens: number
+  cacheReadInputTokens: number
+  cacheCreationInputTokens: number
+  costUsd: number
+}
+
+export interface UsageBucket extends UsageTotals {
+  /** 日期（day）或该周周一日期（week），YYYY-MM-DD */
+  period: string
+  breakdown?: Record<string, UsageTotals>
+}
+
+export interface UsageSummary {
+  groupBy: UsageGroupBy
+  buckets: UsageBucket[]
+  total: UsageTotals
+}
+
+export interface DailySpend {
+  totalUsd: number
+  chats: Record<string, number>
+  cronJobs: Record<string, number>
+}
+
+// ==================== UsageLedger ====================
+
+export class UsageLedger {
+  /** 日期（YYYY-MM-DD）→ 当天费用 */
+  private dailyTotals = new Map<string, DailySpend>()
+  /** sessionId → 最近一条记录 */
+  private lastBySession = new Map<string, UsageRecord>()
+
+  constructor() {
+    for (const record of this.loadAll()) {
+      this.index(record)
+    }
+  }
+
+  /**
+   * 从 SDK result 消息提取本轮用量
+   * 优先使用 modelUsage（含 Sub-Agent 调用），缺失时回退到主模型 usage
+   */
+  static fromResultMessage(message: SDKResultMessage): TurnUsage {
+    const modelUsage = Object.entries(message.modelUsage ?? {})
+    const usage: TurnUsage = {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadInputTokens: 0,
+      cacheCreationInputTokens: 0,
+      costUsd: message.total_cost_usd ?? 0,
+      durationMs: message.duration_ms ?? 0,
+      numTurns: message.num_turns ?? 0,
+      models: modelUsage.map(([model]) => model),
+    }
+
+    if (modelUsage.length > 0) {
+      for (const [, m] of modelUsage) {
+        usage.inputTokens += m.inputTokens || 0
+        usage.outputTokens += m.outputTokens || 0
+        usage.cacheReadInputTokens += m.cacheReadInputTokens || 0
+        usage.cacheCreationInputTokens += m.cacheCreationInputTokens || 0
+      }
+    } else if (message.usage) {
+      usage.inputTokens = message.usage.input_tokens || 0
+      usage.outputTokens = message.usage.output_tokens || 0
+      usage.cacheReadInputTokens = message.usage.cache_read_input_tokens || 0
+      usage.cacheCreationInputTokens = message.usage.cache_creation_input_tokens || 0
+    }
+
+    return usage
+  }
+
+  /**
+   * 追加一条用量记录（写入失败只打日志，不影响对话）
+   */
+  record(usage: TurnUsage, sessionId: string | undefined, context: QueryContext): UsageRecord {
+    const entry: UsageRecord = {
+      ts: Date.now(),
+      sessionId,
+      chatId: context.chatId,
+      userId: context.userId,
+      cronJobId: context.cronJobId,
+      skills: [...new Set(context.skills?.() ?? [])],
+      ...usage,
+    }
+    this.index(entry)
+
+    try {
+      const dir = path.dirname(LEDGER_PATH)
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true })
+      }
+      fs.appendFileSync(LEDGER_PATH, JSON.stringify(entry) + '\n', 'utf-8')
+    } catch (error) {
+      console.error('❌ 写入用量台账失败:', error)
+    }
+
+    return entry
+  }
+
+  /**
+   * 读取台账记录（按时间与归属过滤）
+   */
+  list(query: UsageQuery = {}): UsageRecord[] {
+    return this.loadAll().filter(r => {
+      const date = formatDate(r.ts)
+      if (query.from && date < query.from) return false
+      if (query.to && date > query.to) return false
+      if (query.sessionId && r.sessionId !== query.sessionId) return false
+      if (query.chatId && r.chatId !== query.chatId) return false
+      if (query.userId && r.userId !== query.userId) return false
+      if (query.cronJobId && r.cronJobId !== query.cronJobId) return false
+      if (query.skill && !r.skills.includes(query.skill)) return false
+      return true
+    })
+  }
+
+  /**
+   * 统计某天（Asia/Shanghai）的费用：全局 / 按飞书会话 / 按定时任务
+   */
+  dailySpend(ts: number = Date.now()): DailySpend {
+    const spend = this.dailyTotals.get(formatDate(ts))
+    return {
+      totalUsd: spend?.totalUsd ?? 0,
+      chats: { ...spend?.chats },
+      cronJobs: { ...spend?.cronJobs },
+    }
+  }
+
+  /**
+   * 某个 session 最近一轮的用量记录
+   */
+  lastRecord(sessionId: string): UsageRecord | undefined {
+    return this.lastBySession.get(sessionId)
+  }
+
+  /**
+   * 按天 / 周聚合用量
+   */
+  summarize(query: UsageQuery = {}): UsageSummary {
+    const groupBy = query.groupBy ?? 'day'
+    const buckets = new Map<string, UsageBucket>()
+    const total = emptyTotals()
+
+    for (const record of this.list(query)) {
+      const period = groupBy === 'week' ? weekStart(record.ts) : formatDate(record.ts)
+      let bucket = buckets.get(period)
+      if (!bucket) {
+        bucket = { period, ...emptyTotals() }
+        buckets.set(period, bucket)
+      }
+
+      addTo(bucket, record)
+      addTo(total, record)
+
+      if (query.dimension) {
+        bucket.breakdown ??= {}
+        for (const key of dimensionKeys(record, query.dimension)) {
+          bucket.breakdown[key] ??= emptyTotals()
+          addTo(bucket.breakdown[key]!, record)
+        }
+      }
+    }
+
+    return {
+      groupBy,
+      buckets: [...buckets.values()].sort((a, b) => a.period.localeCompare(b.period)),
+      total,
+    }
+  }
+
+  // ==================== 内部方法 ====================
+
+  /** 更新内存索引（每日费用 / 各 session 最近一轮） */
+  private index(record: UsageRecord): void {
+    const date = formatDate(record.ts)
+    let spend = this.dailyTotals.get(date)
+    if (!spend) {
+      spend = { totalUsd: 0, chats: {}, cronJobs: {} }
+      this.dailyTotals.set(date, spend)
+    }
+
+    spend.totalUsd += record.costUsd
+    if (record.chatId) {
+      spend.chats[record.chatId] = (spend.chats[record.chatId] ?? 0) + record.costUsd
+    }
+    if (record.cronJobId) {
+      spend.cronJobs[record.cronJobId] = (spend.cronJobs[record.cronJobId] ?? 0) + record.costUsd
+    }
+    if (record.sessionId) {
+      this.lastBySession.set(record.sessionId, record)
+    }
+  }
+
+  private loadAll(): UsageRecord[] {
+    if (!fs.existsSync(LEDGER_PATH)) return []
+
+    const records: UsageRecord[] = []
+    for (const line of fs.readFileSync(LEDGER_PATH, 'utf-8').split('\n')) {
+      if (!line.trim()) continue
+      try {
+        records.push(JSON.parse(line) as UsageRecord)
+      } catch {
+        console.warn(`⚠️ 跳过损坏的用量记录行: ${line.slice(0, 50)}...`)
+      }
+    }
+    return records
+  }
+}
+
+let sharedLedger: UsageLedger | null = null
+
+/**
+ * 进程内共享的台账实例：各处创建的 ClaudeEngine 共用同一份内存索引，预算检查才能看到全部费用
+ */
+export function getSharedUsageLedger(): UsageLedger {
+  sharedLedger ??= new UsageLedger()
+  return sharedLedger
+}
+
+// ==================== 工具函数 ====================
+
+function emptyTotals(): UsageTotals {
+  return {
+    turns: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadInputTokens: 0,
+    cacheCreationInputTokens: 0,
+    costUsd: 0,
+  }
+}
+
+function addTo(totals: UsageTotals, record: UsageRecord): void {
+  totals.turns++
+  totals.inputTokens += record.inputTokens
+  totals.outputTokens += record.outputTokens
+  totals.cacheReadInputTokens += record.cacheReadInputTokens
+  totals.cacheCreationInputTokens += record.cacheCreationInputTokens
+  totals.costUsd = Math.round((totals.costUsd + record.costUsd) * 1e6) / 1e6
+}
+
+/** 维度取值；未归属的记录计入 "(none)"，Skill 维度下一轮可计入多个 Skill */
+function dimensionKeys(record: UsageRecord, dimension: UsageDimension): string[] {
+  switch (dimension) {
+    case 'session': return [record.sessionId || '(none)']
+    case 'chat': return [record.chatId || '(none)']
+    case 'user': return [record.userId || '(none)']
+    case 'cronJob': return [record.cronJobId || '(none)']
+    case 'skill': return record.skills.length > 0 ? record.skills : ['(none)']
+  }
+}
+
+/** 时间戳 → YYYY-MM-DD（Asia/Shanghai） */
+function formatDate(ts: number): string {
+  return new Date(ts).toLocaleDateString('sv-SE', { timeZone: TIME_ZONE })
+}
+
+/** 时间戳所在周的周一日期 */
+function weekStart(ts: number): string {
+  const date = formatDate(ts)
+  const day = new Date(`${date}T00:00:00Z`)
+  const offset = (day.getUTCDay() + 6) % 7
+  day.setUTCDate(day.getUTCDate() - offset)
+  return day.toISOString().slice(0, 10)
+}
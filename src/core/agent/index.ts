@@ -27,11 +27,21 @@ import { createTavilyTools } from './tools/tavily-tools.js'
 import { createLinkAnalyzeTools } from './tools/link-analyze.js'
 import { registerAgentEngine } from '../agent-registry.js'
 import { TraceCollector } from '../self-iteration/trace-collector.js'
+import type { McpServerHealth } from './engine/mcp-registry.js'
+import { SessionForkError, type SessionLineage } from './engine/session-id-store.js'
+import type { UsageQuery, UsageSummary } from './engine/usage-ledger.js'
+import { BudgetGuard, BudgetExceededError, type BudgetLimit } from './engine/budget-guard.js'
+import type { ModelRouter } from './engine/model-router.js'
+import { StructuredOutputError } from './engine/structured-output.js'
+import { MemoryExtractor } from './engine/memory-extractor.js'
+import { MEMORY_CONFIG } from '../memory/config.js'
 import type {
   SessionConfig,
   AgentResponse,
   EventHandlers,
-  SessionState
+  SessionState,
+  FeishuSessionOrigin,
+  QueryContext
 } from './types/agent.js'
 
 interface SimpleMessage {
@@ -49,6 +59,8 @@ export class AgentEngine {
   private contextBuilder: ContextBuilder
   private cronScheduler: CronScheduler
   private abortControllers: Map<string, AbortController> = new Map()
+  private budgetGuard: BudgetGuard
+  private memoryExtractor: MemoryExtractor
 
   // [SELF-ITERATION] Trace 采集（优化由 CronJob 驱动，不在此处）
   private traceCollector: TraceCollector
@@ -64,9 +76,11 @@ export class AgentEngine {
 
     // Claude 引擎层
     this.claudeEngine = new ClaudeEngine()
+    this.budgetGuard = new BudgetGuard(this.claudeEngine.getUsageLedger())
+    this.memoryExtractor = new MemoryExtractor(this.memoryDb, this.claudeEngine, this.budgetGuard)
 
     // 会话管理器
-    this.sessionManager = new SessionManager(this.conversationStore)
+    this.sessionManager = new SessionManager(this.conversationStore, this.claudeEngine.getSessionIdStore())
     this.streamHandler = new StreamHandler()
 
     // [SELF-ITERATION] Trace 采集器
@@ -85,6 +99,7 @@ export class AgentEngine {
 
     // [SELF-ITERATION] 确保内置 CronJob 存在
     this.ensureSelfIterationCronJob()
+    this.ensureMemoryConsolidationCronJob()
 
     console.log('🤖 Agent引擎 V5.3 初始化完成（Resume + Skill 自迭代 Timeline）')
   }
@@ -125,6 +140,27 @@ export class AgentEngine {
     console.log('⏰ [AgentEngine] Skill self-iteration CronJob registered (0 0 * * *)')
   }
 
+  /**
+   * 确保记忆整理 CronJob 存在（幂等）
+   * 每小时检查一次触发条件（DEDUP.AI_INTERVAL_HOURS / AI_TRIGGER_COUNT），默认只发送预演报告
+   */
+  private ensureMemoryConsolidationCronJob(): void {
+    const store = this.cronScheduler.getStore()
+    const existing = store.listJobs().find((j) => j.name === '__memory_consolidation__')
+    if (existing) return
+
+    store.createJob({
+      name: '__memory_consolidation__',
+      cron: '0 * * * *',
+      taskType: 'memory_consolidation',
+      taskConfig: { type: 'memory_consolidation', dryRun: true },
+      notifyChatId: '',
+      enabled: true,
+    })
+
+    console.log('⏰ [AgentEngine] Memory consolidation CronJob registered (0 * * * *)')
+  }
+
   // ==================== EventTap — Trace 采集 ====================
 
   /**
@@ -224,36 +260,128 @@ export class AgentEngine {
         await tc.finishTurn(sessionId, `Error: ${error}`)
         await original.onError?.(error)
       },
+
+      onBudgetExceeded: async (message: string) => {
+        await tc.finishTurn(sessionId, `Error: ${message}`)
+        if (original.onBudgetExceeded) {
+          await original.onBudgetExceeded(message)
+        } else {
+          await original.onError?.(message)
+        }
+      },
+    }
+  }
+
+  /**
+   * 预算超额：发送告警，并通知前端展示预算超额状态
+   */
+  private async reportBudgetExceeded(
+    limit: BudgetLimit | undefined,
+    eventHandlers?: EventHandlers,
+  ): Promise<void> {
+    const error = new BudgetExceededError(limit)
+    if (limit) {
+      await this.budgetGuard.alert(limit)
+    }
+
+    const handlers = eventHandlers || this.streamHandler.getEventHandlers()
+    if (handlers.onBudgetExceeded) {
+      await handlers.onBudgetExceeded(error.message)
+    } else {
+      await handlers.onError?.(error.message)
     }
   }
 
+  /**
+   * 分叉会话尚未建立 SDK session 时，将复制的历史整理为 system prompt 片段
+   * 建立后由 resume 恢复上下文，返回 null
+   */
+  private buildForkSeedContext(sessionId: string): string | null {
+    const sessionIdStore = this.claudeEngine.getSessionIdStore()
+    if (sessionIdStore.has(sessionId)) return null
+
+    const fork = sessionIdStore.getForkRecord(sessionId)
+    if (!fork) return null
+
+    const { entries, truncated } = this.conversationStore.loadByTokenBudget(
+      sessionId,
+      MEMORY_CONFIG.CONTEXT.FORK_SEED_BUDGET,
+    )
+    if (entries.length === 0) return null
+
+    const transcript = entries
+      .map(e => `${e.role === 'user' ? 'User' : 'Assistant'}: ${e.content}`)
+      .join('\n\n')
+
+    return [
+      `[分支会话历史] 本会话从会话 ${fork.parentSessionId} 的第 ${fork.turnIndex + 1} 轮分叉，以下是分叉前的对话${truncated ? '（较早部分已省略）' : ''}，请基于此继续：`,
+      transcript,
+    ].join('\n\n')
+  }
+
+  /**
+   * 会话当前占用的上下文 token（决定动态记忆预算）
+   * 已建立 SDK session 时取台账中最近一轮的实际用量（单次请求平均输入 + 输出），
+   * 否则退化为本地历史的估算值
+   */
+  private getConversationTokens(sessionId: string, session: SessionState): number {
+    if (this.claudeEngine.getSessionIdStore().has(sessionId)) {
+      const last = this.claudeEngine.getUsageLedger().lastRecord(sessionId)
+      if (last) {
+        const input = last.inputTokens + last.cacheReadInputTokens + last.cacheCreationInputTokens
+        return Math.round(input / Math.max(1, last.numTurns)) + last.outputTokens
+      }
+    }
+    return session.contextLength
+  }
+
   /**
    * 发送消息（非流式）
+   * @param context - 用量归属（飞书会话、定时任务等）；传入 outputSchema 时返回校验后的 parsed
    */
   async sendMessage(
     sessionId: string,
     message: string,
     userId?: string,
     sessionContext?: string,
+    context: QueryContext = {},
   ): Promise<AgentResponse> {
+    const turnContext: QueryContext = { ...context, userId }
+    const budget = this.budgetGuard.check(turnContext)
+    if (!budget.allowed) {
+      await this.budgetGuard.alert(budget.exceeded!)
+      throw new BudgetExceededError(budget.exceeded)
+    }
+
     try {
       let session = this.sessionManager.getSession(sessionId)
       if (!session) {
         session = this.sessionManager.createSession({ sessionId, userId })
       }
 
+      // 分叉会话首轮：必须在写入本轮消息前读取历史
+      const forkSeed = this.buildForkSeedContext(sessionId)
+
       const userMessage: SimpleMessage = { role: 'user', content: message }
       this.sessionManager.addMessage(sessionId, userMessage)
 
-      const systemPromptResult = this.contextBuilder.buildSystemPrompt()
-      const finalSystemPrompt = sessionContext
-        ? `${systemPromptResult.text}\n\n${sessionContext}`
+      const systemPromptResult = await this.contextBuilder.buildSystemPrompt(
+        { userId, chatId: context.chatId },
+        { query: message, conversationTokens: this.getConversationTokens(sessionId, session) },
+      )
+      const extraContext = [forkSeed, sessionContext].filter(Boolean).join('\n\n')
+      const finalSystemPrompt = extraContext
+        ? `${systemPromptResult.text}\n\n${extraContext}`
         : systemPromptResult.text
 
       console.log(`📊 System prompt 构建完成 [session=${sessionId}]:`, {
         systemPromptTokens: systemPromptResult.stats.totalTokens,
         memoryCount: systemPromptResult.stats.memoryCount,
+        memoryBudget: systemPromptResult.stats.memoryBudget,
+        conversationTokens: systemPromptResult.stats.conversationTokens,
+        injectedMemories: systemPromptResult.stats.injected.map(m => `#${m.id} ${m.section} (${m.reason})`),
         hasSessionContext: !!sessionContext,
+        forkSeeded: !!forkSeed,
         resumeMode: true,
       })
 
@@ -261,6 +389,11 @@ export class AgentEngine {
         message,
         finalSystemPrompt,
         sessionId,
+        {
+          ...turnContext,
+          model: turnContext.model ?? session.model,
+          maxBudgetUsd: budget.remainingUsd,
+        },
       )
 
       const assistantMessage: SimpleMessage = { role: 'assistant', content: response.content }
@@ -268,6 +401,11 @@ export class AgentEngine {
 
       return response
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        if (budget.binding) await this.budgetGuard.alert(budget.binding)
+        throw new BudgetExceededError(budget.binding)
+      }
+      if (error instanceof StructuredOutputError) throw error
       console.error('Agent消息处理错误:', error)
       throw new Error(`Agent处理失败: ${error instanceof Error ? error.message : '未知错误'}`)
     }
@@ -275,6 +413,7 @@ export class AgentEngine {
 
   /**
    * 流式发送消息
+   * @param context - 用量归属（飞书会话、定时任务等）
    */
   async sendMessageStream(
     sessionId: string,
@@ -282,9 +421,20 @@ export class AgentEngine {
     userId?: string,
     eventHandlers?: EventHandlers,
     sessionContext?: string,
+    context: QueryContext = {},
   ): Promise<void> {
+    // 预算硬上限：已超额时拒绝新的轮次
+    const turnContext: QueryContext = { ...context, userId }
+    const budget = this.budgetGuard.check(turnContext)
+    if (!budget.allowed) {
+      console.warn(`💰 会话 ${sessionId} 的请求因预算超额被拒绝`)
+      await this.reportBudgetExceeded(budget.exceeded, eventHandlers)
+      return
+    }
+
     const abortController = new AbortController()
     this.abortControllers.set(sessionId, abortController)
+    let wrappedHandlers: EventHandlers | undefined
 
     try {
       let session = this.sessionManager.getSession(sessionId)
@@ -292,23 +442,34 @@ export class AgentEngine {
         session = this.sessionManager.createSession({ sessionId, userId })
       }
 
+      // 分叉会话首轮：必须在写入本轮消息前读取历史
+      const forkSeed = this.buildForkSeedContext(sessionId)
+
       const userMessage: SimpleMessage = { role: 'user', content: message }
       this.sessionManager.addMessage(sessionId, userMessage)
 
-      const systemPromptResult = this.contextBuilder.buildSystemPrompt()
-      const finalSystemPrompt = sessionContext
-        ? `${systemPromptResult.text}\n\n${sessionContext}`
+      const systemPromptResult = await this.contextBuilder.buildSystemPrompt(
+        { userId, chatId: context.chatId },
+        { query: message, conversationTokens: this.getConversationTokens(sessionId, session) },
+      )
+      const extraContext = [forkSeed, sessionContext].filter(Boolean).join('\n\n')
+      const finalSystemPrompt = extraContext
+        ? `${systemPromptResult.text}\n\n${extraContext}`
         : systemPromptResult.text
 
       console.log(`📊 System prompt 构建完成(流式) [session=${sessionId}]:`, {
         systemPromptTokens: systemPromptResult.stats.totalTokens,
         memoryCount: systemPromptResult.stats.memoryCount,
+        memoryBudget: systemPromptResult.stats.memoryBudget,
+        conversationTokens: systemPromptResult.stats.conversationTokens,
+        injectedMemories: systemPromptResult.stats.injected.map(m => `#${m.id} ${m.section} (${m.reason})`),
         hasSessionContext: !!sessionContext,
+        forkSeeded: !!forkSeed,
         resumeMode: true,
       })
 
       // [SELF-ITERATION] 包装 eventHandlers，注入全量 timeline 采集
-      const wrappedHandlers = this.wrapWithTraceCollector(
+      wrappedHandlers = this.wrapWithTraceCollector(
         sessionId,
         message,
         eventHandlers || this.streamHandler.getEventHandlers(),
@@ -322,15 +483,40 @@ export class AgentEngine {
         finalSystemPrompt,
         abortController,
         sessionId,
+        {
+          ...turnContext,
+          model: turnContext.model ?? session.model,
+          // 本轮用量按 timeline 中已调用的 Skill 归属
+          skills: () => this.traceCollector.getActiveSkillNames(sessionId),
+          maxBudgetUsd: budget.remainingUsd,
+        },
       )
 
       const assistantMessage: SimpleMessage = { role: 'assistant', content: responseContent }
       this.sessionManager.addMessage(sessionId, assistantMessage)
+
+      // 本轮完成后异步提取记忆，不阻塞回复；定时任务触发的轮次不提取
+      if (!context.cronJobId) {
+        this.memoryExtractor.extract({
+          sessionId,
+          userMessage: message,
+          assistantMessage: responseContent,
+          userId,
+          chatId: context.chatId,
+        }).catch(error => {
+          console.error(`❌ 记忆自动提取失败 [session=${sessionId}]:`, error)
+        })
+      }
     } catch (error) {
       if (abortController.signal.aborted) {
         console.log(`⏹️ 会话 ${sessionId} 已被用户中断`)
         return
       }
+      if (error instanceof BudgetExceededError) {
+        console.warn(`💰 会话 ${sessionId} 本轮因预算超额被中止`)
+        await this.reportBudgetExceeded(budget.binding, wrappedHandlers ?? eventHandlers)
+        return
+      }
       console.error('Agent流式消息处理错误:', error)
       this.streamHandler.handleEvent({
         type: 'error',
@@ -351,6 +537,16 @@ export class AgentEngine {
     return this.toolManager.getToolNames()
   }
 
+  getMcpServerHealth(): McpServerHealth[] {
+    return this.toolManager.getMcpRegistry().getHealth()
+  }
+
+  // ==================== 用量统计 ====================
+
+  getUsageSummary(query: UsageQuery = {}): UsageSummary {
+    return this.claudeEngine.getUsageLedger().summarize(query)
+  }
+
   // ==================== 会话管理 ====================
 
   createSession(config: SessionConfig): SessionState {
@@ -361,11 +557,79 @@ export class AgentEngine {
     return this.sessionManager.getSession(sessionId)
   }
 
+  listPersistedSessions(): SessionState[] {
+    return this.sessionManager.listPersistedSessions()
+  }
+
+  /**
+   * 设置会话级模型（飞书 /model 指令），model 为空时恢复默认模型
+   */
+  setSessionModel(sessionId: string, model?: string): SessionState {
+    return this.sessionManager.setModel(sessionId, model)
+  }
+
+  getModelRouter(): ModelRouter {
+    return this.claudeEngine.getModelRouter()
+  }
+
   deleteSession(sessionId: string): boolean {
     this.claudeEngine.getSessionIdStore().delete(sessionId)
+    this.toolManager.resetSessionRateLimits(sessionId)
     return this.sessionManager.deleteSession(sessionId)
   }
 
+  /**
+   * 从指定轮次分叉会话：复制对话历史到新会话 ID，新分支使用全新的 SDK session，
+   * 首轮对话时通过 system prompt 注入复制的历史
+   * @param options.turnIndex - 保留到第几轮（从 0 开始，含），缺省复制全部
+   */
+  forkSession(
+    sourceSessionId: string,
+    options: { turnIndex?: number; newSessionId?: string; userId?: string; feishu?: FeishuSessionOrigin } = {},
+  ): { session: SessionState; turns: number; lineage: SessionLineage } {
+    const source = this.sessionManager.getSession(sourceSessionId)
+    if (!source) {
+      throw new Error(`会话不存在: ${sourceSessionId}`)
+    }
+
+    const newSessionId = options.newSessionId || `${sourceSessionId}_fork_${Date.now().toString(36)}`
+    if (this.sessionManager.getSession(newSessionId)) {
+      throw new Error(`会话已存在: ${newSessionId}`)
+    }
+
+    const sourceTurns = this.conversationStore.loadSync(sourceSessionId).filter(e => e.role === 'user').length
+    if (sourceTurns === 0) {
+      throw new SessionForkError(`会话 ${sourceSessionId} 没有可分叉的对话历史`, 'no_history')
+    }
+    if (options.turnIndex !== undefined && options.turnIndex >= sourceTurns) {
+      throw new SessionForkError(
+        `分叉点第 ${options.turnIndex + 1} 轮超出会话 ${sourceSessionId} 的历史轮数（共 ${sourceTurns} 轮）`,
+        'invalid_turn',
+      )
+    }
+
+    const { turns } = this.conversationStore.forkHistory(sourceSessionId, newSessionId, options.turnIndex)
+
+    let session = this.sessionManager.createSession({
+      sessionId: newSessionId,
+      userId: options.userId ?? source.userId,
+      feishu: options.feishu ?? source.feishu,
+    })
+    if (source.model) {
+      session = this.sessionManager.setModel(newSessionId, source.model)
+    }
+
+    const sessionIdStore = this.claudeEngine.getSessionIdStore()
+    sessionIdStore.recordFork(sourceSessionId, newSessionId, turns - 1)
+    console.log(`🌿 会话分叉: ${sourceSessionId} → ${newSessionId}（复制 ${turns} 轮）`)
+
+    return { session, turns, lineage: sessionIdStore.getLineage(newSessionId) }
+  }
+
+  getSessionLineage(sessionId: string): SessionLineage {
+    return this.claudeEngine.getSessionIdStore().getLineage(sessionId)
+  }
+
   hasResumeSession(sessionId: string): boolean {
     return this.claudeEngine.getSessionIdStore().has(sessionId)
   }
@@ -409,6 +673,14 @@ export class AgentEngine {
     return this.memoryDb
   }
 
+  getMemoryExtractor(): MemoryExtractor {
+    return this.memoryExtractor
+  }
+
+  getBudgetGuard(): BudgetGuard {
+    return this.budgetGuard
+  }
+
   getConversationStore(): ConversationStore {
     return this.conversationStore
   }
@@ -1,16 +1,36 @@
 /**
  * CronJob Agent 工具
  * 
- * 注册给 Agent 的 4 个工具，让用户通过飞书自然语言管理定时任务。
+ * 注册给 Agent 的 5 个工具，让用户通过飞书自然语言管理定时任务和一次性提醒。
  * 
  * 注册方式与 calculator.ts / memory-tools.ts / tavily-tools.ts 一致：
  * 返回 RegisteredTool[]，由 ToolManager.registerTools() 批量注册。
  */
 
 import z from 'zod'
-import type { RegisteredTool } from '../types/tools.js'
+import { ToolPermissionLevel, type RegisteredTool, type ToolCallerContext } from '../types/tools.js'
 import type { CronScheduler } from '../../cronjob/cron-scheduler.js'
-import type { CronTaskType } from '../../cronjob/types.js'
+import { ADMIN_ONLY_TASK_TYPES, CRON_MISFIRE_DEFAULTS, CRON_MISFIRE_POLICIES, CRON_RETRY_DEFAULTS, NON_IDEMPOTENT_TASK_TYPES, getDefaultMaxAttempts, getMisfireGraceMs, type CronTaskType } from '../../cronjob/types.js'
+import { DEFAULT_CRON_TIMEZONE, describeJobSchedule, formatInTimezone, formatWithTimezone, getJobTimezone, isValidTimezone } from '../../cronjob/timezone.js'
+import { parseReminderTime } from '../../cronjob/reminder-time.js'
+import { validateWorkflow } from '../../cronjob/workflow.js'
+
+/** 一次性任务 / 提醒支持的时间写法（工具描述用） */
+const RUN_AT_EXAMPLES = '"2小时后" "明天下午3点" "周五 15:00" "10月30日 18:00" "2026-10-30 18:00"'
+
+/**
+ * 解析一次性任务的执行时间，无法识别或已过去时抛错
+ */
+function resolveRunAt(input: string, timezone: string): number {
+  const runAt = parseReminderTime(input, timezone)
+  if (runAt === null) {
+    throw new Error(`无法识别时间 "${input}"，支持的写法如 ${RUN_AT_EXAMPLES}`)
+  }
+  if (runAt <= Date.now()) {
+    throw new Error(`时间 "${input}" 解析为 ${formatWithTimezone(runAt, timezone)}，已经过去`)
+  }
+  return runAt
+}
 
 export function createCronjobTools(scheduler: CronScheduler): RegisteredTool[] {
   const store = scheduler.getStore()
@@ -20,46 +40,111 @@ export function createCronjobTools(scheduler: CronScheduler): RegisteredTool[] {
   const createCronjob: RegisteredTool = {
     name: 'create_cronjob',
     description: [
-      '创建一个定时任务。',
+      '创建一个定时任务（周期任务传 cron，一次性任务传 runAt，二者二选一）。',
+      '单纯的提醒（"2小时后提醒我…"）请使用 create_reminder。',
       '任务类型：',
       '- agent_prompt: 定时让 Agent 执行一段 prompt（最灵活，可搜索新闻、生成报告等）',
       '- feishu_notify: 定时发送飞书通知（支持模板变量或让 Agent 动态生成）',
       '- custom_script: 定时执行 shell 命令',
+      '- workflow: 多步骤工作流（如 脚本抓取数据 → Agent 总结 → 推送飞书），步骤复用以上三种类型',
+      `${ADMIN_ONLY_TASK_TYPES.join(' / ')} 仅限管理员创建；任务中的 Agent 以创建人的身份调用工具（权限与创建人相同）`,
       '',
       'cron 表达式格式：分 时 日 月 周几',
       '示例: "0 9 * * *"(每天9点) "0 9 * * 1-5"(工作日9点) "*/30 * * * *"(每30分钟)',
       '预设: @hourly @daily @weekly @monthly',
+      `runAt 支持自然语言，如 ${RUN_AT_EXAMPLES}，执行后任务自动归档`,
+      `cron 表达式与 runAt 按 timezone（IANA 时区名）解释，默认 ${DEFAULT_CRON_TIMEZONE}；用户在其他时区（如新加坡）时传 "Asia/Singapore"`,
       '',
       'taskConfig 是 JSON 字符串，必须包含 type 字段：',
-      '- agent_prompt: {"type":"agent_prompt","prompt":"要执行的指令"}',
+      '- agent_prompt: {"type":"agent_prompt","prompt":"要执行的指令"}，可选 "model" 指定执行模型',
       '- feishu_notify: {"type":"feishu_notify","messageTemplate":"消息模板"} 或 {"type":"feishu_notify","agentPrompt":"让Agent生成的指令"}',
       '- custom_script: {"type":"custom_script","command":"shell命令"}',
+      '- workflow: {"type":"workflow","steps":[步骤...]}，每个步骤 {"id","task","dependsOn?","when?","timeoutMs?","continueOnError?"}',
+      '  task 为上面三种类型之一的配置；dependsOn 缺省依赖上一步，互不依赖的步骤并行执行',
+      '  agent_prompt / feishu_notify 中用 {{steps.<id>.output}} 引用前序步骤输出；custom_script 通过环境变量 WORKFLOW_STEP_<ID>_OUTPUT 读取',
+      '  when 条件 {"step","op","value?"}，op: changed / unchanged / contains / not_contains / equals / matches / succeeded / failed',
+      '  只有 feishu_notify 步骤会推送到 chatId。示例：',
+      '  {"type":"workflow","steps":[{"id":"fetch","task":{"type":"custom_script","command":"curl -s https://example.com/status"}},'
+        + '{"id":"notify","when":{"step":"fetch","op":"changed"},"task":{"type":"feishu_notify","messageTemplate":"状态变化:\\n{{steps.fetch.output}}"}}]}',
       '不要使用 feishu-cli 发送飞书通知，cronjob 已经支持了。',
+      '',
+      `失败时默认最多尝试 ${CRON_RETRY_DEFAULTS.MAX_ATTEMPTS} 次（退避 ${CRON_RETRY_DEFAULTS.BACKOFF_MS / 1000}s 起，每次翻倍），`
+        + `${NON_IDEMPOTENT_TASK_TYPES.join(' / ')} 重复执行可能产生副作用，默认不重试，确认可安全重跑时才设置 maxAttempts；`
+        + `连续失败 ${CRON_RETRY_DEFAULTS.MAX_CONSECUTIVE_FAILURES} 次后自动禁用并告警到 escalationChatId（管理员会话，须不同于 chatId）。`,
+      '',
+      '服务停机等原因错过运行时按 misfirePolicy 处理：skip 只准点执行 / run_once 只补跑最近一次（默认） / run_all 逐次补跑（最多 maxCatchUpRuns 次）。',
+      `run_once 补跑的周期任务默认最多延迟 ${CRON_MISFIRE_DEFAULTS.RUN_ONCE_GRACE_MS / 3_600_000} 小时，超过的错过运行直接跳过（避免早报在深夜才发出），可通过 misfireGraceMinutes 调整。`,
     ].join('\n'),
     inputSchema: {
       name: z.string().describe('任务名称，如 "每日科技早报"'),
-      cron: z.string().describe('cron 表达式，如 "0 9 * * 1-5" 或 @daily'),
-      taskType: z.enum(['agent_prompt', 'feishu_notify', 'custom_script']).describe('任务类型'),
+      cron: z.string().optional().describe('cron 表达式，如 "0 9 * * 1-5" 或 @daily（与 runAt 二选一）'),
+      runAt: z.string().optional().describe('一次性任务的执行时间，如 "明天上午9点"（与 cron 二选一）'),
+      taskType: z.enum(['agent_prompt', 'feishu_notify', 'custom_script', 'workflow']).describe('任务类型'),
       taskConfig: z.string().describe('任务配置 JSON 字符串'),
       chatId: z.string().describe('执行结果发送到的飞书会话 ID（通常是当前会话的 chatId）'),
+      timezone: z.string().optional().describe(`IANA 时区，如 "Asia/Shanghai"、"Asia/Singapore"、"UTC"，默认 ${DEFAULT_CRON_TIMEZONE}`),
+      maxAttempts: z.number().int().min(1).max(10).optional().describe(`单次调度失败时的最大尝试次数（含首次），默认 ${CRON_RETRY_DEFAULTS.MAX_ATTEMPTS}（${NON_IDEMPOTENT_TASK_TYPES.join(' / ')} 默认 1）`),
+      retryBackoffSeconds: z.number().min(0).optional().describe(`第一次重试前等待的秒数，之后每次翻倍，默认 ${CRON_RETRY_DEFAULTS.BACKOFF_MS / 1000}`),
+      maxConsecutiveFailures: z.number().int().min(0).optional().describe(`连续失败多少次后自动禁用，0 表示不自动禁用，默认 ${CRON_RETRY_DEFAULTS.MAX_CONSECUTIVE_FAILURES}`),
+      misfirePolicy: z.enum(CRON_MISFIRE_POLICIES).optional().describe(`错过运行时的补偿策略，默认 ${CRON_MISFIRE_DEFAULTS.POLICY}`),
+      maxCatchUpRuns: z.number().int().min(1).optional().describe(`run_all 时最多补跑次数，默认 ${CRON_MISFIRE_DEFAULTS.MAX_CATCH_UP_RUNS}`),
+      misfireGraceMinutes: z.number().min(0).optional().describe(`最大允许延迟（分钟），超过的错过运行直接跳过；run_once 周期任务默认 ${CRON_MISFIRE_DEFAULTS.RUN_ONCE_GRACE_MS / 60_000}，其他默认不限制`),
+      escalationChatId: z.string().optional().describe('自动禁用时的告警会话 ID（管理员会话，须不同于 chatId），默认 CRON_ESCALATION_CHAT_ID / FEISHU_ALERT_OPEN_ID'),
     },
-    execute: async (args) => {
+    permission: { level: ToolPermissionLevel.USER },
+    execute: async (args, caller: ToolCallerContext = {}) => {
       try {
+        if (ADMIN_ONLY_TASK_TYPES.includes(args.taskType) && !caller.system && !caller.isAdmin) {
+          return { success: false, error: `创建失败: ${args.taskType} 任务仅限管理员创建` }
+        }
+        if (args.timezone && !isValidTimezone(args.timezone)) {
+          return { success: false, error: `创建失败: 无效的时区 "${args.timezone}"，请使用 IANA 时区名，如 Asia/Singapore` }
+        }
+        if (args.escalationChatId && args.escalationChatId === args.chatId) {
+          return { success: false, error: '创建失败: escalationChatId 须不同于 chatId（告警应发给管理员会话）' }
+        }
+        if (!args.cron === !args.runAt) {
+          return { success: false, error: '创建失败: cron（周期任务）与 runAt（一次性任务）必须且只能传一个' }
+        }
+        const runAt = args.runAt ? resolveRunAt(args.runAt, args.timezone || DEFAULT_CRON_TIMEZONE) : undefined
+
         const config = JSON.parse(args.taskConfig)
         config.type = args.taskType
+        if (config.type === 'workflow') {
+          const errors = validateWorkflow(config)
+          if (errors.length > 0) {
+            return { success: false, error: `创建失败: workflow 配置无效\n${errors.map(e => `- ${e}`).join('\n')}` }
+          }
+        }
 
         const job = store.createJob({
           name: args.name,
           cron: args.cron,
+          runAt,
+          timezone: args.timezone,
+          retry: args.maxAttempts !== undefined || args.retryBackoffSeconds !== undefined
+            ? {
+              maxAttempts: args.maxAttempts ?? getDefaultMaxAttempts(args.taskType as CronTaskType),
+              backoffMs: (args.retryBackoffSeconds ?? CRON_RETRY_DEFAULTS.BACKOFF_MS / 1000) * 1000,
+            }
+            : undefined,
+          maxConsecutiveFailures: args.maxConsecutiveFailures,
+          escalationChatId: args.escalationChatId,
+          misfirePolicy: args.misfirePolicy,
+          maxCatchUpRuns: args.maxCatchUpRuns,
+          misfireGraceMs: args.misfireGraceMinutes !== undefined ? args.misfireGraceMinutes * 60_000 : undefined,
           taskType: args.taskType as CronTaskType,
           taskConfig: config,
           notifyChatId: args.chatId,
+          createdBy: caller.userId,
           enabled: true,
         })
 
+        const timezone = getJobTimezone(job)
+        const grace = getMisfireGraceMs(job)
         const nextRun = scheduler.getNextRunTime(job)
         const nextRunStr = nextRun
-          ? new Date(nextRun).toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })
+          ? formatInTimezone(nextRun, timezone)
           : '计算中'
 
         return {
@@ -68,7 +153,9 @@ export function createCronjobTools(scheduler: CronScheduler): RegisteredTool[] {
             '✅ 定时任务创建成功',
             `📌 名称: ${job.name}`,
             `🔑 ID: ${job.id}`,
-            `⏰ 表达式: ${job.cron}`,
+            `⏰ 调度: ${describeJobSchedule(job)}`,
+            `⏭️ 错过运行: ${job.misfirePolicy ?? CRON_MISFIRE_DEFAULTS.POLICY}${grace !== undefined ? `，超过 ${grace / 60_000} 分钟跳过` : ''}`,
+            `🔁 重试: 最多 ${job.retry?.maxAttempts ?? getDefaultMaxAttempts(job.taskType)} 次 | 连续失败 ${job.maxConsecutiveFailures ?? CRON_RETRY_DEFAULTS.MAX_CONSECUTIVE_FAILURES} 次自动禁用`,
             `📋 类型: ${job.taskType}`,
             `📅 下次执行: ${nextRunStr}`,
           ].join('\n'),
@@ -86,41 +173,57 @@ export function createCronjobTools(scheduler: CronScheduler): RegisteredTool[] {
 
   const listCronjobs: RegisteredTool = {
     name: 'list_cronjobs',
-    description: '列出所有定时任务，包括名称、cron 表达式、启用状态、上次执行时间和下次执行时间',
+    description: '列出所有定时任务，包括名称、cron 表达式、启用状态、上次执行时间和下次执行时间；可同时列出已归档的一次性任务（提醒等）',
     inputSchema: {
       enabledOnly: z.boolean().optional().describe('是否只显示启用的任务，默认显示全部'),
+      includeArchived: z.boolean().optional().describe('同时列出最近归档的一次性任务（已执行或已跳过），执行结果用 get_cronjob_logs 查看'),
     },
     execute: async (args) => {
       try {
         const jobs = store.listJobs(args.enabledOnly ?? false)
-        if (jobs.length === 0) {
+        const archived = args.includeArchived ? store.listArchivedJobs() : []
+        if (jobs.length === 0 && archived.length === 0) {
           return { success: true, output: '📋 暂无定时任务' }
         }
 
         const lines = jobs.map((job, i) => {
           const statusIcon = job.enabled ? '🟢' : '🔴'
+          const timezone = getJobTimezone(job)
           const lastRun = job.lastRunAt
-            ? new Date(job.lastRunAt).toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })
+            ? formatInTimezone(job.lastRunAt, timezone)
             : '从未执行'
           const lastStatus = job.lastRunStatus
             ? (job.lastRunStatus === 'success' ? '✅' : '❌')
             : '-'
           const nextRun = scheduler.getNextRunTime(job)
           const nextRunStr = nextRun
-            ? new Date(nextRun).toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })
+            ? formatInTimezone(nextRun, timezone)
             : '-'
 
           return [
             `${i + 1}. ${statusIcon} **${job.name}**`,
             `   ID: ${job.id}`,
-            `   Cron: \`${job.cron}\` | 类型: ${job.taskType}`,
+            `   调度: ${describeJobSchedule(job)} | 类型: ${job.taskType}`,
             `   上次: ${lastRun} ${lastStatus} | 下次: ${nextRunStr}`,
+            ...(job.consecutiveFailures ? [`   连续失败: ${job.consecutiveFailures} 次`] : []),
+            ...(job.disabledReason ? [`   ⏸️ ${job.disabledReason}`] : []),
           ].join('\n')
         })
 
+        const archivedLines = archived.map((job, i) => [
+          `${i + 1}. 📦 **${job.name}**`,
+          `   ID: ${job.id}`,
+          `   调度: ${describeJobSchedule(job)} | 类型: ${job.taskType}`,
+          `   归档: ${formatInTimezone(job.archivedAt, getJobTimezone(job))}`,
+        ].join('\n'))
+
         return {
           success: true,
-          output: `📋 定时任务列表（共 ${jobs.length} 个）\n\n${lines.join('\n\n')}`,
+          output: [
+            `📋 定时任务列表（共 ${jobs.length} 个）`,
+            ...lines,
+            ...(archived.length > 0 ? [`📦 最近归档的一次性任务（${archived.length} 个）`, ...archivedLines] : []),
+          ].join('\n\n'),
         }
       } catch (error) {
         return {
@@ -140,6 +243,7 @@ export function createCronjobTools(scheduler: CronScheduler): RegisteredTool[] {
       jobId: z.string().describe('任务 ID'),
       action: z.enum(['enable', 'disable', 'delete', 'trigger']).describe('操作类型'),
     },
+    permission: { level: ToolPermissionLevel.ADMIN },
     execute: async (args) => {
       try {
         const { jobId, action } = args
@@ -150,10 +254,10 @@ export function createCronjobTools(scheduler: CronScheduler): RegisteredTool[] {
 
         switch (action) {
           case 'enable': {
-            store.updateJob(jobId, { enabled: true })
+            store.updateJob(jobId, { enabled: true, consecutiveFailures: 0, disabledReason: undefined })
             const nextRun = scheduler.getNextRunTime({ ...job, enabled: true })
             const nextRunStr = nextRun
-              ? new Date(nextRun).toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })
+              ? formatInTimezone(nextRun, getJobTimezone(job))
               : '-'
             return { success: true, output: `✅ 任务 [${job.name}] 已启用，下次执行: ${nextRunStr}` }
           }
@@ -165,7 +269,10 @@ export function createCronjobTools(scheduler: CronScheduler): RegisteredTool[] {
             return { success: true, output: `🗑️ 任务 [${job.name}] 已删除` }
           case 'trigger':
             await scheduler.triggerJob(jobId)
-            return { success: true, output: `🚀 任务 [${job.name}] 已手动触发执行` }
+            return {
+              success: true,
+              output: `🚀 任务 [${job.name}] 已手动触发执行${job.runAt !== undefined ? '（一次性任务已归档，到点不再执行）' : ''}`,
+            }
           default:
             return { success: false, error: `未知操作: ${action}` }
         }
@@ -201,19 +308,32 @@ export function createCronjobTools(scheduler: CronScheduler): RegisteredTool[] {
           success: '✅',
           failed: '❌',
           timeout: '⏱️',
+          skipped: '⏭️',
         }
 
         const lines = logs.map((log, i) => {
           const icon = statusIcons[log.status] || '❓'
-          const time = new Date(log.startedAt).toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })
+          const time = formatInTimezone(log.startedAt, job ? getJobTimezone(job) : DEFAULT_CRON_TIMEZONE)
           const duration = `${((log.finishedAt - log.startedAt) / 1000).toFixed(1)}s`
+          const attempt = log.attempt && log.maxAttempts && log.maxAttempts > 1
+            ? ` | 第 ${log.attempt}/${log.maxAttempts} 次${log.willRetry ? '，将重试' : ''}`
+            : ''
           const detail = log.error
             ? `错误: ${log.error}`
-            : log.result
-              ? `结果: ${log.result.slice(0, 100)}${log.result.length > 100 ? '...' : ''}`
+            : log.result && !log.steps
+              ? `${log.status === 'skipped' ? '跳过' : '结果'}: ${log.result.slice(0, 100)}${log.result.length > 100 ? '...' : ''}`
               : ''
 
-          return `${i + 1}. ${icon} ${time} | 耗时 ${duration}${detail ? `\n   ${detail}` : ''}`
+          const steps = (log.steps || []).map((step) => {
+            const stepIcon = statusIcons[step.status] || '❓'
+            const stepDuration = step.startedAt && step.finishedAt
+              ? ` ${((step.finishedAt - step.startedAt) / 1000).toFixed(1)}s`
+              : ''
+            const stepDetail = step.error || step.reason || step.output?.slice(0, 60) || ''
+            return `\n   ${stepIcon} ${step.id} [${step.type}]${stepDuration}${stepDetail ? ` ${stepDetail}` : ''}`
+          }).join('')
+
+          return `${i + 1}. ${icon} ${time} | 耗时 ${duration}${attempt}${detail ? `\n   ${detail}` : ''}${steps}`
         })
 
         return {
@@ -229,5 +349,65 @@ export function createCronjobTools(scheduler: CronScheduler): RegisteredTool[] {
     },
   }
 
-  return [createCronjob, listCronjobs, manageCronjob, getCronjobLogs]
+  // ==================== 5. 创建提醒 ====================
+
+  const createReminder: RegisteredTool = {
+    name: 'create_reminder',
+    description: [
+      '创建一次性提醒：到点后在目标会话发送提醒卡片并 @ 提醒发起人，发送后提醒自动归档。',
+      `time 支持自然语言，如 ${RUN_AT_EXAMPLES} "今晚8点" "半小时后"。`,
+      '用于 "2小时后提醒我开会"、"明天下午3点提醒大家交周报" 这类请求；需要周期执行的请使用 create_cronjob。',
+    ].join('\n'),
+    inputSchema: {
+      message: z.string().min(1).describe('提醒内容，如 "该开周会了"'),
+      time: z.string().describe('提醒时间，如 "2小时后"、"明天下午3点"'),
+      chatId: z.string().optional().describe('提醒发送到的飞书会话 ID，默认当前会话'),
+      mentionRequester: z.boolean().optional().describe('是否 @ 提醒发起人，默认 true'),
+      timezone: z.string().optional().describe(`IANA 时区，如 "Asia/Singapore"，默认 ${DEFAULT_CRON_TIMEZONE}`),
+    },
+    permission: { level: ToolPermissionLevel.USER },
+    execute: async (args, caller: ToolCallerContext = {}) => {
+      try {
+        const timezone = args.timezone || DEFAULT_CRON_TIMEZONE
+        if (!isValidTimezone(timezone)) {
+          return { success: false, error: `创建失败: 无效的时区 "${timezone}"，请使用 IANA 时区名，如 Asia/Singapore` }
+        }
+        const chatId = args.chatId || caller.chatId
+        if (!chatId) {
+          return { success: false, error: '创建失败: 无法确定提醒发送到哪个会话，请传入 chatId' }
+        }
+
+        const runAt = resolveRunAt(args.time, timezone)
+        const mentionUserId = args.mentionRequester === false ? undefined : caller.userId
+        const job = store.createJob({
+          name: `提醒: ${args.message.slice(0, 30)}`,
+          runAt,
+          timezone: args.timezone,
+          taskType: 'reminder',
+          taskConfig: { type: 'reminder', message: args.message, mentionUserId },
+          notifyChatId: chatId,
+          createdBy: caller.userId,
+          enabled: true,
+        })
+
+        return {
+          success: true,
+          output: [
+            '✅ 提醒已设置',
+            `📌 内容: ${args.message}`,
+            `🔑 ID: ${job.id}`,
+            `⏰ 时间: ${formatWithTimezone(runAt, timezone)}`,
+            `👤 @: ${mentionUserId ?? '不 @ 任何人'}`,
+          ].join('\n'),
+        }
+      } catch (error) {
+        return {
+          success: false,
+          error: `创建失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        }
+      }
+    },
+  }
+
+  return [createCronjob, listCronjobs, manageCronjob, getCronjobLogs, createReminder]
 }
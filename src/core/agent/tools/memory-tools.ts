@@ -1,11 +1,16 @@
 /**
  * Memory Tools - Claude 工具定义 + 执行器
  * V5.3 - save 新增 keywords 字段，LLM 保存时生成同义词索引
+ * V5.7 - 记忆作用域：save 默认只对当前发信人可见，search 只返回当前发信人 / 会话可见的记忆
+ * V5.8 - delete 不再直接删除，提交到记忆审核队列由管理员确认
+ * V5.9 - save 支持 valid_from / expires_at（自然语言），临时信息到期后自动归档
  */
 
 import z from 'zod'
-import { MemoryDB } from '../../memory/memory-db.js'
-import type { RegisteredTool, ToolExecutionResult } from '../types/tools.js'
+import { MemoryDB, type SearchMode } from '../../memory/memory-db.js'
+import { formatMemoryTime, parseMemoryTime } from '../../memory/memory-expiry.js'
+import { ToolPermissionLevel, type RegisteredTool, type ToolCallerContext, type ToolExecutionResult } from '../types/tools.js'
+import { stageMemoryReview } from '../engine/memory-review.js'
 
 // ==================== 工具 Schema ====================
 
@@ -22,18 +27,33 @@ const saveMemorySchema = {
   cat: z.enum(['preference', 'decision', 'context', 'correction', 'instruction', 'knowledge']).describe('记忆分类'),
   imp: z.number().min(1).max(5).describe('重要性 1-5'),
   source: z.enum(['USER', 'PROJECT', 'GLOBAL']).optional().default('USER').describe('来源'),
+  scope: z.enum(['user', 'chat', 'global']).optional().default('user').describe(
+    '可见范围：user 仅当前发信人（默认，个人偏好）/ chat 仅当前会话（群约定）/ global 所有会话（项目、通用知识）'
+  ),
+  expires_at: z.string().optional().describe(
+    '过期时间，仅临时有效的信息填写，到期后不再生效。支持自然语言：' +
+    '"2026-10-30"、"10月30日"、"3天"、"2周"、"下周"、"本月底"、"明天"。' +
+    '例如"我休假到10月30号"→ expires_at 填"10月30日"；"这个迭代用 release/1.4 分支"→ 填"2周"或迭代结束日期'
+  ),
+  valid_from: z.string().optional().describe(
+    '生效时间，信息将来才生效时填写（写法同 expires_at），例如"下周开始改用 pnpm"→ valid_from 填"下周"'
+  ),
 }
 
 const searchMemorySchema = {
   query: z.string().min(1, '搜索关键词不能为空').describe('搜索关键词'),
   cat: z.enum(['preference', 'decision', 'context', 'correction', 'instruction', 'knowledge']).optional().describe('按分类筛选'),
   limit: z.number().min(1).max(50).optional().default(10).describe('返回条数'),
+  mode: z.enum(['keyword', 'semantic', 'hybrid']).optional().default('hybrid').describe(
+    '检索模式：keyword 关键词匹配 / semantic 语义相似 / hybrid 两者混合（默认）'
+  ),
 }
 
 const deleteMemorySchema = {
   query: z.string().min(1, '删除关键词不能为空').describe('要删除的记忆关键词'),
   exact_match: z.boolean().optional().default(false).describe('是否精确匹配'),
-  dry_run: z.boolean().optional().default(true).describe('预览模式（不实际删除）'),
+  dry_run: z.boolean().optional().default(true).describe('预览模式（不提交删除请求）'),
+  reason: z.string().optional().default('').describe('删除理由，展示给审核的管理员'),
 }
 
 // ==================== 创建工具实例 ====================
@@ -46,15 +66,35 @@ export function createMemoryTools(memoryDb: MemoryDB): RegisteredTool[] {
     name: 'save_memory',
     description:
       '保存一条记忆。发现用户偏好、重要决定、纠正、指令等信息时主动调用。' +
-      '务必同时填写 keywords 字段，生成 5-15 个同义词/别名/相关术语作为搜索索引，覆盖用户未来可能的不同问法。',
+      '务必同时填写 keywords 字段，生成 5-15 个同义词/别名/相关术语作为搜索索引，覆盖用户未来可能的不同问法。' +
+      '个人偏好保持默认 scope=user，只对当前发信人生效；仅对所有人都适用的信息才使用 scope=global。' +
+      '临时信息（休假、本迭代的约定等）务必填写 expires_at。',
     inputSchema: saveMemorySchema,
-    execute: async (args: Record<string, unknown>): Promise<ToolExecutionResult> => {
+    execute: async (args: Record<string, unknown>, caller: ToolCallerContext = {}): Promise<ToolExecutionResult> => {
       try {
         const text = args.text as string
         const keywords = (args.keywords as string) || ''
         const cat = args.cat as string
         const imp = args.imp as number
         const source = (args.source as string) || 'USER'
+        const scope = (args.scope as string) || 'user'
+
+        const validity: { valid_from?: string; expires_at?: string } = {}
+        for (const [field, boundary] of [['valid_from', 'start'], ['expires_at', 'end']] as const) {
+          const raw = args[field] as string | undefined
+          if (!raw) continue
+          const parsed = parseMemoryTime(raw, boundary)
+          if (!parsed) {
+            return {
+              success: false,
+              error: `无法识别的时间 ${field}="${raw}"，请使用日期（如 2026-10-30）或相对时间（如 3天、下周）`,
+            }
+          }
+          validity[field] = parsed
+        }
+        if (validity.valid_from && validity.expires_at && validity.valid_from >= validity.expires_at) {
+          return { success: false, error: 'valid_from 必须早于 expires_at' }
+        }
 
         const result = memoryDb.insert({
           text,
@@ -62,15 +102,23 @@ export function createMemoryTools(memoryDb: MemoryDB): RegisteredTool[] {
           cat: cat as 'preference' | 'decision' | 'context' | 'correction' | 'instruction' | 'knowledge',
           imp,
           source: source as 'USER' | 'PROJECT' | 'GLOBAL',
-        })
+          // 系统内部调用（无发信人 / 会话）时退化为全局记忆
+          user_id: scope === 'user' ? caller.userId : undefined,
+          chat_id: scope === 'chat' ? caller.chatId : undefined,
+          ...validity,
+        }, 'tool')
 
         // 每次写入后触发淘汰检查
         memoryDb.compact()
 
         const kwPreview = keywords ? ` [kw: ${keywords.slice(0, 40)}${keywords.length > 40 ? '...' : ''}]` : ''
+        const validityPreview = [
+          validity.valid_from ? `from ${formatMemoryTime(validity.valid_from)}` : '',
+          validity.expires_at ? `until ${formatMemoryTime(validity.expires_at)}` : '',
+        ].filter(Boolean).join(' ')
         return {
           success: true,
-          output: `Memory ${result}: "${text.slice(0, 50)}${text.length > 50 ? '...' : ''}"${kwPreview}`,
+          output: `Memory ${result}: "${text.slice(0, 50)}${text.length > 50 ? '...' : ''}"${kwPreview}${validityPreview ? ` [${validityPreview}]` : ''}`,
         }
       } catch (error) {
         return {
@@ -85,13 +133,14 @@ export function createMemoryTools(memoryDb: MemoryDB): RegisteredTool[] {
     name: 'search_memory',
     description: `搜索已保存的记忆。注意：system prompt 中 Active Memories 已包含所有imp≥4 的高优记忆，如果答案已在其中则无需调用此工具。仅当需要查找 Active Memories 中没有的低优先级记忆时才调用。`,
     inputSchema: searchMemorySchema,
-    execute: async (args: Record<string, unknown>): Promise<ToolExecutionResult> => {
+    execute: async (args: Record<string, unknown>, caller: ToolCallerContext = {}): Promise<ToolExecutionResult> => {
       try {
         const query = args.query as string
         const cat = args.cat as string | undefined
         const limit = (args.limit as number) || 10
+        const mode = (args.mode as SearchMode) || 'hybrid'
 
-        let results = memoryDb.search(query, limit)
+        let results = await memoryDb.search(query, limit, mode, { userId: caller.userId, chatId: caller.chatId })
         if (cat) {
           results = results.filter(r => r.cat === cat)
         }
@@ -104,7 +153,7 @@ export function createMemoryTools(memoryDb: MemoryDB): RegisteredTool[] {
         }
 
         const formatted = results
-          .map(r => `[${r.cat}](imp=${r.imp}) ${r.text}`)
+          .map(r => `[${r.cat}](imp=${r.imp}) ${r.text}${r.expires_at ? ` (until ${formatMemoryTime(r.expires_at)})` : ''}`)
           .join('\n')
 
         return {
@@ -122,15 +171,19 @@ export function createMemoryTools(memoryDb: MemoryDB): RegisteredTool[] {
 
   const deleteMemoryTool: RegisteredTool = {
     name: 'delete_memory',
-    description: '删除记忆。用户明确要求忘记某些信息时调用。建议先 dry_run 预览。',
+    description:
+      '删除记忆。用户明确要求忘记某些信息时调用。建议先 dry_run 预览。' +
+      '非预览调用不会立即删除，而是提交删除请求，由管理员审核通过后才生效。',
     inputSchema: deleteMemorySchema,
-    execute: async (args: Record<string, unknown>): Promise<ToolExecutionResult> => {
+    permission: { level: ToolPermissionLevel.ADMIN },
+    execute: async (args: Record<string, unknown>, caller: ToolCallerContext = {}): Promise<ToolExecutionResult> => {
       try {
         const query = args.query as string
         const exact_match = (args.exact_match as boolean) || false
         const dry_run = args.dry_run !== false // 默认 true
+        const reason = (args.reason as string) || ''
 
-        const { count, entries } = memoryDb.delete(query, { exact_match, dry_run })
+        const { count, entries } = memoryDb.delete(query, { exact_match, dry_run: true })
 
         if (dry_run) {
           const preview = entries
@@ -142,9 +195,26 @@ export function createMemoryTools(memoryDb: MemoryDB): RegisteredTool[] {
           }
         }
 
+        if (count === 0) {
+          return {
+            success: true,
+            output: 'No matching memories to delete.',
+          }
+        }
+
+        const pending = stageMemoryReview(memoryDb, {
+          op: 'delete',
+          targets: entries.map(e => ({ ...e })),
+          query,
+          reason,
+          origin: 'tool',
+          requested_by: caller.userId,
+          session_id: caller.sessionId,
+        })
+
         return {
           success: true,
-          output: `Deleted ${count} memory entries.`,
+          output: `Deletion of ${count} memory entries submitted for admin review (pending #${pending.id}).`,
         }
       } catch (error) {
         return {
@@ -132,6 +132,7 @@ export function createTavilyTools(): RegisteredTool[] {
       '高精度搜索(search_depth=advanced)。',
     ].join(''),
     inputSchema: tavilySearchSchema,
+    rateLimit: { perMinute: 10, perDay: 300 },
     execute: async (args: Record<string, unknown>) => {
       try {
         // 构建请求参数，移除 undefined 值
@@ -164,6 +165,7 @@ export function createTavilyTools(): RegisteredTool[] {
       '适用于: 深入阅读搜索结果、提取文章全文、批量抓取页面内容。',
     ].join(''),
     inputSchema: tavilyExtractSchema,
+    rateLimit: { perMinute: 10, perDay: 300 },
     execute: async (args: Record<string, unknown>) => {
       try {
         console.log('Tavily 提取工具参数:', args)
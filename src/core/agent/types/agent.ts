@@ -1,4 +1,11 @@
 import type { SDKMessage, SDKToolUseSummaryMessage } from '@anthropic-ai/claude-agent-sdk'
+import type { OutputSchema } from '../engine/structured-output.js'
+
+// 会话来源（飞书会话 / 话题）
+export interface FeishuSessionOrigin {
+  chatId: string
+  threadId?: string
+}
 
 // 会话配置
 export interface SessionConfig {
@@ -6,6 +13,61 @@ export interface SessionConfig {
   userId?: string
   maxContextLength?: number
   enableMemory?: boolean
+  /** 来源飞书会话，用于重启后恢复 chat → session 映射 */
+  feishu?: FeishuSessionOrigin
+}
+
+// 单轮 query 的调用方上下文
+export interface QueryContext {
+  /** 发信人 ID（飞书 open_id），用于工具权限校验 */
+  userId?: string
+  /** userId 来自请求体等未经验证的来源：只用于用量归属与会话归属，不参与工具权限校验 */
+  userIdUnverified?: boolean
+  /** 系统内部调用（内置的自迭代、记忆整理任务），工具不做权限限制；用户创建的定时任务以创建人 userId 调用 */
+  system?: boolean
+  /** 来源飞书会话 ID，用于用量归属 */
+  chatId?: string
+  /** 触发本轮的定时任务 ID，用于用量归属 */
+  cronJobId?: string
+  /** 本轮调用的 Skill 名称，在 result 时求值（来自 TraceCollector timeline），用于用量归属 */
+  skills?: () => string[]
+  /** 本轮费用上限（USD），超出时 SDK 中止本轮，由 BudgetGuard 按剩余预算计算 */
+  maxBudgetUsd?: number
+  /** 本轮首选模型，缺省使用默认模型（CLAUDE_MODEL）；过载 / 限流时按回退链切换 */
+  model?: string
+  /** 结构化输出：最终回复需符合该 JSON Schema / zod schema（仅非流式调用） */
+  outputSchema?: OutputSchema
+  /** 结构化输出校验失败后的重新提示次数，默认 STRUCTURED_OUTPUT_CONFIG.MAX_RETRIES */
+  maxOutputRetries?: number
+  /** 不挂载任何工具与 MCP Server、不读取项目设置（记忆提取 / 整理等处理不可信文本的辅助调用） */
+  toolFree?: boolean
+  /** 中止本轮调用（非流式调用，如定时任务工作流步骤超时）；中止后不再重试 */
+  abortController?: AbortController
+}
+
+// 瞬时故障重试信息
+export interface RetryInfo {
+  /** 第几次重试（从 1 开始） */
+  attempt: number
+  maxRetries: number
+  /** 本次重试前的退避时间（ms） */
+  delayMs: number
+  /** 失败原因 */
+  reason: string
+}
+
+// 单轮 query 的 token 用量与费用（来自 SDK result 消息）
+export interface TurnUsage {
+  inputTokens: number
+  outputTokens: number
+  cacheReadInputTokens: number
+  cacheCreationInputTokens: number
+  costUsd: number
+  durationMs: number
+  /** SDK 内部 agent 循环轮数 */
+  numTurns: number
+  /** 本轮实际使用的模型（含 Sub-Agent） */
+  models: string[]
 }
 
 // 工具定义
@@ -24,12 +86,23 @@ export interface SessionState {
   createdAt: Date
   updatedAt: Date
   contextLength: number
+  userMessageCount: number
+  assistantMessageCount: number
+  /** SDK 分配的 session_id（resume 用） */
+  resumeSessionId?: string
+  /** 来源飞书会话 */
+  feishu?: FeishuSessionOrigin
+  /** 会话级模型（飞书 /model 指令设置），缺省使用默认模型 */
+  model?: string
 }
 
 // Agent 响应类型
 export interface AgentResponse {
   content: string
   toolCalls?: SDKToolUseSummaryMessage[]
+  usage?: TurnUsage
+  /** 结构化输出模式下校验通过的解析结果 */
+  parsed?: unknown
 }
 
 // 流式响应事件
@@ -74,4 +147,10 @@ export interface EventHandlers {
    */
   onToolUseStop?: (toolName: string, result: any, parentToolUseId?: string | null, toolUseId?: string) => Promise<void>
   onError?: (error: string) => Promise<void>
+  /** 本轮用量（result 消息到达时触发，早于 onContentStop） */
+  onUsage?: (usage: TurnUsage) => Promise<void>
+  /** 费用预算已用尽（本轮被拒绝或中止），未提供时回退到 onError */
+  onBudgetExceeded?: (message: string) => Promise<void>
+  /** 瞬时故障（过载 / 限流 / 网络）即将重试 */
+  onRetry?: (info: RetryInfo) => Promise<void>
 }
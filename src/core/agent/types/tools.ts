@@ -27,6 +27,29 @@ export interface ToolPermission {
   allowedUsers?: string[] // 用户ID列表，仅对USER级别有效
 }
 
+// 工具限流配置（各维度独立计数，任一超限即拒绝）
+export interface ToolRateLimit {
+  /** 每分钟最大调用次数（全局） */
+  perMinute?: number
+  /** 单个会话内最大调用次数（会话删除前不会重置，不适合长期存在的飞书会话） */
+  perSession?: number
+  /** 每个自然日（Asia/Shanghai）最大调用次数（全局），0 点重置 */
+  perDay?: number
+}
+
+// 工具调用方上下文（每轮 query 绑定一次，用于权限校验）
+export interface ToolCallerContext {
+  sessionId?: string
+  /** 已验证的发信人 open_id（来自飞书事件）；为空且非系统调用时只能使用 PUBLIC 工具 */
+  userId?: string
+  /** 系统内部调用（内置的自迭代、记忆整理任务），不做权限限制 */
+  system?: boolean
+  /** userId 是否为管理员（由 ToolManager 执行工具前填充），供按参数细分权限的工具使用 */
+  isAdmin?: boolean
+  /** 来源飞书会话 ID，供记忆作用域等按会话区分的工具使用 */
+  chatId?: string
+}
+
 // 工具调用统计
 export interface ToolCallStats {
   totalCalls: number
@@ -40,7 +63,12 @@ export interface RegisteredTool {
   name: string
   description: string
   inputSchema: Record<string, z.ZodType>
-  execute: (args: Record<string, any>) => Promise<ToolExecutionResult>
+  /** @param caller - 本轮调用方（发信人 / 飞书会话），系统内部调用时为空 */
+  execute: (args: Record<string, any>, caller?: ToolCallerContext) => Promise<ToolExecutionResult>
+  /** 权限配置，缺省为 PUBLIC */
+  permission?: ToolPermission
+  /** 限流配置，缺省不限流 */
+  rateLimit?: ToolRateLimit
 }
 
 // 工具调用请求
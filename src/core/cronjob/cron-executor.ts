@@ -1,17 +1,55 @@
 /**
  * CronJob 任务执行器
  * 
- * 按 taskType 分发执行，执行完毕后：
- * 1. 更新任务的 lastRunAt / lastRunStatus
- * 2. 追加执行日志
- * 3. 将结果发送到飞书 chatId（直接发到 chat 顶层，不回话题）
+ * 按 taskType 分发执行，失败时按任务的 retry 策略退避重试，每次尝试都追加一条执行日志。
+ * workflow 任务按步骤依赖执行，各步骤结果记录在执行日志的 steps 中（见 workflow.ts）；
+ * 重试时沿用上次尝试中已成功步骤的结果，只从失败 / 未执行的步骤继续。
+ * 执行完毕后：
+ * 1. 更新任务的 lastRunAt / lastRunStatus / consecutiveFailures
+ * 2. 将结果发送到飞书 chatId（直接发到 chat 顶层，不回话题）
+ * 3. 重试耗尽且连续失败达到 maxConsecutiveFailures 时自动禁用任务，并升级告警到管理员会话
+ * 预算超额（BudgetExceededError）记为跳过：不重试，也不计入连续失败次数
  */
 
-import type { CronJob } from './types.js'
+import {
+  CRON_RETRY_DEFAULTS,
+  WORKFLOW_DEFAULTS,
+  getDefaultMaxAttempts,
+  type CronJob,
+  type CronRetryPolicy,
+  type WorkflowConfig,
+  type WorkflowStep,
+  type WorkflowStepResult,
+} from './types.js'
 import type { CronStore } from './cron-store.js'
+import { describeJobSchedule, formatWithTimezone, getJobTimezone, getTemplateVariables } from './timezone.js'
+import {
+  WorkflowError,
+  WorkflowStepTimeoutError,
+  buildStepEnv,
+  evaluateCondition,
+  formatWorkflowSummary,
+  getStepDependencies,
+  hashOutput,
+  renderStepTemplate,
+  runWithTimeout,
+  validateWorkflow,
+} from './workflow.js'
 import { getAgentEngine } from '../agent-registry.js'
+import { BudgetExceededError } from '../agent/engine/budget-guard.js'
+import { sleep } from '../agent/engine/retry-policy.js'
 import { getDefaultFeishuAgentBridge } from '../../services/feishu/feishu-agent-bridge.js'
-import { execSync } from 'child_process'
+import { exec, execSync } from 'child_process'
+import { promisify } from 'util'
+
+const execAsync = promisify(exec)
+
+/** 单次执行的结果 */
+interface DispatchResult {
+  output: string
+  /** workflow 各步骤结果 */
+  steps?: WorkflowStepResult[]
+}
 
 export class CronExecutor {
   private store: CronStore
@@ -21,75 +59,188 @@ export class CronExecutor {
   }
 
   /**
-   * 执行一个 CronJob
+   * 执行一个 CronJob（含重试）
+   * @param scheduledAt - 对应的计划执行时间，手动触发时为空
    */
-  async execute(job: CronJob): Promise<void> {
-    console.log(`⏰ 执行定时任务: [${job.name}] (${job.id})`)
-    const startedAt = Date.now()
+  async execute(job: CronJob, scheduledAt?: number): Promise<void> {
+    const policy = this.getRetryPolicy(job)
+    // workflow 各次尝试间共享的已成功步骤
+    const completedSteps = new Map<string, WorkflowStepResult>()
+    let lastError: unknown
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      console.log(`⏰ 执行定时任务: [${job.name}] (${job.id})${attempt > 1 ? ` 第 ${attempt}/${policy.maxAttempts} 次尝试` : ''}`)
+      const startedAt = Date.now()
+
+      try {
+        const { output, steps } = await this.dispatch(job, scheduledAt, completedSteps)
+        const finishedAt = Date.now()
+
+        // 更新任务状态
+        this.store.updateJob(job.id, {
+          lastRunAt: finishedAt,
+          lastRunStatus: 'success',
+          consecutiveFailures: 0,
+        })
+
+        // 追加日志
+        this.store.appendLog({
+          jobId: job.id,
+          jobName: job.name,
+          startedAt,
+          finishedAt,
+          status: 'success',
+          scheduledAt,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          result: output.slice(0, 500),
+          steps,
+        })
+
+        console.log(`✅ 定时任务完成: [${job.name}] 耗时 ${((finishedAt - startedAt) / 1000).toFixed(1)}s`)
+        return
+      } catch (error) {
+        lastError = error
+        const errMsg = error instanceof Error ? error.message : '未知错误'
+        // 预算超额重试也不会成功
+        const budgetExceeded = error instanceof BudgetExceededError
+        const willRetry = attempt < policy.maxAttempts && !budgetExceeded
+
+        this.store.appendLog({
+          jobId: job.id,
+          jobName: job.name,
+          startedAt,
+          finishedAt: Date.now(),
+          status: budgetExceeded ? 'skipped' : 'failed',
+          scheduledAt,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          willRetry,
+          error: errMsg.slice(0, 500),
+          steps: error instanceof WorkflowError ? error.steps : undefined,
+        })
+
+        if (!willRetry) break
+
+        const delay = this.computeRetryDelay(policy, attempt)
+        console.warn(`⚠️ 定时任务失败: [${job.name}] 第 ${attempt}/${policy.maxAttempts} 次，${Math.round(delay / 1000)}s 后重试: ${errMsg}`)
+        await sleep(delay)
+      }
+    }
 
-    try {
-      const result = await this.dispatch(job)
-      const finishedAt = Date.now()
+    if (lastError instanceof BudgetExceededError) {
+      await this.handleBudgetSkip(job, lastError)
+      return
+    }
+    await this.handleFailure(job, lastError)
+  }
 
-      // 更新任务状态
-      this.store.updateJob(job.id, {
-        lastRunAt: finishedAt,
-        lastRunStatus: 'success',
-      })
+  /**
+   * 预算超额：本次跳过，不计入连续失败（超额告警由 BudgetGuard 发送）
+   */
+  private async handleBudgetSkip(job: CronJob, error: BudgetExceededError): Promise<void> {
+    this.store.updateJob(job.id, { lastRunAt: Date.now() })
 
-      // 追加日志
-      this.store.appendLog({
-        jobId: job.id,
-        jobName: job.name,
-        startedAt,
-        finishedAt,
-        status: 'success',
-        result: typeof result === 'string' ? result.slice(0, 500) : undefined,
-      })
+    if (job.notifyChatId) {
+      await this.notify(job.notifyChatId, `⏭️ 定时任务 [${job.name}] 因预算超额跳过:\n${error.message}`)
+    }
 
-      console.log(`✅ 定时任务完成: [${job.name}] 耗时 ${((finishedAt - startedAt) / 1000).toFixed(1)}s`)
-    } catch (error) {
-      const errMsg = error instanceof Error ? error.message : '未知错误'
-      const finishedAt = Date.now()
+    console.warn(`💰 定时任务跳过: [${job.name}] ${error.message}`)
+  }
 
-      // 更新任务状态
-      this.store.updateJob(job.id, {
-        lastRunAt: finishedAt,
-        lastRunStatus: 'failed',
-      })
+  /**
+   * 重试耗尽：更新连续失败次数，通知 notifyChatId；达到阈值时自动禁用并升级告警
+   */
+  private async handleFailure(job: CronJob, error: unknown): Promise<void> {
+    const errMsg = error instanceof Error ? error.message : '未知错误'
+    const consecutiveFailures = (this.store.getJob(job.id)?.consecutiveFailures ?? 0) + 1
+    const threshold = job.maxConsecutiveFailures ?? CRON_RETRY_DEFAULTS.MAX_CONSECUTIVE_FAILURES
+    const shouldDisable = threshold > 0 && consecutiveFailures >= threshold
+
+    // 更新任务状态
+    this.store.updateJob(job.id, {
+      lastRunAt: Date.now(),
+      lastRunStatus: 'failed',
+      consecutiveFailures,
+      ...(shouldDisable
+        ? { enabled: false, disabledReason: `连续失败 ${consecutiveFailures} 次，已自动禁用` }
+        : {}),
+    })
+
+    // 失败也通知飞书（self_iteration 无 chatId 则跳过）
+    if (job.notifyChatId) {
+      const suffix = shouldDisable ? `\n\n⏸️ 已连续失败 ${consecutiveFailures} 次，任务已自动禁用` : ''
+      await this.notify(job.notifyChatId, `❌ 定时任务 [${job.name}] 执行失败:\n${errMsg}${suffix}`)
+    }
 
-      // 追加日志
-      this.store.appendLog({
-        jobId: job.id,
-        jobName: job.name,
-        startedAt,
-        finishedAt,
-        status: 'failed',
-        error: errMsg.slice(0, 500),
-      })
+    if (shouldDisable) {
+      await this.escalate(job, consecutiveFailures, errMsg)
+    }
 
-      // 失败也通知飞书（self_iteration 无 chatId 则跳过）
-      if (job.notifyChatId) {
-        await this.notify(job.notifyChatId, `❌ 定时任务 [${job.name}] 执行失败:\n${errMsg}`)
-      }
+    console.error(`❌ 定时任务失败: [${job.name}] 连续失败 ${consecutiveFailures} 次${shouldDisable ? '，已自动禁用' : ''}`, error)
+  }
+
+  /**
+   * 升级告警：发送到管理员会话（与 notifyChatId 相同时不重复发送）
+   */
+  private async escalate(job: CronJob, consecutiveFailures: number, errMsg: string): Promise<void> {
+    const target = job.escalationChatId
+      || process.env.CRON_ESCALATION_CHAT_ID
+      || process.env.FEISHU_ALERT_OPEN_ID
+      || ''
+    if (!target || target === job.notifyChatId) {
+      console.warn(`⚠️ 定时任务 [${job.name}] 已自动禁用，但未配置不同于通知会话的升级告警会话`)
+      return
+    }
+
+    await this.notify(target, [
+      `🚨 定时任务 [${job.name}] 连续失败 ${consecutiveFailures} 次，已自动禁用`,
+      `ID: ${job.id}`,
+      `调度: ${describeJobSchedule(job)} | 类型: ${job.taskType}`,
+      `通知会话: ${job.notifyChatId || '-'}`,
+      `最近错误: ${errMsg.slice(0, 500)}`,
+      '排查后可通过 manage_cronjob enable 重新启用',
+    ].join('\n'))
+  }
 
-      console.error(`❌ 定时任务失败: [${job.name}]`, error)
+  private getRetryPolicy(job: CronJob): CronRetryPolicy {
+    return {
+      maxAttempts: Math.max(1, job.retry?.maxAttempts ?? getDefaultMaxAttempts(job.taskType)),
+      backoffMs: job.retry?.backoffMs ?? CRON_RETRY_DEFAULTS.BACKOFF_MS,
+      backoffMultiplier: job.retry?.backoffMultiplier ?? CRON_RETRY_DEFAULTS.BACKOFF_MULTIPLIER,
     }
   }
 
+  /**
+   * 第 attempt 次失败后的等待时间：backoffMs * multiplier^(attempt - 1)
+   */
+  private computeRetryDelay(policy: CronRetryPolicy, attempt: number): number {
+    return policy.backoffMs * (policy.backoffMultiplier ?? 1) ** (attempt - 1)
+  }
+
   /**
    * 按 taskType 分发
    */
-  private async dispatch(job: CronJob): Promise<string> {
+  private async dispatch(
+    job: CronJob,
+    scheduledAt: number | undefined,
+    completedSteps: Map<string, WorkflowStepResult>,
+  ): Promise<DispatchResult> {
     switch (job.taskConfig.type) {
       case 'agent_prompt':
-        return await this.executeAgentPrompt(job)
+        return { output: await this.executeAgentPrompt(job) }
       case 'feishu_notify':
-        return await this.executeFeishuNotify(job)
+        return { output: await this.executeFeishuNotify(job) }
       case 'custom_script':
-        return await this.executeCustomScript(job)
+        return { output: await this.executeCustomScript(job) }
       case 'self_iteration':
-        return await this.executeSelfIteration(job)
+        return { output: await this.executeSelfIteration(job) }
+      case 'memory_consolidation':
+        return { output: await this.executeMemoryConsolidation(job) }
+      case 'reminder':
+        return { output: await this.executeReminder(job, scheduledAt) }
+      case 'workflow':
+        return await this.executeWorkflow(job, completedSteps)
       default:
         throw new Error(`未知任务类型: ${(job.taskConfig as any).type}`)
     }
@@ -100,22 +251,19 @@ export class CronExecutor {
    */
   private async executeAgentPrompt(job: CronJob): Promise<string> {
     const config = job.taskConfig as import('./types.js').AgentPromptConfig
-    const sessionId = `cron_${job.id}_${Date.now()}`
 
-    // 注入时间上下文
-    const timeStr = new Date().toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })
-    const enrichedPrompt = `[系统：这是定时任务「${job.name}」的自动执行，当前时间 ${timeStr}]\n\n${config.prompt}`
-
-    const engine = getAgentEngine()
-    const response = await engine.sendMessage(sessionId, enrichedPrompt)
+    // 注入时间上下文（按任务时区）
+    const timeStr = formatWithTimezone(Date.now(), getJobTimezone(job))
+    const content = await this.askAgent(
+      job,
+      `cron_${job.id}_${Date.now()}`,
+      `[系统：这是定时任务「${job.name}」的自动执行，当前时间 ${timeStr}]\n\n${config.prompt}`,
+      config.model,
+    )
 
     // 推送结果到飞书
-    await this.notify(job.notifyChatId, response.content)
-
-    // 清理临时 session
-    engine.deleteSession(sessionId)
-
-    return response.content
+    await this.notify(job.notifyChatId, content)
+    return content
   }
 
   /**
@@ -127,18 +275,15 @@ export class CronExecutor {
 
     if (config.agentPrompt) {
       // 动态模式：让 Agent 生成消息
-      const sessionId = `cron_notify_${job.id}_${Date.now()}`
-      const timeStr = new Date().toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' })
-      const engine = getAgentEngine()
-      const response = await engine.sendMessage(
-        sessionId,
-        `[系统：这是定时通知任务「${job.name}」，当前时间 ${timeStr}]\n\n${config.agentPrompt}`
+      const timeStr = formatWithTimezone(Date.now(), getJobTimezone(job))
+      message = await this.askAgent(
+        job,
+        `cron_notify_${job.id}_${Date.now()}`,
+        `[系统：这是定时通知任务「${job.name}」，当前时间 ${timeStr}]\n\n${config.agentPrompt}`,
       )
-      message = response.content
-      engine.deleteSession(sessionId)
     } else if (config.messageTemplate) {
       // 静态模板
-      message = this.renderTemplate(config.messageTemplate)
+      message = this.renderTemplate(config.messageTemplate, getJobTimezone(job))
     } else {
       throw new Error('feishu_notify 必须配置 messageTemplate 或 agentPrompt')
     }
@@ -178,7 +323,7 @@ export class CronExecutor {
 
     // 创建独立 ClaudeEngine 实例（不污染主会话）
     const engine = new ClaudeEngine()
-    const checker = new IterationChecker(engine)
+    const checker = new IterationChecker(engine, job.id)
 
     console.log(`🌙 [CronExecutor] Starting self-iteration: skills=${JSON.stringify(config.skills)}`)
 
@@ -211,6 +356,237 @@ export class CronExecutor {
     return summary
   }
 
+  /**
+   * memory_consolidation: 记忆定期整理 — 满足触发条件时合并 / 改写相似记忆，报告发送给管理员
+   * notifyChatId 为空时发送给 FEISHU_ALERT_OPEN_ID
+   */
+  private async executeMemoryConsolidation(job: CronJob): Promise<string> {
+    const config = job.taskConfig as import('./types.js').MemoryConsolidationTaskConfig
+
+    // 动态 import 避免循环依赖
+    const { MemoryConsolidator, formatConsolidationReport } = await import('../agent/engine/memory-consolidator.js')
+    const { ClaudeEngine } = await import('../agent/engine/claude-engine.js')
+
+    // 创建独立 ClaudeEngine 实例（不污染主会话），预算与主引擎共用同一 BudgetGuard
+    const agentEngine = getAgentEngine()
+    const consolidator = new MemoryConsolidator(agentEngine.getMemoryDb(), new ClaudeEngine(), agentEngine.getBudgetGuard())
+    const report = await consolidator.run({ dryRun: config.dryRun, cronJobId: job.id })
+    if (!report) {
+      return '未满足触发条件，跳过'
+    }
+
+    const summary = formatConsolidationReport(report)
+    await this.notify(job.notifyChatId || process.env.FEISHU_ALERT_OPEN_ID || '', summary)
+    return summary
+  }
+
+  /**
+   * reminder: 一次性提醒 — 发送提醒卡片并 @ 提醒发起人
+   */
+  private async executeReminder(job: CronJob, scheduledAt?: number): Promise<string> {
+    const config = job.taskConfig as import('./types.js').ReminderConfig
+
+    const bridge = getDefaultFeishuAgentBridge()
+    if (!bridge?.isBridgeConnected()) {
+      throw new Error('飞书服务未连接，无法发送提醒')
+    }
+    await bridge.sendReminderCard(job.notifyChatId, {
+      message: config.message,
+      mentionUserId: config.mentionUserId,
+      scheduledTime: formatWithTimezone(scheduledAt ?? job.runAt ?? Date.now(), getJobTimezone(job)),
+    })
+    return config.message
+  }
+
+  /**
+   * workflow: 按依赖关系分批执行步骤（同一批互不依赖的步骤并行），任一步骤失败（未设置 continueOnError）则中止
+   * 全部成功后记录各步骤的输出摘要，供下次运行的 changed / unchanged 条件比较
+   * @param completedSteps - 之前尝试中已成功的步骤（不重新执行，如已发出的 feishu_notify），本次成功的步骤也记入其中
+   */
+  private async executeWorkflow(job: CronJob, completedSteps: Map<string, WorkflowStepResult>): Promise<DispatchResult> {
+    const config = job.taskConfig as WorkflowConfig
+    const errors = validateWorkflow(config)
+    if (errors.length > 0) {
+      throw new Error(`workflow 配置无效: ${errors.join('；')}`)
+    }
+
+    const results = new Map<string, WorkflowStepResult>(
+      [...completedSteps].map(([id, result]) => [id, { ...result, reason: '沿用上次尝试的结果' }]),
+    )
+    let pending = config.steps
+      .map((step, index) => ({ step, deps: getStepDependencies(config, index) }))
+      .filter(({ step }) => !results.has(step.id))
+    let aborted: WorkflowStepResult | null = null
+
+    while (pending.length > 0 && !aborted) {
+      const ready = pending.filter(({ deps }) => deps.every(id => results.has(id)))
+      pending = pending.filter(item => !ready.includes(item))
+
+      const batch = await Promise.all(ready.map(({ step, deps }) => this.runWorkflowStep(job, config, step, deps, results)))
+      for (const [i, result] of batch.entries()) {
+        results.set(result.id, result)
+        if (result.status === 'success') completedSteps.set(result.id, result)
+        const failed = result.status === 'failed' || result.status === 'timeout'
+        if (failed && !ready[i]!.step.continueOnError) aborted ??= result
+      }
+    }
+
+    const steps = config.steps.map(step => {
+      const result = results.get(step.id)
+        ?? { id: step.id, type: step.task.type, status: 'skipped' as const, reason: '工作流已中止' }
+      return result.output === undefined ? result : { ...result, output: result.output.slice(0, 500) }
+    })
+
+    if (aborted) {
+      throw new WorkflowError(`步骤 ${aborted.id} 失败: ${aborted.error ?? '未知错误'}`, steps)
+    }
+
+    const hashes = { ...job.workflowOutputHashes }
+    for (const result of results.values()) {
+      if (result.status === 'success') hashes[result.id] = hashOutput(result.output ?? '')
+    }
+    this.store.updateJob(job.id, { workflowOutputHashes: hashes })
+
+    return { output: formatWorkflowSummary(steps), steps }
+  }
+
+  /**
+   * 执行单个工作流步骤：依赖未成功或条件不满足时跳过
+   */
+  private async runWorkflowStep(
+    job: CronJob,
+    config: WorkflowConfig,
+    step: WorkflowStep,
+    deps: string[],
+    results: Map<string, WorkflowStepResult>,
+  ): Promise<WorkflowStepResult> {
+    const base = { id: step.id, type: step.task.type }
+
+    const blocked = deps.find((id) => {
+      const dep = results.get(id)!
+      const tolerated = dep.status !== 'skipped' && config.steps.find(s => s.id === id)?.continueOnError
+      return dep.status !== 'success' && !tolerated
+    })
+    if (blocked) {
+      return { ...base, status: 'skipped', reason: `依赖步骤 ${blocked} 未成功` }
+    }
+
+    if (step.when) {
+      const { passed, reason } = evaluateCondition(step.when, results, job.workflowOutputHashes)
+      if (!passed) return { ...base, status: 'skipped', reason }
+    }
+
+    const timeoutMs = step.timeoutMs
+      ?? (step.task.type === 'custom_script' ? step.task.timeout || 30000 : WORKFLOW_DEFAULTS.STEP_TIMEOUT_MS)
+    const startedAt = Date.now()
+    try {
+      const output = await runWithTimeout(
+        abortController => this.executeWorkflowTask(job, step, results, timeoutMs, abortController),
+        timeoutMs,
+      )
+      console.log(`✅ 工作流步骤完成: [${job.name}] ${step.id} 耗时 ${((Date.now() - startedAt) / 1000).toFixed(1)}s`)
+      return { ...base, status: 'success', startedAt, finishedAt: Date.now(), output }
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message.trim() : '未知错误'
+      const timedOut = error instanceof WorkflowStepTimeoutError || (error as { killed?: boolean }).killed === true
+      console.warn(`⚠️ 工作流步骤失败: [${job.name}] ${step.id}: ${errMsg}`)
+      return {
+        ...base,
+        status: timedOut ? 'timeout' : 'failed',
+        startedAt,
+        finishedAt: Date.now(),
+        error: errMsg.slice(0, 500),
+      }
+    }
+  }
+
+  /**
+   * 工作流步骤任务：agent_prompt 只返回结果不推送，feishu_notify 推送到 notifyChatId，
+   * custom_script 通过环境变量读取前序步骤输出
+   * 步骤超时后 abortController 被中止：Agent 查询停止、脚本子进程被终止，且不再推送
+   */
+  private async executeWorkflowTask(
+    job: CronJob,
+    step: WorkflowStep,
+    results: Map<string, WorkflowStepResult>,
+    timeoutMs: number,
+    abortController: AbortController,
+  ): Promise<string> {
+    const timezone = getJobTimezone(job)
+    const render = (template: string) => this.renderTemplate(renderStepTemplate(template, results), timezone)
+    const timeStr = formatWithTimezone(Date.now(), timezone)
+    const systemHint = `[系统：这是定时任务「${job.name}」工作流步骤「${step.id}」的自动执行，当前时间 ${timeStr}]`
+
+    switch (step.task.type) {
+      case 'agent_prompt':
+        return await this.askAgent(
+          job,
+          `cron_workflow_${job.id}_${step.id}_${Date.now()}`,
+          `${systemHint}\n\n${render(step.task.prompt)}`,
+          step.task.model,
+          abortController,
+        )
+      case 'feishu_notify': {
+        let message: string
+        if (step.task.agentPrompt) {
+          message = await this.askAgent(
+            job,
+            `cron_workflow_${job.id}_${step.id}_${Date.now()}`,
+            `${systemHint}\n\n${render(step.task.agentPrompt)}`,
+            undefined,
+            abortController,
+          )
+        } else if (step.task.messageTemplate) {
+          message = render(step.task.messageTemplate)
+        } else {
+          throw new Error('feishu_notify 必须配置 messageTemplate 或 agentPrompt')
+        }
+        abortController.signal.throwIfAborted()
+        await this.notify(job.notifyChatId, message)
+        return message
+      }
+      case 'custom_script': {
+        const { stdout } = await execAsync(step.task.command, {
+          encoding: 'utf-8',
+          timeout: timeoutMs,
+          signal: abortController.signal,
+          env: { ...process.env, ...buildStepEnv(results) },
+        })
+        return stdout.trim()
+      }
+      default:
+        throw new Error(`工作流不支持的步骤类型: ${(step.task as any).type}`)
+    }
+  }
+
+  /**
+   * 在临时 session 中执行 prompt，返回 Agent 回复
+   * 以任务创建人的身份校验工具权限（不是 system 调用），避免普通用户借定时任务调用管理员工具
+   * @param abortController - 中止后停止 Agent 查询（工作流步骤超时）
+   */
+  private async askAgent(
+    job: CronJob,
+    sessionId: string,
+    prompt: string,
+    model?: string,
+    abortController?: AbortController,
+  ): Promise<string> {
+    const engine = getAgentEngine()
+    try {
+      const response = await engine.sendMessage(sessionId, prompt, undefined, undefined, {
+        chatId: job.notifyChatId || undefined,
+        cronJobId: job.id,
+        userId: job.createdBy,
+        model,
+        abortController,
+      })
+      return response.content
+    } finally {
+      // 清理临时 session
+      engine.deleteSession(sessionId)
+    }
+  }
+
   /**
    * 发送飞书消息（直接发到 chat 顶层，不回话题）
    */
@@ -229,20 +605,15 @@ export class CronExecutor {
   }
 
   /**
-   * 渲染消息模板变量
+   * 渲染消息模板变量（按任务时区）
    */
-  private renderTemplate(template: string): string {
-    const now = new Date()
-    const opts = { timeZone: 'Asia/Shanghai' } as const
-
-    const shanghaiDay = new Date(
-      now.toLocaleString('en-US', { timeZone: 'Asia/Shanghai' })
-    ).getDay()
+  private renderTemplate(template: string, timezone: string): string {
+    const vars = getTemplateVariables(new Date(), timezone)
 
     return template
-      .replace(/\{\{date\}\}/g, now.toLocaleDateString('zh-CN', opts))
-      .replace(/\{\{time\}\}/g, now.toLocaleTimeString('zh-CN', opts))
-      .replace(/\{\{datetime\}\}/g, now.toLocaleString('zh-CN', opts))
-      .replace(/\{\{weekday\}\}/g, ['日', '一', '二', '三', '四', '五', '六'][shanghaiDay] as string)
+      .replace(/\{\{date\}\}/g, vars.date)
+      .replace(/\{\{time\}\}/g, vars.time)
+      .replace(/\{\{datetime\}\}/g, vars.datetime)
+      .replace(/\{\{weekday\}\}/g, vars.weekday)
   }
 }
@@ -3,14 +3,28 @@
  * 
  * 每 30 秒 tick 一次，遍历启用的任务，到期则执行。
  * - 防重入：内存 Set 记录正在执行的 jobId
- * - 重启恢复：从文件读取 lastRunAt，自动补执行错过的任务
+ * - 错过运行：重启或上次执行过久时，从 lastScheduledAt 往后找出所有错过的计划时间点，
+ *   按任务的 misfirePolicy（skip / run_once / run_all）与最大允许延迟（getMisfireGraceMs）决定补跑哪些，
+ *   未补跑的以 skipped 状态写入执行日志
+ * - 一次性任务（runAt）：到期执行一次（同样遵循 misfirePolicy），执行前即归档（执行中重启也不会重复执行），跳过时同样归档
  * - 日志清理：启动时 + 每天凌晨清理过期日志
  */
 
-import cronParser from 'cron-parser'
+import cronParser, { type CronExpression, type ParserOptions } from 'cron-parser'
 import { CronStore } from './cron-store.js'
 import { CronExecutor } from './cron-executor.js'
-import type { CronJob } from './types.js'
+import { formatInTimezone, getJobTimezone } from './timezone.js'
+import { CRON_MISFIRE_DEFAULTS, getMisfireGraceMs, type CronJob } from './types.js'
+
+/** 一次 tick 的执行计划 */
+interface RunPlan {
+  /** 需要执行的计划时间点（升序） */
+  runs: number[]
+  /** 跳过的计划时间点及原因（回溯上限之外的合并为一条，无 scheduledAt） */
+  skipped: Array<{ scheduledAt?: number; reason: string }>
+  /** 本次处理到的最新计划时间点 */
+  lastScheduledAt: number
+}
 
 export class CronScheduler {
   private store: CronStore
@@ -19,6 +33,10 @@ export class CronScheduler {
   private cleanupTimer: ReturnType<typeof setInterval> | null = null
   private runningJobs = new Set<string>()
   private readonly TICK_INTERVAL = 30_000 // 30 秒
+  /** 延迟在此范围内视为准点，超过则视为错过 */
+  private readonly ON_TIME_TOLERANCE = 2 * this.TICK_INTERVAL
+  /** 单次最多回溯的错过时间点数，更早的合并为一条 skipped 日志 */
+  private readonly MAX_MISFIRE_SCAN = 100
 
   constructor() {
     this.store = new CronStore()
@@ -67,7 +85,7 @@ export class CronScheduler {
   }
 
   /**
-   * 每个 tick：扫描到期任务并执行
+   * 每个 tick：扫描到期任务，按 misfirePolicy 执行或跳过
    */
   private async tick(): Promise<void> {
     const now = Date.now()
@@ -77,28 +95,135 @@ export class CronScheduler {
       // 防重入
       if (this.runningJobs.has(job.id)) continue
 
-      // 计算下次执行时间
-      const nextRun = this.getNextRunTime(job)
-      if (nextRun !== null && nextRun <= now) {
-        this.runningJobs.add(job.id)
+      const plan = this.planRuns(job, now)
+      if (!plan) continue
 
-        // 异步执行，不阻塞 tick 循环
-        this.executor.execute(job).finally(() => {
-          this.runningJobs.delete(job.id)
+      this.store.updateJob(job.id, { lastScheduledAt: plan.lastScheduledAt })
+      for (const { scheduledAt, reason } of plan.skipped) {
+        this.store.appendLog({
+          jobId: job.id,
+          jobName: job.name,
+          startedAt: now,
+          finishedAt: now,
+          status: 'skipped',
+          scheduledAt,
+          result: reason,
         })
       }
+      if (plan.skipped.length > 0) {
+        console.log(`⏭️ 定时任务 [${job.name}] 跳过 ${plan.skipped.length} 次错过的运行，补跑 ${plan.runs.length} 次`)
+      }
+      // 一次性任务先归档（标记为已消费）再执行：执行结果只记入日志，崩溃重启后不会再次触发
+      if (job.runAt !== undefined) this.store.archiveJob(job.id)
+      if (plan.runs.length === 0) continue
+
+      this.runningJobs.add(job.id)
+
+      // 异步执行，不阻塞 tick 循环
+      this.runSequentially(job, plan.runs).finally(() => {
+        this.runningJobs.delete(job.id)
+      })
+    }
+  }
+
+  /**
+   * 依次执行计划时间点（run_all 补跑多次时，任务中途被禁用则停止）
+   */
+  private async runSequentially(job: CronJob, runs: number[]): Promise<void> {
+    for (const [i, scheduledAt] of runs.entries()) {
+      const current = i === 0 ? job : this.store.getJob(job.id)
+      if (!current?.enabled) return
+      await this.executor.execute(current, scheduledAt)
+    }
+  }
+
+  /**
+   * 找出 lastScheduledAt 之后到 now 为止的所有计划时间点，按补偿策略分为执行 / 跳过
+   * 没有到期的时间点时返回 null
+   */
+  private planRuns(job: CronJob, now: number): RunPlan | null {
+    const due = this.getDueRunTimes(job, now)
+    if (!due || due.times.length === 0) return null
+
+    const timezone = getJobTimezone(job)
+    const policy = job.misfirePolicy ?? CRON_MISFIRE_DEFAULTS.POLICY
+    const grace = getMisfireGraceMs(job)
+    const isMissed = (t: number) => now - t > this.ON_TIME_TOLERANCE
+    const isExpired = (t: number) => isMissed(t) && grace !== undefined && now - t > grace
+
+    const eligible = due.times.filter(t => !isExpired(t))
+    let runs: number[]
+    switch (policy) {
+      case 'skip':
+        runs = eligible.filter(t => !isMissed(t))
+        break
+      case 'run_all':
+        runs = eligible.slice(-Math.max(1, job.maxCatchUpRuns ?? CRON_MISFIRE_DEFAULTS.MAX_CATCH_UP_RUNS))
+        break
+      default:
+        runs = eligible.slice(-1)
+    }
+
+    const skipped: RunPlan['skipped'] = due.times
+      .filter(t => !runs.includes(t))
+      .map(t => ({
+        scheduledAt: t,
+        reason: isExpired(t)
+          ? `错过的运行（计划 ${formatInTimezone(t, timezone)}）超过最大延迟 ${Math.round(grace! / 60_000)} 分钟，已跳过`
+          : `错过的运行（计划 ${formatInTimezone(t, timezone)}）按 ${policy} 策略跳过`,
+      }))
+    if (due.truncated) {
+      skipped.unshift({
+        reason: `更早错过的运行超过 ${this.MAX_MISFIRE_SCAN} 次，已全部跳过`,
+      })
+    }
+
+    return { runs, skipped, lastScheduledAt: due.times[due.times.length - 1]! }
+  }
+
+  /**
+   * 从 now 往前回溯到 lastScheduledAt（或 lastRunAt / createdAt）之间的计划时间点（升序）
+   * 最多 MAX_MISFIRE_SCAN 个，更早的标记 truncated；一次性任务只有 runAt 一个时间点
+   */
+  private getDueRunTimes(job: CronJob, now: number): { times: number[]; truncated: boolean } | null {
+    if (job.runAt !== undefined) {
+      const due = !job.lastScheduledAt && job.runAt <= now
+      return { times: due ? [job.runAt] : [], truncated: false }
+    }
+
+    try {
+      const baseTime = this.getScheduleBase(job)
+      const interval = this.parseCron(job, {
+        currentDate: new Date(now + 1),
+        startDate: new Date(baseTime),
+      })
+
+      const times: number[] = []
+      while (interval.hasPrev() && times.length < this.MAX_MISFIRE_SCAN) {
+        const t = interval.prev().getTime()
+        if (t <= baseTime) break
+        times.unshift(t)
+      }
+      return { times, truncated: times.length === this.MAX_MISFIRE_SCAN && interval.hasPrev() }
+    } catch (error) {
+      console.error(`❌ 解析 cron 表达式失败 [${job.name}]: ${job.cron}`, error)
+      return null
     }
   }
 
   /**
    * 计算任务的下次执行时间
-   * 基于 lastRunAt（或 createdAt）往后找下一个匹配的时间点
+   * 基于 lastScheduledAt（旧任务为 lastRunAt，或 createdAt）往后找下一个匹配的时间点，cron 表达式按任务时区解释
+   * 一次性任务返回 runAt，已执行返回 null
    */
   getNextRunTime(job: CronJob): number | null {
+    if (job.runAt !== undefined) {
+      return job.lastScheduledAt ? null : job.runAt
+    }
+
     try {
-      const baseTime = job.lastRunAt || job.createdAt
-      const interval = cronParser.parseExpression(job.cron, {
-        currentDate: new Date(baseTime),
+      const interval = this.parseCron(job, {
+        currentDate: new Date(this.getScheduleBase(job)),
       })
       return interval.next().getTime()
     } catch (error) {
@@ -107,6 +232,15 @@ export class CronScheduler {
     }
   }
 
+  private parseCron(job: CronJob, options: Omit<ParserOptions, 'tz'>): CronExpression {
+    if (!job.cron) throw new Error('任务既没有 cron 表达式也没有 runAt')
+    return cronParser.parseExpression(job.cron, { ...options, tz: getJobTimezone(job) })
+  }
+
+  private getScheduleBase(job: CronJob): number {
+    return job.lastScheduledAt || job.lastRunAt || job.createdAt
+  }
+
   // ==================== 公共 API ====================
 
   getStore(): CronStore {
@@ -115,12 +249,14 @@ export class CronScheduler {
 
   /**
    * 手动触发一次任务
+   * 一次性任务与调度路径一样先归档再执行，到 runAt 时不会再次触发
    */
   async triggerJob(jobId: string): Promise<void> {
     const job = this.store.getJob(jobId)
     if (!job) throw new Error(`任务不存在: ${jobId}`)
     if (this.runningJobs.has(jobId)) throw new Error(`任务正在执行中: ${jobId}`)
 
+    if (job.runAt !== undefined) this.store.archiveJob(job.id)
     this.runningJobs.add(jobId)
     try {
       await this.executor.execute(job)
@@ -3,15 +3,17 @@
  * 
  * - cronjobs.json: 任务定义，全量读写
  * - cronjob-logs.jsonl: 执行日志，append-only
+ * - cronjobs-archive.jsonl: 已触发（执行前归档）或已跳过的一次性任务，append-only
  */
 
 import { readFileSync, writeFileSync, appendFileSync, existsSync, mkdirSync, renameSync } from 'fs'
 import { randomUUID } from 'crypto'
 import { dirname } from 'path'
-import type { CronJob, CronJobLog, CreateCronJobInput } from './types.js'
+import type { ArchivedCronJob, CronJob, CronJobLog, CreateCronJobInput } from './types.js'
 
 const JOBS_FILE = 'data/cronjobs.json'
 const LOGS_FILE = 'data/cronjob-logs.jsonl'
+const ARCHIVE_FILE = 'data/cronjobs-archive.jsonl'
 
 export class CronStore {
   constructor() {
@@ -107,6 +109,40 @@ export class CronStore {
     return true
   }
 
+  /**
+   * 归档任务：从 cronjobs.json 移除并追加到 cronjobs-archive.jsonl（一次性任务执行前 / 跳过时调用）
+   */
+  archiveJob(id: string): ArchivedCronJob | null {
+    const job = this.getJob(id)
+    if (!job) return null
+
+    const archived: ArchivedCronJob = { ...job, enabled: false, archivedAt: Date.now() }
+    appendFileSync(ARCHIVE_FILE, JSON.stringify(archived) + '\n', 'utf-8')
+    this.deleteJob(id)
+    console.log(`📦 CronJob 已归档: [${job.name}] (${id})`)
+    return archived
+  }
+
+  /**
+   * 查看已归档的任务（倒序，最近的在前）
+   */
+  listArchivedJobs(limit = 20): ArchivedCronJob[] {
+    if (!existsSync(ARCHIVE_FILE)) return []
+    try {
+      return readFileSync(ARCHIVE_FILE, 'utf-8')
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => {
+          try { return JSON.parse(line) } catch { return null }
+        })
+        .filter((job): job is ArchivedCronJob => job !== null)
+        .reverse()
+        .slice(0, limit)
+    } catch {
+      return []
+    }
+  }
+
   // ==================== Logs ====================
 
   /**
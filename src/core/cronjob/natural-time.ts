@@ -0,0 +1,74 @@
+/**
+ * 自然语言时间解析 - 提醒时间（reminder-time.ts）与记忆有效期（memory/memory-expiry.ts）共用部分
+ *
+ *   - 中文数字归一化: 两个小时 → 2个小时，周三 → 周3
+ *   - 相对时间: 30分钟后 / 半小时后 / 1个半小时后 / 3天 / 2周内 / 1个月 / in 2 hours / 90m / 2w
+ *   - 日期关键词: 今天 / 明天 / 后天 / 大后天 / 今晚 / 明早 …（相对今天的天数 + 隐含时段）
+ * 日历计算（按月偏移、某天的起止时刻）均按传入的 IANA 时区进行
+ */
+
+import { getZonedParts, zonedTimeToTimestamp } from './timezone.js'
+
+/** 一天的起止：start 取 00:00:00，end 取 23:59:59 */
+export type DayBoundary = 'start' | 'end'
+
+/** 日期关键词 → [相对今天的天数, 隐含的时段] */
+export const DAY_KEYWORDS: Record<string, [number, string?]> = {
+  '今天': [0], '今日': [0], 'today': [0], '今早': [0, '早上'], '今晚': [0, '晚上'], 'tonight': [0, '晚上'],
+  '明天': [1], '明日': [1], 'tomorrow': [1], '明早': [1, '早上'], '明晚': [1, '晚上'],
+  '后天': [2], '大后天': [3],
+}
+
+const RELATIVE_UNITS: Array<[RegExp, number]> = [
+  [/^(分钟|分|m|mins?|minutes?)$/, 60 * 1000],
+  [/^(小时|钟头|h|hrs?|hours?)$/, 60 * 60 * 1000],
+  [/^(天|日|d|days?)$/, 24 * 60 * 60 * 1000],
+  [/^(周|星期|礼拜|w|weeks?)$/, 7 * 24 * 60 * 60 * 1000],
+]
+
+const CN_NUMBERS: Record<string, number> = {
+  '零': 0, '一': 1, '二': 2, '两': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9,
+}
+
+/**
+ * 相对时间 → 时间戳，无法识别时返回 null
+ * 「N个月」按时区内的日历月偏移；单独的「N月」是月份而非时长，不接受
+ */
+export function parseRelativeTime(text: string, timezone: string, now: Date): number | null {
+  const match = text
+    .replace(/^in\s+/, '')
+    .match(/^(\d+(?:\.\d+)?|半)\s*(个)?\s*(半)?\s*([a-z一-龥]+?)\s*(后|以后|之后|内|以内|later|from now)?$/)
+  if (!match) return null
+
+  const amount = (match[1] === '半' ? 0.5 : Number(match[1])) + (match[3] ? 0.5 : 0)
+  const unit = match[4]!
+  if ((unit === '月' && match[2]) || /^(mo|months?)$/.test(unit)) {
+    if (!Number.isInteger(amount)) return null
+    const [y, m, d, h, mi] = getZonedParts(now, timezone)
+    return zonedTimeToTimestamp([y, m + amount, d, h, mi], timezone) + now.getTime() % 60_000
+  }
+
+  const ms = RELATIVE_UNITS.find(([pattern]) => pattern.test(unit))?.[1]
+  return ms ? now.getTime() + Math.round(amount * ms) : null
+}
+
+/**
+ * 时区内某天的 00:00:00 或 23:59:59（日 / 月溢出由 Date.UTC 进位）
+ */
+export function zonedDayBoundary([y, m, d]: [number, number, number], boundary: DayBoundary, timezone: string): number {
+  return boundary === 'start'
+    ? zonedTimeToTimestamp([y, m, d, 0, 0], timezone)
+    : zonedTimeToTimestamp([y, m, d + 1, 0, 0], timezone) - 1000
+}
+
+/** 两个小时 → 2个小时，十五分钟 → 15分钟，周三 → 周3 */
+export function normalizeNumbers(text: string): string {
+  return text.replace(/[零一二两三四五六七八九十]+/g, (cn) => {
+    if (!cn.includes('十')) {
+      return cn.length === 1 ? String(CN_NUMBERS[cn]) : cn
+    }
+    const [tens, ones] = cn.split('十')
+    if (cn.split('十').length > 2 || (tens && tens.length > 1) || (ones && ones.length > 1)) return cn
+    return String((tens ? CN_NUMBERS[tens]! : 1) * 10 + (ones ? CN_NUMBERS[ones]! : 0))
+  })
+}
@@ -0,0 +1,109 @@
+/**
+ * 提醒 / 一次性任务 - 自然语言时间解析
+ *
+ * 支持以下写法（不带时区的按任务时区解释）:
+ *   - 相对时间: 30分钟后 / 2小时后 / 两个小时后 / 半小时后 / 1个半小时后 / 3天后 / in 2 hours / 90m
+ *   - 日期 + 时刻: 明天下午3点 / 后天 9:30 / 今晚8点 / 周五 15:00 / 下周一上午10点 / 10月30日 18:00 / 2026-10-30 18:00 / tomorrow 3pm
+ *   - 只有时刻: 15:00 / 下午3点半 / 晚上8点 / 3pm（今天已过则取明天）
+ *   - 带时区的 ISO 8601，如 2026-10-30T18:00:00+08:00
+ * 只有日期没有时刻时取 09:00；只有「下午 / 晚上」等时段时取该时段的默认时刻；「晚上12点」为当天结束的午夜
+ * 相对时间与日期关键词的解析与记忆有效期共用（见 natural-time.ts）
+ */
+
+import { DAY_KEYWORDS, normalizeNumbers, parseRelativeTime } from './natural-time.js'
+import { getZonedParts, zonedTimeToTimestamp } from './timezone.js'
+
+/** 只有日期时的默认时刻 */
+const DEFAULT_HOUR = 9
+
+/** 时段 → 默认时刻 */
+const PERIOD_DEFAULT_HOURS: Record<string, number> = {
+  '凌晨': 1, '早上': 8, '早晨': 8, '上午': 10, 'am': 9,
+  '中午': 12, '下午': 15, 'pm': 15, '傍晚': 18, '晚上': 20, '夜里': 22,
+}
+
+const AFTERNOON_PERIODS = new Set(['下午', '傍晚', '晚上', '夜里', 'pm'])
+
+/** 这些时段的「12点」指午夜（次日 00:00）而非中午 */
+const NIGHT_PERIODS = new Set(['晚上', '夜里'])
+
+const DAY_PATTERN = `(大后天|${Object.keys(DAY_KEYWORDS).join('|')}|(下)?(?:周|星期|礼拜)([1-7日天])|(?:(\\d{4})[-/.年])?(\\d{1,2})[-/.月](\\d{1,2})[日号]?)`
+const PERIOD_PATTERN = `(${Object.keys(PERIOD_DEFAULT_HOURS).filter(p => p !== 'am' && p !== 'pm').join('|')})`
+const TIME_PATTERN = `(?:(\\d{1,2})[:：](\\d{2})|(\\d{1,2})\\s*(?:点|时)\\s*(?:(半)|(\\d{1,2})\\s*分?)?|(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm))`
+const DATE_TIME_REGEX = new RegExp(`^${DAY_PATTERN}?\\s*${PERIOD_PATTERN}?\\s*${TIME_PATTERN}?$`)
+
+/**
+ * 解析提醒时间，返回时间戳；无法识别时返回 null（可能早于 now，由调用方校验）
+ */
+export function parseReminderTime(input: string, timezone: string, now: Date = new Date()): number | null {
+  const text = normalizeNumbers(input.trim().toLowerCase())
+    .replace(/^(在|于|at|on)\s*/, '')
+    .replace(/\s*(的时候|时候)$/, '')
+    .trim()
+  if (!text) return null
+
+  return parseIso(text)
+    ?? parseRelativeTime(text, timezone, now)
+    ?? parseDateTime(text, timezone, now)
+}
+
+// ==================== 内部方法 ====================
+
+/** 2026-10-30T18:00:00+08:00 / 2026-10-30T10:00:00Z */
+function parseIso(text: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}t[\d:.]+(z|[+-]\d{2}:?\d{2})$/.test(text)) return null
+  const timestamp = Date.parse(text.toUpperCase())
+  return isNaN(timestamp) ? null : timestamp
+}
+
+/** 明天下午3点 / 周五 15:00 / 10月30日 18:00 / 下午3点半 / 3pm */
+function parseDateTime(text: string, timezone: string, now: Date): number | null {
+  const match = text.match(DATE_TIME_REGEX)
+  if (!match) return null
+
+  const [, day, nextWeek, weekday, year, month, date, explicitPeriod,
+    colonHour, colonMinute, cnHour, half, cnMinute, enHour, enMinute, meridiem] = match
+  if (!day && !explicitPeriod && !colonHour && !cnHour && !enHour) return null
+
+  const period = explicitPeriod ?? meridiem ?? (day ? DAY_KEYWORDS[day]?.[1] : undefined)
+
+  // 时刻
+  const rawHour = colonHour ?? cnHour ?? enHour
+  let hour = rawHour !== undefined ? Number(rawHour) : (period ? PERIOD_DEFAULT_HOURS[period]! : DEFAULT_HOUR)
+  const minute = Number(colonMinute ?? enMinute ?? cnMinute ?? (half ? 30 : 0))
+  if (hour > 23 || minute > 59) return null
+  if (rawHour !== undefined && period) {
+    // 晚上12点 → 24:00，由 zonedTimeToTimestamp 进位到次日 00:00
+    if (NIGHT_PERIODS.has(period) && hour === 12) hour = 24
+    else if (AFTERNOON_PERIODS.has(period) && hour < 12) hour += 12
+    else if (period === '中午' && hour <= 2) hour += 12
+    else if (period === 'am' && hour === 12) hour = 0
+  }
+
+  const [y, m, d, , , dow] = getZonedParts(now, timezone)
+  const at = (dayOffset: number, targetYear = y, targetMonth = m, targetDate = d) =>
+    zonedTimeToTimestamp([targetYear, targetMonth, targetDate + dayOffset, hour, minute], timezone)
+
+  // 绝对日期（省略年份时取今年，已过去则取明年）
+  if (month !== undefined && date !== undefined) {
+    const timestamp = at(0, year ? Number(year) : y, Number(month) - 1, Number(date))
+    return !year && timestamp <= now.getTime()
+      ? at(0, y + 1, Number(month) - 1, Number(date))
+      : timestamp
+  }
+
+  // 周几：「下周X」为下一个自然周，「周X」为最近的一个（今天已过则顺延一周）
+  if (weekday !== undefined) {
+    const target = /[日天]/.test(weekday) ? 7 : Number(weekday)
+    const today = dow === 0 ? 7 : dow
+    if (nextWeek) return at(7 - today + target)
+    const ahead = (target - today + 7) % 7
+    const timestamp = at(ahead)
+    return timestamp <= now.getTime() ? at(ahead + 7) : timestamp
+  }
+
+  // 今天 / 明天 / 后天；未指定日期时今天已过则取明天
+  if (day) return at(DAY_KEYWORDS[day]![0])
+  const timestamp = at(0)
+  return timestamp <= now.getTime() ? at(1) : timestamp
+}
@@ -0,0 +1,114 @@
+/**
+ * CronJob 时区工具
+ *
+ * 任务的 cron 表达式、模板变量、注入给 Agent 的「当前时间」都按任务的 timezone（IANA 名称）解释。
+ * 未设置 timezone 的任务（含历史任务）按 Asia/Shanghai 处理，与服务器所在时区无关。
+ */
+
+import type { CronJob } from './types.js'
+
+/** 未指定 timezone 时的默认时区 */
+export const DEFAULT_CRON_TIMEZONE = 'Asia/Shanghai'
+
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六']
+
+/**
+ * 校验 IANA 时区名称，如 Asia/Shanghai、Asia/Singapore、UTC
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 任务实际使用的时区
+ */
+export function getJobTimezone(job: Pick<CronJob, 'timezone'>): string {
+  return job.timezone || DEFAULT_CRON_TIMEZONE
+}
+
+/**
+ * 按时区格式化时间戳（zh-CN），如 2026/10/19 09:00:00
+ */
+export function formatInTimezone(timestamp: number | Date, timezone: string): string {
+  return new Date(timestamp).toLocaleString('zh-CN', { timeZone: timezone, hour12: false })
+}
+
+/**
+ * 按时区格式化时间戳并附带时区名，如 2026/10/19 09:00:00 (Asia/Singapore)
+ */
+export function formatWithTimezone(timestamp: number | Date, timezone: string): string {
+  return `${formatInTimezone(timestamp, timezone)} (${timezone})`
+}
+
+/**
+ * 任务调度描述：周期任务为 cron 表达式，一次性任务为执行时间
+ */
+export function describeJobSchedule(job: Pick<CronJob, 'cron' | 'runAt' | 'timezone'>): string {
+  const timezone = getJobTimezone(job)
+  return job.runAt !== undefined
+    ? `一次性 ${formatInTimezone(job.runAt, timezone)} (${timezone})`
+    : `\`${job.cron}\` (${timezone})`
+}
+
+/**
+ * 时间戳在指定时区的日历字段：[年, 月(0-11), 日, 时, 分, 星期(0=周日)]
+ */
+export function getZonedParts(timestamp: number | Date, timezone: string): [number, number, number, number, number, number] {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  }).formatToParts(new Date(timestamp))
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? ''
+
+  return [
+    Number(get('year')),
+    Number(get('month')) - 1,
+    Number(get('day')),
+    Number(get('hour')),
+    Number(get('minute')),
+    ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday')),
+  ]
+}
+
+/**
+ * 指定时区的墙上时间 → 时间戳（日 / 月溢出由 Date.UTC 进位，夏令时按目标时刻的偏移修正）
+ */
+export function zonedTimeToTimestamp(
+  [year, month, day, hour, minute]: [number, number, number, number, number],
+  timezone: string,
+): number {
+  const wallClock = Date.UTC(year, month, day, hour, minute)
+  const offsetAt = (timestamp: number) => {
+    const [y, mo, d, h, mi] = getZonedParts(timestamp, timezone)
+    return Date.UTC(y, mo, d, h, mi) - Math.floor(timestamp / 60_000) * 60_000
+  }
+
+  const guess = wallClock - offsetAt(wallClock)
+  return wallClock - offsetAt(guess)
+}
+
+/**
+ * 消息模板变量：{{date}} {{time}} {{datetime}} {{weekday}}
+ */
+export function getTemplateVariables(now: Date, timezone: string): { date: string; time: string; datetime: string; weekday: string } {
+  const weekday = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short' }).format(now)
+  const dayIndex = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(weekday)
+
+  return {
+    date: now.toLocaleDateString('zh-CN', { timeZone: timezone }),
+    time: now.toLocaleTimeString('zh-CN', { timeZone: timezone, hour12: false }),
+    datetime: formatInTimezone(now, timezone),
+    weekday: WEEKDAYS[dayIndex] as string,
+  }
+}
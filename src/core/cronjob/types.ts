@@ -9,14 +9,20 @@ export interface CronJob {
   id: string
   /** 任务名称，如 "每日科技早报" */
   name: string
-  /** cron 表达式：标准 5 字段 或 @daily/@hourly/@weekly/@monthly */
-  cron: string
+  /** cron 表达式：标准 5 字段 或 @daily/@hourly/@weekly/@monthly；一次性任务为空 */
+  cron?: string
+  /** 一次性任务的执行时间戳，执行前（或按 misfirePolicy 跳过时）归档到 cronjobs-archive.jsonl */
+  runAt?: number
+  /** cron 表达式与模板时间所用的 IANA 时区，如 "Asia/Singapore"；缺省为 Asia/Shanghai */
+  timezone?: string
   /** 任务类型 */
   taskType: CronTaskType
   /** 任务配置（按 taskType 不同） */
   taskConfig: CronTaskConfig
   /** 执行结果发送到哪个飞书会话（必填） */
   notifyChatId: string
+  /** 创建人 open_id（create_cronjob / create_reminder 的发信人）；任务中的 Agent 调用以该身份校验工具权限，缺省时只能使用公开工具 */
+  createdBy?: string
   /** 话题 ID（仅记录，发送时不使用） */
   notifyThreadId?: string
   /** 是否启用 */
@@ -27,9 +33,85 @@ export interface CronJob {
   lastRunAt?: number
   /** 上次执行状态 */
   lastRunStatus?: 'success' | 'failed'
+  /** 失败重试策略；缺省使用 CRON_RETRY_DEFAULTS（非幂等任务类型缺省不重试，见 getDefaultMaxAttempts） */
+  retry?: CronRetryPolicy
+  /** 连续失败多少次后自动禁用并升级告警，0 表示不自动禁用；缺省使用 CRON_RETRY_DEFAULTS */
+  maxConsecutiveFailures?: number
+  /** 升级告警发送到的管理员会话（应与 notifyChatId 不同）；缺省为 CRON_ESCALATION_CHAT_ID / FEISHU_ALERT_OPEN_ID */
+  escalationChatId?: string
+  /** 连续失败次数（重试耗尽才计一次，预算超额跳过不计，成功后清零） */
+  consecutiveFailures?: number
+  /** 被自动禁用的原因（手动启用时清除） */
+  disabledReason?: string
+  /** 错过运行（停机、上次执行过久等）时的补偿策略；缺省使用 CRON_MISFIRE_DEFAULTS */
+  misfirePolicy?: CronMisfirePolicy
+  /** run_all 时最多补跑的次数（取最近的 N 次） */
+  maxCatchUpRuns?: number
+  /** 最大允许延迟（毫秒），超过的错过运行一律跳过；缺省见 getMisfireGraceMs */
+  misfireGraceMs?: number
+  /** 调度器最近处理（执行或跳过）的计划时间点，下次执行时间从这里往后算 */
+  lastScheduledAt?: number
+  /** workflow 各步骤上次成功运行时的输出摘要（用于 changed / unchanged 条件） */
+  workflowOutputHashes?: Record<string, string>
 }
 
-export type CronTaskType = 'agent_prompt' | 'feishu_notify' | 'custom_script' | 'self_iteration'
+/**
+ * 错过运行的补偿策略
+ *   skip      只在准点时执行，错过的全部跳过
+ *   run_once  错过多次也只补跑一次（最近的一次）
+ *   run_all   逐次补跑，最多 maxCatchUpRuns 次
+ */
+export const CRON_MISFIRE_POLICIES = ['skip', 'run_once', 'run_all'] as const
+
+export type CronMisfirePolicy = typeof CRON_MISFIRE_POLICIES[number]
+
+/** 未配置时的错过运行补偿默认值 */
+export const CRON_MISFIRE_DEFAULTS = {
+  POLICY: 'run_once' satisfies CronMisfirePolicy,
+  MAX_CATCH_UP_RUNS: 5,
+  /** 周期任务按 run_once 补跑时的默认最大延迟，避免早报在停机恢复后的深夜才发出 */
+  RUN_ONCE_GRACE_MS: 2 * 60 * 60 * 1000,
+} as const
+
+/**
+ * 任务的最大允许延迟：未配置时，按 run_once 补跑的周期任务取 RUN_ONCE_GRACE_MS，其余不限制
+ * 一次性任务（提醒等）晚到也比不到好，不设默认上限
+ */
+export function getMisfireGraceMs(job: Pick<CronJob, 'misfireGraceMs' | 'misfirePolicy' | 'runAt'>): number | undefined {
+  if (job.misfireGraceMs !== undefined) return job.misfireGraceMs
+  const policy = job.misfirePolicy ?? CRON_MISFIRE_DEFAULTS.POLICY
+  return policy === 'run_once' && job.runAt === undefined ? CRON_MISFIRE_DEFAULTS.RUN_ONCE_GRACE_MS : undefined
+}
+
+export interface CronRetryPolicy {
+  /** 单次调度的最大尝试次数（含首次），1 表示不重试 */
+  maxAttempts: number
+  /** 第一次重试前的等待毫秒数 */
+  backoffMs: number
+  /** 之后每次重试等待时间的倍数，默认 2 */
+  backoffMultiplier?: number
+}
+
+/** 未配置时的重试 / 自动禁用默认值 */
+export const CRON_RETRY_DEFAULTS = {
+  MAX_ATTEMPTS: 3,
+  BACKOFF_MS: 60_000,
+  BACKOFF_MULTIPLIER: 2,
+  MAX_CONSECUTIVE_FAILURES: 3,
+} as const
+
+/** 重复执行可能产生重复副作用的任务类型（脚本、含脚本 / 通知步骤的工作流），需显式配置 retry 才会重试 */
+export const NON_IDEMPOTENT_TASK_TYPES: readonly CronTaskType[] = ['custom_script', 'workflow']
+
+/** 可执行 Agent 指令或 shell 命令的任务类型，仅管理员可以创建（feishu_notify / reminder 不受限） */
+export const ADMIN_ONLY_TASK_TYPES: readonly CronTaskType[] = ['agent_prompt', 'custom_script', 'workflow']
+
+/** 未配置 retry.maxAttempts 时的最大尝试次数：非幂等任务类型为 1（不重试） */
+export function getDefaultMaxAttempts(taskType: CronTaskType): number {
+  return NON_IDEMPOTENT_TASK_TYPES.includes(taskType) ? 1 : CRON_RETRY_DEFAULTS.MAX_ATTEMPTS
+}
+
+export type CronTaskType = 'agent_prompt' | 'feishu_notify' | 'custom_script' | 'self_iteration' | 'memory_consolidation' | 'reminder' | 'workflow'
 
 // ==================== 任务配置 ====================
 
@@ -38,11 +120,16 @@ export type CronTaskConfig =
   | FeishuNotifyConfig
   | CustomScriptConfig
   | SelfIterationTaskConfig
+  | MemoryConsolidationTaskConfig
+  | ReminderConfig
+  | WorkflowConfig
 
 export interface AgentPromptConfig {
   type: 'agent_prompt'
   /** 让 Agent 执行的 prompt */
   prompt: string
+  /** 执行所用模型，缺省使用默认模型（CLAUDE_MODEL） */
+  model?: string
 }
 
 export interface FeishuNotifyConfig {
@@ -67,6 +154,94 @@ export interface SelfIterationTaskConfig {
   skills: 'all' | string[]
 }
 
+export interface MemoryConsolidationTaskConfig {
+  type: 'memory_consolidation'
+  /** 只发送整理报告，不提交记忆审核 */
+  dryRun?: boolean
+}
+
+export interface ReminderConfig {
+  type: 'reminder'
+  /** 提醒内容 */
+  message: string
+  /** 提醒时 @ 的用户 open_id（通常是创建提醒的人） */
+  mentionUserId?: string
+}
+
+// ==================== 工作流 ====================
+
+/**
+ * 多步骤工作流：步骤按依赖关系（DAG）执行，互不依赖的步骤并行
+ * 后续步骤可通过 {{steps.<id>.output}} / {{steps.<id>.status}} 引用前序步骤的结果
+ */
+export interface WorkflowConfig {
+  type: 'workflow'
+  steps: WorkflowStep[]
+}
+
+/** 可作为工作流步骤的任务类型 */
+export type WorkflowStepTask = AgentPromptConfig | FeishuNotifyConfig | CustomScriptConfig
+
+export interface WorkflowStep {
+  /** 步骤 ID（字母、数字、下划线、短横线），供依赖与模板引用 */
+  id: string
+  /** 依赖的步骤 ID；缺省依赖上一个步骤（第一个步骤无依赖），[] 表示无依赖 */
+  dependsOn?: string[]
+  /** 执行条件，不满足时跳过本步骤（依赖本步骤的后续步骤也会跳过） */
+  when?: WorkflowCondition
+  /** 步骤超时毫秒数；缺省 custom_script 取 timeout（30s），其他取 WORKFLOW_DEFAULTS.STEP_TIMEOUT_MS */
+  timeoutMs?: number
+  /** 失败后仍继续执行依赖本步骤的后续步骤，默认整个工作流失败 */
+  continueOnError?: boolean
+  /** 步骤任务，复用 agent_prompt / feishu_notify / custom_script 的配置 */
+  task: WorkflowStepTask
+}
+
+/**
+ * 步骤执行条件，引用的步骤必须是本步骤的前序步骤
+ *   changed / unchanged      输出与上次成功运行相比是否变化（首次运行视为 changed）
+ *   contains / not_contains  输出是否包含 value
+ *   equals                   输出（去除首尾空白）是否等于 value
+ *   matches                  输出是否匹配正则 value
+ *   succeeded / failed       步骤是否成功
+ */
+export interface WorkflowCondition {
+  step: string
+  op: WorkflowConditionOp
+  value?: string
+}
+
+export type WorkflowConditionOp =
+  | 'changed'
+  | 'unchanged'
+  | 'contains'
+  | 'not_contains'
+  | 'equals'
+  | 'matches'
+  | 'succeeded'
+  | 'failed'
+
+/** 单个步骤的执行结果（写入 CronJobLog.steps） */
+export interface WorkflowStepResult {
+  id: string
+  type: WorkflowStepTask['type']
+  status: 'success' | 'failed' | 'timeout' | 'skipped'
+  startedAt?: number
+  finishedAt?: number
+  /** 步骤输出（截断 500 字符） */
+  output?: string
+  error?: string
+  /** 跳过原因 */
+  reason?: string
+}
+
+export const WORKFLOW_DEFAULTS = {
+  /** agent_prompt / feishu_notify 步骤的默认超时 */
+  STEP_TIMEOUT_MS: 10 * 60 * 1000,
+  /** 单个工作流最多步骤数 */
+  MAX_STEPS: 20,
+} as const
+
 // ==================== 执行日志 ====================
 
 export interface CronJobLog {
@@ -78,8 +253,18 @@ export interface CronJobLog {
   startedAt: number
   /** 结束时间戳 */
   finishedAt: number
-  /** 执行状态 */
-  status: 'success' | 'failed' | 'timeout'
+  /** 执行状态（skipped：错过的运行按 misfirePolicy 未执行，或预算超额未执行） */
+  status: 'success' | 'failed' | 'timeout' | 'skipped'
+  /** 对应的计划执行时间（手动触发时为空） */
+  scheduledAt?: number
+  /** 第几次尝试（从 1 开始） */
+  attempt?: number
+  /** 本次调度的最大尝试次数 */
+  maxAttempts?: number
+  /** 失败后是否还会重试 */
+  willRetry?: boolean
+  /** workflow 各步骤的执行结果 */
+  steps?: WorkflowStepResult[]
   /** 执行结果摘要（截断 500 字符） */
   result?: string
   /** 错误信息 */
@@ -88,4 +273,10 @@ export interface CronJobLog {
 
 // ==================== 创建任务的输入 ====================
 
-export type CreateCronJobInput = Omit<CronJob, 'id' | 'createdAt' | 'lastRunAt' | 'lastRunStatus'>
+export type CreateCronJobInput = Omit<CronJob, 'id' | 'createdAt' | 'lastRunAt' | 'lastRunStatus' | 'consecutiveFailures' | 'disabledReason' | 'lastScheduledAt'>
+
+/** 已归档的一次性任务 */
+export interface ArchivedCronJob extends CronJob {
+  /** 归档时间戳 */
+  archivedAt: number
+}
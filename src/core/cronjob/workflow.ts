@@ -0,0 +1,280 @@
+/**
+ * CronJob 工作流 - 校验、依赖、条件与模板
+ *
+ * 步骤执行由 CronExecutor.executeWorkflow 负责，这里只放无副作用的工具函数：
+ *   - validateWorkflow: 创建任务与执行前校验（ID、依赖、环、条件引用）
+ *   - getStepDependencies: 步骤的依赖（缺省依赖上一个步骤）
+ *   - evaluateCondition: 计算 when 条件
+ *   - renderStepTemplate: 替换 {{steps.<id>.output}} / {{steps.<id>.status}}
+ *
+ * custom_script 步骤不做模板替换（避免把输出拼进 shell 命令），
+ * 前序步骤的输出通过环境变量 WORKFLOW_STEP_<ID>_OUTPUT 传入，如 fetch-data → WORKFLOW_STEP_FETCH_DATA_OUTPUT
+ */
+
+import { createHash } from 'crypto'
+import {
+  WORKFLOW_DEFAULTS,
+  type WorkflowCondition,
+  type WorkflowConditionOp,
+  type WorkflowConfig,
+  type WorkflowStep,
+  type WorkflowStepResult,
+} from './types.js'
+
+export const WORKFLOW_STEP_TYPES = ['agent_prompt', 'feishu_notify', 'custom_script'] as const
+
+export const WORKFLOW_CONDITION_OPS: WorkflowConditionOp[] = [
+  'changed', 'unchanged', 'contains', 'not_contains', 'equals', 'matches', 'succeeded', 'failed',
+]
+
+/** 需要 value 的条件 */
+const VALUE_OPS = new Set<WorkflowConditionOp>(['contains', 'not_contains', 'equals', 'matches'])
+
+const STEP_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+/**
+ * 工作流执行失败，携带各步骤结果供执行日志记录
+ */
+export class WorkflowError extends Error {
+  constructor(message: string, public readonly steps: WorkflowStepResult[]) {
+    super(message)
+    this.name = 'WorkflowError'
+  }
+}
+
+/**
+ * 步骤超时
+ */
+export class WorkflowStepTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`步骤超时（${timeoutMs >= 1000 ? `${Math.round(timeoutMs / 1000)}s` : `${timeoutMs}ms`}）`)
+    this.name = 'WorkflowStepTimeoutError'
+  }
+}
+
+/**
+ * 校验工作流配置，返回错误列表（为空表示合法）
+ */
+export function validateWorkflow(config: WorkflowConfig): string[] {
+  const errors: string[] = []
+  if (!Array.isArray(config.steps) || config.steps.length === 0) {
+    return ['workflow 至少需要一个步骤（steps）']
+  }
+  if (config.steps.length > WORKFLOW_DEFAULTS.MAX_STEPS) {
+    errors.push(`workflow 最多 ${WORKFLOW_DEFAULTS.MAX_STEPS} 个步骤`)
+  }
+
+  const ids = new Set<string>()
+  for (const step of config.steps) {
+    if (!step.id || !STEP_ID_PATTERN.test(step.id)) {
+      errors.push(`步骤 ID "${step.id ?? ''}" 无效，只能包含字母、数字、下划线、短横线`)
+    } else if (ids.has(step.id)) {
+      errors.push(`步骤 ID "${step.id}" 重复`)
+    }
+    ids.add(step.id)
+
+    if (!step.task || !(WORKFLOW_STEP_TYPES as readonly string[]).includes(step.task.type)) {
+      errors.push(`步骤 "${step.id}" 的 task.type 必须是 ${WORKFLOW_STEP_TYPES.join(' / ')}`)
+    }
+    if (step.timeoutMs !== undefined && !(step.timeoutMs > 0)) {
+      errors.push(`步骤 "${step.id}" 的 timeoutMs 必须大于 0`)
+    }
+  }
+
+  config.steps.forEach((step, index) => {
+    for (const dep of getStepDependencies(config, index)) {
+      if (!ids.has(dep)) errors.push(`步骤 "${step.id}" 依赖的步骤 "${dep}" 不存在`)
+      if (dep === step.id) errors.push(`步骤 "${step.id}" 不能依赖自身`)
+    }
+  })
+  if (errors.length > 0) return errors
+
+  const order = topologicalOrder(config)
+  if (!order) return ['workflow 步骤依赖存在环']
+
+  config.steps.forEach((step) => {
+    if (!step.when) return
+    errors.push(...validateCondition(config, step, step.when))
+  })
+  return errors
+}
+
+/**
+ * 步骤的依赖：显式 dependsOn，否则依赖上一个步骤
+ */
+export function getStepDependencies(config: WorkflowConfig, index: number): string[] {
+  const step = config.steps[index]!
+  if (step.dependsOn) return step.dependsOn
+  return index > 0 ? [config.steps[index - 1]!.id] : []
+}
+
+/**
+ * 计算步骤的执行条件
+ * @param previousHashes - 上次成功运行时各步骤的输出摘要
+ */
+export function evaluateCondition(
+  condition: WorkflowCondition,
+  results: Map<string, WorkflowStepResult>,
+  previousHashes: Record<string, string> = {},
+): { passed: boolean; reason: string } {
+  const target = results.get(condition.step)
+  const label = `${condition.step} ${condition.op}${condition.value !== undefined ? ` "${condition.value}"` : ''}`
+  if (!target) return { passed: false, reason: `条件 ${label} 不满足：步骤未执行` }
+
+  if (condition.op === 'succeeded' || condition.op === 'failed') {
+    const succeeded = target.status === 'success'
+    const passed = condition.op === 'succeeded' ? succeeded : (target.status === 'failed' || target.status === 'timeout')
+    return { passed, reason: `条件 ${label} ${passed ? '满足' : '不满足'}` }
+  }
+  if (target.status !== 'success') {
+    return { passed: false, reason: `条件 ${label} 不满足：步骤状态为 ${target.status}` }
+  }
+
+  const output = target.output ?? ''
+  let passed: boolean
+  switch (condition.op) {
+    case 'changed':
+    case 'unchanged': {
+      const changed = previousHashes[condition.step] !== hashOutput(output)
+      passed = condition.op === 'changed' ? changed : !changed
+      break
+    }
+    case 'contains':
+      passed = output.includes(condition.value ?? '')
+      break
+    case 'not_contains':
+      passed = !output.includes(condition.value ?? '')
+      break
+    case 'equals':
+      passed = output.trim() === (condition.value ?? '').trim()
+      break
+    case 'matches':
+      passed = new RegExp(condition.value ?? '').test(output)
+      break
+    default:
+      passed = false
+  }
+  return { passed, reason: `条件 ${label} ${passed ? '满足' : '不满足'}` }
+}
+
+/**
+ * 替换 {{steps.<id>.output}} / {{steps.<id>.status}}，未执行的步骤替换为空字符串
+ */
+export function renderStepTemplate(template: string, results: Map<string, WorkflowStepResult>): string {
+  return template.replace(/\{\{\s*steps\.([A-Za-z0-9_-]+)\.(output|status)\s*\}\}/g, (_, id: string, field: string) => {
+    const result = results.get(id)
+    if (!result) return ''
+    return field === 'status' ? result.status : (result.output ?? '')
+  })
+}
+
+/**
+ * 前序步骤输出 → custom_script 的环境变量
+ */
+export function buildStepEnv(results: Map<string, WorkflowStepResult>): Record<string, string> {
+  const env: Record<string, string> = {}
+  for (const [id, result] of results) {
+    const name = `WORKFLOW_STEP_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`
+    env[`${name}_OUTPUT`] = result.output ?? ''
+    env[`${name}_STATUS`] = result.status
+  }
+  return env
+}
+
+/**
+ * 输出摘要（changed / unchanged 条件比较用）
+ */
+export function hashOutput(output: string): string {
+  return createHash('sha256').update(output.trim()).digest('hex').slice(0, 16)
+}
+
+/**
+ * 在 timeoutMs 内完成，否则抛出 WorkflowStepTimeoutError
+ * 超时时同时中止传给 run 的 AbortController（reason 为该错误），由操作自行停止 Agent 查询、子进程或推送
+ */
+export async function runWithTimeout<T>(
+  run: (abortController: AbortController) => Promise<T>,
+  timeoutMs: number,
+): Promise<T> {
+  const abortController = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new WorkflowStepTimeoutError(timeoutMs)
+      abortController.abort(error)
+      reject(error)
+    }, timeoutMs)
+  })
+  try {
+    return await Promise.race([run(abortController), timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * 工作流执行摘要（写入执行日志 result）
+ */
+export function formatWorkflowSummary(steps: WorkflowStepResult[]): string {
+  const icons: Record<WorkflowStepResult['status'], string> = {
+    success: '✅',
+    failed: '❌',
+    timeout: '⏱️',
+    skipped: '⏭️',
+  }
+  return steps
+    .map(s => `${icons[s.status]} ${s.id}: ${s.status}${s.reason ? `（${s.reason}）` : ''}${s.error ? ` ${s.error}` : ''}`)
+    .join('\n')
+}
+
+// ==================== 内部方法 ====================
+
+/** Kahn 拓扑排序，有环时返回 null */
+function topologicalOrder(config: WorkflowConfig): string[] | null {
+  const deps = new Map(config.steps.map((step, index) => [step.id, new Set(getStepDependencies(config, index))]))
+  const order: string[] = []
+
+  while (order.length < config.steps.length) {
+    const ready = [...deps.entries()].filter(([id, d]) => !order.includes(id) && [...d].every(x => order.includes(x)))
+    if (ready.length === 0) return null
+    order.push(...ready.map(([id]) => id))
+  }
+  return order
+}
+
+/** 条件引用的步骤必须是前序（祖先）步骤 */
+function validateCondition(config: WorkflowConfig, step: WorkflowStep, condition: WorkflowCondition): string[] {
+  const errors: string[] = []
+  if (!WORKFLOW_CONDITION_OPS.includes(condition.op)) {
+    errors.push(`步骤 "${step.id}" 的条件 op 必须是 ${WORKFLOW_CONDITION_OPS.join(' / ')}`)
+  }
+  if (VALUE_OPS.has(condition.op) && condition.value === undefined) {
+    errors.push(`步骤 "${step.id}" 的条件 ${condition.op} 需要 value`)
+  }
+  if (condition.op === 'matches' && condition.value !== undefined) {
+    try {
+      new RegExp(condition.value)
+    } catch {
+      errors.push(`步骤 "${step.id}" 的条件正则无效: ${condition.value}`)
+    }
+  }
+  if (!getAncestors(config, step.id).has(condition.step)) {
+    errors.push(`步骤 "${step.id}" 的条件引用的 "${condition.step}" 不是它的前序步骤`)
+  }
+  return errors
+}
+
+function getAncestors(config: WorkflowConfig, id: string): Set<string> {
+  const ancestors = new Set<string>()
+  const visit = (current: string) => {
+    const index = config.steps.findIndex(s => s.id === current)
+    if (index === -1) return
+    for (const dep of getStepDependencies(config, index)) {
+      if (ancestors.has(dep)) continue
+      ancestors.add(dep)
+      visit(dep)
+    }
+  }
+  visit(id)
+  return ancestors
+}
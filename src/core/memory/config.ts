@@ -23,16 +23,59 @@ export const MEMORY_CONFIG = {
     TOTAL_HARD_LIMIT: 5000,
   },
 
+  /** 按当前消息检索注入的相关记忆（System Prompt 中 Relevant Memories 段） */
+  RELEVANT_MEMORY: {
+    /** 最多注入条数 */
+    MAX_ENTRIES: 10,
+    /** 有用户消息时，动态预算中预留给相关记忆的比例（常驻记忆最多占用其余部分） */
+    BUDGET_SHARE: 0.4,
+  },
+
   /** 记忆容量管理 */
   CAPACITY: {
     /** 最大记忆条数（触发淘汰） */
-    MAX_ENTRIES: 150,
+    MAX_ENTRIES: 1000,
     /** 淘汰后保留条数 */
-    KEEP_ENTRIES: 100,
+    KEEP_ENTRIES: 800,
     /** 衰减半衰期（小时） */
     DECAY_HALF_LIFE_HOURS: 720,
   },
 
+  /** 检索排序配置（BM25F + 重要性 / 时效加权） */
+  SEARCH: {
+    /** query 最大长度（字符），超出部分不参与分词 */
+    MAX_QUERY_CHARS: 500,
+    /** BM25 词频饱和参数 */
+    BM25_K1: 1.2,
+    /** BM25 长度归一化参数 */
+    BM25_B: 0.75,
+    /** 字段权重：keywords 低于 text，避免同义词膨胀导致分数反超 */
+    FIELD_WEIGHTS: {
+      text: 1.0,
+      keywords: 0.6,
+    },
+    /** 重要性加权：score += imp × IMPORTANCE_BOOST */
+    IMPORTANCE_BOOST: 0.5,
+    /** 时效加权：score += RECENCY_BOOST × 2^(-距上次更新小时数 / RECENCY_HALF_LIFE_HOURS) */
+    RECENCY_BOOST: 1.0,
+    /** 时效半衰期（小时） */
+    RECENCY_HALF_LIFE_HOURS: 720,
+  },
+
+  /** 语义检索配置（向量化 + 混合排序） */
+  EMBEDDING: {
+    /** hashing 模型向量维度 */
+    DIMENSIONS: 1024,
+    /** semantic / hybrid 模式下仅靠语义召回时的最低相似度 */
+    MIN_SIMILARITY: 0.15,
+    /** hybrid 模式：关键词相关度（按本次最高 BM25 归一化）权重 */
+    HYBRID_KEYWORD_WEIGHT: 0.5,
+    /** hybrid 模式：语义相似度权重 */
+    HYBRID_SEMANTIC_WEIGHT: 0.5,
+    /** semantic / hybrid 模式下 0-1 相关度放大到与 BM25 相近的量级 */
+    RELEVANCE_SCALE: 10,
+  },
+
   /** 去重配置 */
   DEDUP: {
     /** Jaccard 相似度阈值 */
@@ -41,6 +84,25 @@ export const MEMORY_CONFIG = {
     AI_INTERVAL_HOURS: 24,
     /** AI 去重触发条数 */
     AI_TRIGGER_COUNT: 50,
+    /** 单次送入模型的记忆条数上限 */
+    AI_BATCH_SIZE: 30,
+    /** correction 归入其他分类批次的最低语义相似度 */
+    AI_CORRECTION_SIMILARITY: 0.2,
+  },
+
+  /** 有效期（valid_from / expires_at）中不带时区的时间按此 IANA 时区解释与展示 */
+  TIME_ZONE: process.env.MEMORY_TIMEZONE || 'Asia/Shanghai',
+
+  /** 对话后自动提取记忆 */
+  EXTRACTION: {
+    /** auto 模式下置信度不低于该值的候选直接写入，其余进入待确认队列 */
+    AUTO_ACCEPT_CONFIDENCE: 0.8,
+    /** 单轮最多提取条数 */
+    MAX_CANDIDATES: 5,
+    /** 送入提取模型的单条消息最大长度（字符） */
+    MAX_MESSAGE_CHARS: 4000,
+    /** 未配置 LLM_* 时使用的 Claude 模型 */
+    MODEL: process.env.MEMORY_EXTRACT_MODEL || 'haiku',
   },
 
   /** 上下文构建配置 */
@@ -59,6 +121,8 @@ export const MEMORY_CONFIG = {
     RECENT_WINDOW_MIN: 4,
     /** 压缩输出最大 token */
     COMPRESS_MAX_TOKENS: 1000,
+    /** 分叉会话首轮注入的历史预算（token） */
+    FORK_SEED_BUDGET: 20000,
   },
 
   /** 对话文件管理 */
@@ -125,3 +189,46 @@ export const COMPRESS_SYSTEM_PROMPT = `你是对话摘要助手。将对话历
 - ...
 ### 重要细节
 - ...`
+
+/** 记忆提取系统提示词 */
+export const MEMORY_EXTRACT_SYSTEM_PROMPT = `你是记忆提取助手。从一轮对话中找出值得长期记住的信息。
+
+只提取：
+1. 用户明确表达的偏好、习惯、称呼
+2. 做出的决定、技术选型
+3. 用户对助手的纠正和指令
+4. 对后续对话有用的项目背景、事实知识
+
+不要提取：
+- 寒暄、一次性问题、当前任务的中间过程
+- 助手自己的推测或建议（除非用户明确采纳）
+- 已在【已有记忆】中出现的内容
+
+每条记忆：
+- text: 一句话，简洁、可脱离上下文理解
+- cat: preference | decision | context | correction | instruction | knowledge
+- imp: 重要性 1-5
+- keywords: 5-15 个同义词/别名（空格分隔，中英文均可）
+- scope: user（仅该用户的个人信息）/ chat（仅本群的约定）/ global（对所有人都适用）
+- confidence: 0-1，用户明确陈述取高值，需要推断取低值
+- reason: 提取理由（一句话）
+
+没有值得记住的内容时返回空数组。`
+
+/** 记忆整理系统提示词 */
+export const MEMORY_CONSOLIDATE_SYSTEM_PROMPT = `你是记忆整理助手。检查一批记忆，找出需要整理的条目。
+
+可执行的操作：
+1. merge: 多条记忆表达同一件事或高度重叠 → 合并为一条（ids 至少 2 个，第一个为保留的 ID）
+2. rewrite: 单条记忆表述冗长、含糊或过时 → 改写为简洁清晰的一句话
+3. contradiction: 记忆之间互相矛盾（例如某条偏好后来被 correction 推翻）→ 只标记，不修改；
+   keep 填应保留（通常是更新的）那条的 ID
+
+要求：
+- 只在确有必要时操作，没有问题的记忆不要输出
+- 合并 / 改写后的 text 必须保留原记忆中的全部关键信息，不要编造
+- keywords 为 5-15 个同义词/别名（空格分隔）
+- 每条记忆最多出现在一个 merge / rewrite 操作中
+- reason 用一句话说明理由
+
+没有需要整理的内容时返回空数组。`
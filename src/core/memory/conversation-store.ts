@@ -11,6 +11,7 @@
  */
 
 import * as fs from 'node:fs'
+import * as path from 'node:path'
 import {
   getHistoryPath,
   getSummaryPath,
@@ -173,6 +174,42 @@ export class ConversationStore {
     }
   }
 
+  /**
+   * 将源会话的对话历史复制到新会话（会话分叉）
+   * 一轮 = 一条 user 消息及其后的 assistant/system 消息
+   * @param turnIndex - 保留到第几轮（从 0 开始，含），缺省复制全部
+   * @returns 实际复制的条目与轮数
+   */
+  forkHistory(sourceSessionId: string, targetSessionId: string, turnIndex?: number): {
+    entries: ConversationEntry[]
+    turns: number
+  } {
+    const source = this.loadSync(sourceSessionId)
+    const copied: ConversationEntry[] = []
+    let currentTurn = -1
+
+    for (const entry of source) {
+      if (entry.role === 'user') currentTurn++
+      if (turnIndex !== undefined && currentTurn > turnIndex) break
+      copied.push({ ...entry, session_id: targetSessionId })
+    }
+
+    const lines = copied.map(e => JSON.stringify(e)).join('\n')
+    fs.writeFileSync(getHistoryPath(targetSessionId), lines ? lines + '\n' : '', 'utf-8')
+
+    // 图片分析缓存 & 文件一并复制，保证分支中的图片引用可解析
+    const imageCache = this.loadImageCache(sourceSessionId)
+    if (Object.keys(imageCache).length > 0) {
+      this.saveImageCache(targetSessionId, imageCache)
+    }
+    const sourceFilesDir = path.join(getSessionDir(sourceSessionId), 'files')
+    if (fs.existsSync(sourceFilesDir)) {
+      fs.cpSync(sourceFilesDir, path.join(getSessionDir(targetSessionId), 'files'), { recursive: true })
+    }
+
+    return { entries: copied, turns: copied.filter(e => e.role === 'user').length }
+  }
+
   /**
    * 列出所有会话 ID
    */
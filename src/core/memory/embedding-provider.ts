@@ -0,0 +1,132 @@
+/**
+ * EmbeddingProvider - 记忆语义检索的向量化接口
+ *
+ * 默认实现 HashingEmbeddingProvider：纯 CPU、离线、零依赖的 hashing-trick 模型，
+ * 将字符 n-gram（CJK 1/2-gram、英文词 + 词内 3-gram）哈希到固定维度的带符号向量。
+ * 能覆盖"表情/表情包"、"emoji/emojis"这类字面变体；真正的同义改写需要接入神经网络模型，
+ * 通过 registerEmbeddingProvider 注册后设置 MEMORY_EMBEDDING_PROVIDER 即可切换。
+ */
+
+import { MEMORY_CONFIG } from './config.js'
+
+// ==================== 类型定义 ====================
+
+export interface EmbeddingProvider {
+  /** 模型标识，变化时已存储的向量会被重新计算 */
+  readonly id: string
+  readonly dimensions: number
+  /** 批量向量化，返回 L2 归一化向量 */
+  embed(texts: string[]): Promise<number[][]>
+}
+
+export type EmbeddingProviderFactory = () => EmbeddingProvider
+
+// ==================== 注册表 ====================
+
+const providerFactories = new Map<string, EmbeddingProviderFactory>([
+  ['hashing', () => new HashingEmbeddingProvider()],
+])
+
+/**
+ * 注册自定义向量化实现（如 ONNX / 远程 API）
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory): void {
+  providerFactories.set(name, factory)
+}
+
+/**
+ * 按 MEMORY_EMBEDDING_PROVIDER 创建向量化实现，未知名称回退到 hashing
+ */
+export function createEmbeddingProvider(name: string = process.env.MEMORY_EMBEDDING_PROVIDER || 'hashing'): EmbeddingProvider {
+  const factory = providerFactories.get(name)
+  if (!factory) {
+    console.warn(`⚠️ 未知的 embedding provider: ${name}，回退到 hashing`)
+    return new HashingEmbeddingProvider()
+  }
+  return factory()
+}
+
+/**
+ * 余弦相似度（输入已归一化时即点积）
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const len = Math.min(a.length, b.length)
+  let dot = 0
+  for (let i = 0; i < len; i++) {
+    dot += a[i]! * b[i]!
+  }
+  return dot
+}
+
+// ==================== HashingEmbeddingProvider ====================
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string
+  readonly dimensions: number
+
+  constructor(dimensions: number = MEMORY_CONFIG.EMBEDDING.DIMENSIONS) {
+    this.dimensions = dimensions
+    this.id = `hashing-v1-${dimensions}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text))
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+    const counts = new Map<string, number>()
+
+    for (const [feature, weight] of extractFeatures(text)) {
+      counts.set(feature, (counts.get(feature) ?? 0) + weight)
+    }
+
+    for (const [feature, weight] of counts) {
+      const hash = fnv1a(feature)
+      const index = hash % this.dimensions
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1
+      // 平方根词频，抑制重复特征
+      vector[index]! += sign * Math.sqrt(weight)
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+    return norm > 0 ? vector.map(v => v / norm) : vector
+  }
+}
+
+// ==================== 工具函数 ====================
+
+/** 特征及权重：CJK 单字 0.5 / 双字 1.0，英文整词 1.0 / 词内 3-gram 0.5 */
+function extractFeatures(text: string): Array<[string, number]> {
+  const features: Array<[string, number]> = []
+  const lower = text.toLowerCase()
+
+  for (const part of lower.match(/[\u4e00-\u9fff\u3400-\u4dbf]+/g) ?? []) {
+    for (let i = 0; i < part.length; i++) {
+      features.push([`c1:${part[i]}`, 0.5])
+      if (i + 1 < part.length) {
+        features.push([`c2:${part.slice(i, i + 2)}`, 1.0])
+      }
+    }
+  }
+
+  for (const word of lower.match(/[a-z0-9]+/g) ?? []) {
+    features.push([`w:${word}`, 1.0])
+    const padded = `^${word}$`
+    for (let i = 0; i <= padded.length - 3; i++) {
+      features.push([`t:${padded.slice(i, i + 3)}`, 0.5])
+    }
+  }
+
+  return features
+}
+
+/** FNV-1a 32 位哈希 */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
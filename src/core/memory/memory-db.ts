@@ -1,15 +1,30 @@
 /**
  * MemoryDB - JSONL 明文记忆存储引擎
  * V5.3 - keywords 索引分离：text 保持简洁，keywords 存同义词/别名用于搜索扩召回
+ * V5.4 - 倒排索引 + BM25F 排序（见 memory-index.ts）
+ * V5.5 - 语义检索：向量存储于 data/memory.vectors.jsonl，search 支持 keyword / semantic / hybrid
+ * V5.6 - 变更日志：每次写入 / 删除追加到 data/memory.history.jsonl，支持查看历史与回滚
+ * V5.7 - 记忆作用域：user_id / chat_id 限定记忆只在对应发信人 / 飞书会话中可见，均为空表示全局
+ * V5.8 - 待确认队列：自动提取的候选记忆暂存于 data/memory.pending.jsonl，确认后才写入
+ * V5.9 - 定期整理：合并 / 改写后的记忆通过 derived_from 指向变更日志中的原始快照
+ * V5.10 - 审核收件箱：delete_memory 删除请求同样进入审核队列，审核决定记录到 data/memory.reviews.jsonl
+ * V5.11 - 导入 / 导出：Markdown / JSON 导出，Markdown / CSV / JSONL / JSON 导入，冲突按 skip / overwrite / merge 处理
+ * V5.12 - 有效期：valid_from / expires_at 之外的记忆不参与检索与注入，过期记忆移入 data/memory.archive.jsonl
  *
  * 存储格式（data/memory.jsonl）:
- * {"id":1,"source":"USER","cat":"preference","imp":4,"text":"不要使用emoji","keywords":"表情 表情符号 颜文字 emoticon","created_at":"...","updated_at":"..."}
+ * {"id":1,"source":"USER","cat":"preference","imp":4,"text":"不要使用emoji","keywords":"表情 表情符号 颜文字 emoticon","user_id":"ou_xxx","created_at":"...","updated_at":"..."}
  */
 
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 import { MEMORY_CONFIG } from './config.js'
 import type { MemoryCat, MemorySource } from './config.js'
+import { MemoryIndex, extractSearchTokens } from './memory-index.js'
+import { MemoryVectorStore } from './memory-vectors.js'
+import { createEmbeddingProvider, type EmbeddingProvider } from './embedding-provider.js'
+import { MemoryHistory, type MemoryActor, type MemoryChange } from './memory-history.js'
+import { MemoryPendingQueue, type PendingMemory } from './memory-pending.js'
+import type { ImportCandidate, ImportItem, ImportReport, ImportStrategy } from './memory-transfer.js'
 
 // ==================== 类型定义 ====================
 
@@ -20,85 +35,76 @@ export interface MemoryEntry {
   imp: number       // 重要性 1-5
   text: string      // 记忆内容（自然语言，简洁）
   keywords: string  // 同义词/别名索引（空格分隔，仅搜索用，不注入 prompt）
+  user_id?: string  // 作用域：仅该发信人（飞书 open_id）可见
+  chat_id?: string  // 作用域：仅该飞书会话可见
+  derived_from?: MemoryOrigin[]  // 整理（合并 / 改写）前的原始记忆
+  valid_from?: string   // 生效时间（ISO 8601），之前不参与检索与注入
+  expires_at?: string   // 过期时间（ISO 8601），过期后移入归档文件
   created_at: string
   updated_at: string
 }
 
+/**
+ * 原始记忆指针：变更日志中序号为 seq 的变更，其 before 即原始快照
+ */
+export interface MemoryOrigin {
+  id: number
+  seq: number
+}
+
 export interface SearchResult extends MemoryEntry {
   score: number     // 综合得分
   fts_rank: number  // 兼容字段，匹配命中数
+  similarity?: number  // 语义相似度（semantic / hybrid 模式）
 }
 
-export interface MemoryStats {
-  total: number
-  byCategory: Record<string, number>
-  bySource: Record<string, number>
-}
-
-// ==================== 搜索辅助函数 ====================
-
 /**
- * 提取搜索 token：空格分词 + N-gram 双策略
- *
- * 1. 先按空格/标点切分
- * 2. 对每个切分片段：
- *    - 英文/数字片段保留原样
- *    - 中文片段生成 2-gram 和 3-gram
- * 3. 去重后返回
+ * 记忆可见范围：当前发信人 + 当前飞书会话
+ * 记忆的 user_id / chat_id 非空时必须分别与之匹配；未传 scope 表示不过滤（管理视图）
  */
-function extractSearchTokens(text: string): string[] {
-  const trimmed = text.slice(0, 100).toLowerCase()
+export interface MemoryScope {
+  userId?: string
+  chatId?: string
+}
 
-  const segments = trimmed
-    .split(/[\s,;.!?，。；！？、\n:：()\[\]{}""''「」【】]+/)
-    .filter(s => s.length > 0)
+/** 记忆在给定作用域下是否可见 */
+export function isMemoryVisible(entry: MemoryEntry, scope: MemoryScope): boolean {
+  if (entry.user_id && entry.user_id !== scope.userId) return false
+  if (entry.chat_id && entry.chat_id !== scope.chatId) return false
+  return true
+}
 
-  const tokens = new Set<string>()
+/** 记忆当前是否在有效期内（valid_from ≤ now < expires_at，未设置的一端不限） */
+export function isMemoryActive(entry: Pick<MemoryEntry, 'valid_from' | 'expires_at'>, now: number = Date.now()): boolean {
+  if (entry.valid_from && Date.parse(entry.valid_from) > now) return false
+  if (entry.expires_at && Date.parse(entry.expires_at) <= now) return false
+  return true
+}
 
-  for (const seg of segments) {
-    const hasCJK = /[\u4e00-\u9fff\u3400-\u4dbf]/.test(seg)
+/** 检索模式：关键词（BM25F）/ 语义（向量）/ 混合 */
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid'
 
-    if (!hasCJK) {
-      if (seg.length > 1) tokens.add(seg)
-    } else {
-      // 英文部分作为整体 token
-      const engParts = seg.match(/[a-z0-9]+/gi)
-      if (engParts) {
-        for (const ep of engParts) {
-          if (ep.length > 1) tokens.add(ep.toLowerCase())
-        }
-      }
+export const SEARCH_MODES: SearchMode[] = ['keyword', 'semantic', 'hybrid']
 
-      // CJK 连续片段做 N-gram
-      const cjkParts = seg.match(/[\u4e00-\u9fff\u3400-\u4dbf]+/g)
-      if (cjkParts) {
-        for (const part of cjkParts) {
-          if (part.length <= 3) {
-            if (part.length >= 2) tokens.add(part)
-            continue
-          }
-          for (let i = 0; i <= part.length - 2; i++) {
-            tokens.add(part.slice(i, i + 2))
-          }
-          for (let i = 0; i <= part.length - 3; i++) {
-            tokens.add(part.slice(i, i + 3))
-          }
-        }
-      }
-    }
-  }
-
-  return [...tokens]
+export interface MemoryStats {
+  total: number
+  byCategory: Record<string, number>
+  bySource: Record<string, number>
 }
 
 // ==================== MemoryDB 类 ====================
 
 export class MemoryDB {
   private filePath: string
+  private archivePath: string
   private entries: MemoryEntry[] = []
   private nextId: number = 1
+  private index = new MemoryIndex()
+  private vectors: MemoryVectorStore
+  private history: MemoryHistory
+  private pending: MemoryPendingQueue
 
-  constructor(dbPath?: string) {
+  constructor(dbPath?: string, embeddingProvider: EmbeddingProvider = createEmbeddingProvider()) {
     const rawPath = dbPath || MEMORY_CONFIG.DB_PATH
     this.filePath = rawPath.replace(/\.(db|md)$/, '.jsonl')
 
@@ -107,7 +113,15 @@ export class MemoryDB {
       fs.mkdirSync(dir, { recursive: true })
     }
 
+    this.archivePath = this.filePath.replace(/\.jsonl$/, '.archive.jsonl')
+    this.vectors = new MemoryVectorStore(this.filePath.replace(/\.jsonl$/, '.vectors.jsonl'), embeddingProvider)
+    this.history = new MemoryHistory(this.filePath.replace(/\.jsonl$/, '.history.jsonl'))
+    this.pending = new MemoryPendingQueue(
+      this.filePath.replace(/\.jsonl$/, '.pending.jsonl'),
+      this.filePath.replace(/\.jsonl$/, '.reviews.jsonl'),
+    )
     this.load()
+    this.archiveExpired()
     console.log(`📝 MemoryDB (JSONL) 初始化完成: ${this.filePath} (${this.entries.length} entries)`)
   }
 
@@ -115,10 +129,11 @@ export class MemoryDB {
 
   /**
    * 插入记忆（含写入时去重）
+   * @param actor - 变更来源，记录到变更日志
    * @returns 'added' | 'merged' | 'skipped'
    */
-  insert(entry: Omit<MemoryEntry, 'id' | 'created_at' | 'updated_at'>): string {
-    const duplicateCheck = this.checkDuplicate(entry.text, entry.cat)
+  insert(entry: Omit<MemoryEntry, 'id' | 'created_at' | 'updated_at'>, actor: MemoryActor = 'system'): string {
+    const duplicateCheck = this.checkDuplicate(entry)
 
     if (duplicateCheck.action === 'skip') {
       return 'skipped'
@@ -129,11 +144,16 @@ export class MemoryDB {
     if (duplicateCheck.action === 'merge' && duplicateCheck.existingId !== undefined) {
       const existing = this.entries.find(e => e.id === duplicateCheck.existingId)
       if (existing) {
+        const before = { ...existing }
         existing.text = entry.text
         existing.keywords = entry.keywords || existing.keywords
         existing.imp = Math.max(existing.imp, entry.imp)
+        // 内容以新记忆为准，有效期随之更新
+        this.setValidity(existing, entry)
         existing.updated_at = now
+        this.index.add(existing)
         this.rewrite()
+        this.history.record({ id: existing.id!, op: 'merge', actor, before, after: { ...existing } })
       }
       return 'merged'
     }
@@ -145,52 +165,261 @@ export class MemoryDB {
       imp: entry.imp,
       text: entry.text,
       keywords: entry.keywords || '',
+      ...(entry.user_id ? { user_id: entry.user_id } : {}),
+      ...(entry.chat_id ? { chat_id: entry.chat_id } : {}),
+      ...(entry.valid_from ? { valid_from: entry.valid_from } : {}),
+      ...(entry.expires_at ? { expires_at: entry.expires_at } : {}),
       created_at: now,
       updated_at: now,
     }
     this.entries.push(newEntry)
+    this.index.add(newEntry)
     this.appendOne(newEntry)
+    this.history.record({ id: newEntry.id!, op: 'insert', actor, after: { ...newEntry } })
     return 'added'
   }
 
   /**
    * 更新指定记忆
    */
-  update(id: number, fields: Partial<Pick<MemoryEntry, 'text' | 'imp' | 'cat' | 'keywords'>>): void {
+  update(
+    id: number,
+    fields: Partial<Pick<MemoryEntry, 'text' | 'imp' | 'cat' | 'keywords'>>,
+    actor: MemoryActor = 'system',
+  ): void {
     const entry = this.entries.find(e => e.id === id)
     if (!entry) return
 
+    const before = { ...entry }
     if (fields.text !== undefined) entry.text = fields.text
     if (fields.imp !== undefined) entry.imp = fields.imp
     if (fields.cat !== undefined) entry.cat = fields.cat
     if (fields.keywords !== undefined) entry.keywords = fields.keywords
     entry.updated_at = new Date().toISOString().replace('T', ' ').slice(0, 19)
 
+    this.index.add(entry)
     this.rewrite()
+    this.history.record({ id, op: 'update', actor, before, after: { ...entry } })
   }
 
   /**
    * 按 ID 删除
    */
-  deleteById(id: number): void {
-    this.entries = this.entries.filter(e => e.id !== id)
+  deleteById(id: number, actor: MemoryActor = 'system'): void {
+    this.removeEntries(new Set([id]), actor)
+  }
+
+  /**
+   * 整理：将多条记忆合并为一条（或改写单条），保留第一条的 ID，其余删除
+   * 结果的 derived_from 追加每条原始记忆在变更日志中的位置，原有指针一并继承
+   * @returns 整理后的记忆；ID 不存在或跨作用域时返回 null
+   */
+  consolidate(
+    ids: number[],
+    fields: Partial<Pick<MemoryEntry, 'text' | 'imp' | 'keywords'>>,
+    actor: MemoryActor = 'consolidation',
+  ): MemoryEntry | null {
+    const sources = ids.map(id => this.entries.find(e => e.id === id))
+    const [target, ...others] = sources
+    if (!target || sources.some(e => !e || !this.sameScope(e, target))) return null
+
+    const origins: MemoryOrigin[] = [...(target.derived_from ?? [])]
+    const removed = (others as MemoryEntry[]).map(e => ({ ...e }))
+    for (const other of others as MemoryEntry[]) {
+      origins.push(...(other.derived_from ?? []), { id: other.id!, seq: this.history.peekSeq() })
+      this.removeEntries(new Set([other.id!]), actor)
+    }
+
+    const before = { ...target }
+    origins.push({ id: target.id!, seq: this.history.peekSeq() })
+    if (fields.text !== undefined) target.text = fields.text
+    if (fields.keywords !== undefined) target.keywords = fields.keywords
+    target.imp = fields.imp ?? Math.max(...(sources as MemoryEntry[]).map(e => e.imp))
+    target.derived_from = origins
+    target.updated_at = new Date().toISOString().replace('T', ' ').slice(0, 19)
+
+    this.index.add(target)
     this.rewrite()
+    this.history.record({ id: target.id!, op: 'consolidate', actor, before, after: { ...target }, removed: removed.length > 0 ? removed : undefined })
+    return target
+  }
+
+  /**
+   * 记忆向量（记忆 ID → 向量），用于按语义相近程度分组
+   */
+  async getEmbeddings(): Promise<Map<number, number[]>> {
+    return this.vectors.vectorsOf(this.entries)
+  }
+
+  // ==================== 版本历史 ====================
+
+  /**
+   * 单条记忆的变更历史（按时间正序）
+   */
+  getHistory(id: number): MemoryChange[] {
+    return this.history.list(id)
+  }
+
+  /**
+   * 指定序号之后的全部变更（用于统计上次整理以来的新增 / 修改）
+   */
+  getChangesSince(seq: number): MemoryChange[] {
+    return this.history.since(seq)
+  }
+
+  /**
+   * 最近一次变更的序号
+   */
+  getLatestChangeSeq(): number {
+    return this.history.peekSeq() - 1
+  }
+
+  /**
+   * 回滚：将记忆恢复到指定变更（缺省为最近一次变更）之前的状态
+   * - 回滚 insert：删除该记忆
+   * - 回滚 delete：以原 ID 恢复该记忆
+   * - 回滚 consolidate：恢复为变更前快照，被合并删除的其他记忆以原 ID 一并恢复
+   * - 其他：恢复为变更前快照
+   * 恢复的快照已过期时（如回滚过期归档）清除 expires_at，否则下次归档会再次将其移走
+   * 回滚本身也记入变更日志（op=revert），因此对同一记忆连续 undo 会在两个版本间切换
+   * @returns 本次回滚的变更记录，找不到指定变更时返回 null
+   */
+  revert(id: number, actor: MemoryActor = 'system', seq?: number): MemoryChange | null {
+    const target = this.history.find(id, seq)
+    if (!target) return null
+
+    const current = this.entries.find(e => e.id === id)
+    const before = current ? { ...current } : undefined
+    const restored = target.before ? { ...target.before } : undefined
+    if (restored?.expires_at && Date.parse(restored.expires_at) <= Date.now()) {
+      delete restored.expires_at
+    }
+
+    if (!restored) {
+      if (!current) return null
+      this.entries = this.entries.filter(e => e.id !== id)
+      this.index.remove(id)
+      this.vectors.remove([id])
+    } else if (current) {
+      this.entries[this.entries.indexOf(current)] = restored
+      this.index.add(restored)
+    } else {
+      this.entries.push(restored)
+      this.index.add(restored)
+    }
+
+    const revived = (target.removed ?? [])
+      .filter(entry => !this.entries.some(e => e.id === entry.id))
+      .map(entry => ({ ...entry }))
+    for (const entry of revived) {
+      this.entries.push(entry)
+      this.index.add(entry)
+    }
+
+    this.rewrite()
+    for (const entry of revived) {
+      this.history.record({ id: entry.id!, op: 'revert', actor, after: { ...entry } })
+    }
+    return this.history.record({ id, op: 'revert', actor, before, after: restored })
+  }
+
+  // ==================== 审核队列 ====================
+
+  /**
+   * 暂存待审核项（自动提取的候选 / 删除请求），等待人工审核
+   */
+  stagePending(item: Omit<PendingMemory, 'id' | 'proposed_at'>): PendingMemory {
+    return this.pending.add(item)
+  }
+
+  getPending(id: number): PendingMemory | undefined {
+    return this.pending.get(id)
+  }
+
+  /**
+   * 待审核项列表
+   * @param scope - 只返回该作用域下可见的项（删除请求要求全部目标可见），缺省不过滤
+   */
+  listPending(scope?: MemoryScope): PendingMemory[] {
+    const items = this.pending.list()
+    if (!scope) return items
+    return items.filter(p => p.op === 'insert'
+      ? isMemoryVisible(p.entry as MemoryEntry, scope)
+      : (p.targets ?? []).every(t => isMemoryVisible(t, scope)))
+  }
+
+  /**
+   * 通过审核：出队并执行，记录审核日志
+   * - 新增：按常规流程去重写入
+   * - 删除：只删除仍存在的目标
+   * - 整理：原始记忆均未变更时执行 consolidate，否则跳过
+   * @param fields - 新增 / 整理前的修改（非空时记为 edited）
+   * @param reviewer - 审核人 open_id
+   * @returns 执行结果（added / merged / skipped / deleted / consolidated），找不到待审核项时返回 null
+   */
+  acceptPending(
+    id: number,
+    actor: MemoryActor = 'system',
+    fields: Partial<Pick<MemoryEntry, 'text' | 'cat' | 'imp' | 'keywords'>> = {},
+    reviewer?: string,
+  ): string | null {
+    const item = this.pending.remove(id)
+    if (!item) return null
+
+    let result: string
+    if (item.op === 'delete') {
+      const ids = new Set((item.targets ?? []).map(t => t.id!).filter(tid => this.entries.some(e => e.id === tid)))
+      this.removeEntries(ids, actor)
+      result = 'deleted'
+    } else if (item.op === 'consolidate') {
+      const targets = item.targets ?? []
+      const unchanged = targets.every(t => this.entries.find(e => e.id === t.id)?.updated_at === t.updated_at)
+      const { text, keywords, imp } = { ...item.entry!, ...fields }
+      result = unchanged && this.consolidate(targets.map(t => t.id!), { text, keywords, imp }, actor)
+        ? 'consolidated'
+        : 'skipped'
+    } else {
+      result = this.insert({ ...item.entry!, ...fields }, actor)
+    }
+
+    const edited = item.op !== 'delete' && Object.keys(fields).length > 0
+    this.pending.logDecision({ pending_id: id, decision: edited ? 'edited' : 'approved', reviewer, result, item })
+    return result
+  }
+
+  /**
+   * 拒绝：直接丢弃，记录审核日志
+   */
+  rejectPending(id: number, reviewer?: string): PendingMemory | null {
+    const item = this.pending.remove(id)
+    if (!item) return null
+    this.pending.logDecision({ pending_id: id, decision: 'rejected', reviewer, item })
+    return item
   }
 
   // ==================== 搜索 ====================
 
   /**
-   * N-gram + 关键词搜索 + 重要性加权排序
+   * 记忆检索，重要性与时效作为加权项
    *
    * 搜索策略：
-   * 1. 从 query 中提取 token（英文保留原词，中文生成 2/3-gram）
-   * 2. 对每条记忆同时匹配 text 和 keywords 两个字段
-   * 3. text 命中权重 1.0，keywords 命中权重 0.6（避免同义词膨胀导致分数反超）
-   * 4. 综合得分 = imp × 2 + normalizedMatch × 3
+   * - keyword:  从 query 中提取 token（英文保留原词，中文生成 2/3-gram），
+   *             通过倒排索引按 BM25F 计算相关度（text / keywords 分字段加权）
+   * - semantic: query 与记忆向量的余弦相似度（低于 MIN_SIMILARITY 的不召回）
+   * - hybrid:   两路召回取并集，相关度 = 归一化 BM25 × 关键词权重 + 相似度 × 语义权重；
+   *             向量化失败时降级为 keyword
+   * 综合得分 = 相关度 + imp × IMPORTANCE_BOOST + RECENCY_BOOST × 时效衰减
+   * 未生效 / 已过期的记忆不参与检索
+   * @param scope - 只返回该作用域下可见的记忆，缺省不过滤
    */
-  search(query: string, limit: number = 20): SearchResult[] {
+  async search(
+    query: string,
+    limit: number = 20,
+    mode: SearchMode = 'hybrid',
+    scope?: MemoryScope,
+  ): Promise<SearchResult[]> {
     if (!query || !query.trim()) {
-      return this.getTopMemories(limit).map(e => ({
+      return this.getTopMemories(limit, scope).map(e => ({
         ...e,
         score: e.imp * 2.0,
         fts_rank: 0,
@@ -199,42 +428,61 @@ export class MemoryDB {
 
     const tokens = extractSearchTokens(query)
 
-    if (tokens.length === 0) {
-      return this.getTopMemories(limit).map(e => ({
+    if (tokens.length === 0 && mode === 'keyword') {
+      return this.getTopMemories(limit, scope).map(e => ({
         ...e,
         score: e.imp * 2.0,
         fts_rank: 0,
       }))
     }
 
+    const hits = mode === 'semantic' ? [] : this.index.search(tokens)
+    let similarities = new Map<number, number>()
+    if (mode !== 'keyword') {
+      try {
+        similarities = await this.vectors.similarity(query, this.entries)
+      } catch (error) {
+        if (mode === 'semantic') throw error
+        console.warn('⚠️ 记忆向量化失败，降级为关键词检索:', error)
+        mode = 'keyword'
+      }
+    }
+
+    const { IMPORTANCE_BOOST, RECENCY_BOOST, RECENCY_HALF_LIFE_HOURS } = MEMORY_CONFIG.SEARCH
+    const { MIN_SIMILARITY, HYBRID_KEYWORD_WEIGHT, HYBRID_SEMANTIC_WEIGHT, RELEVANCE_SCALE } = MEMORY_CONFIG.EMBEDDING
+    const hitById = new Map(hits.map(h => [h.id, h]))
+    const maxBm25 = Math.max(0, ...hits.map(h => h.bm25))
+    const now = Date.now()
     const scored: SearchResult[] = []
 
     for (const entry of this.entries) {
-      const textLower = entry.text.toLowerCase()
-      const kwLower = (entry.keywords || '').toLowerCase()
-
-      let weightedMatch = 0
-      let rawMatchCount = 0
-
-      for (const token of tokens) {
-        const inText = textLower.includes(token)
-        const inKw = kwLower.includes(token)
-
-        if (inText || inKw) {
-          rawMatchCount++
-          // text 命中权重 1.0，keywords 命中权重 0.6，两者都命中取 1.0
-          weightedMatch += inText ? 1.0 : 0.6
-        }
+      if (entry.id === undefined) continue
+      if (scope && !isMemoryVisible(entry, scope)) continue
+      if (!isMemoryActive(entry, now)) continue
+      const hit = hitById.get(entry.id)
+      const similarity = similarities.get(entry.id)
+      const semanticHit = similarity !== undefined && similarity >= MIN_SIMILARITY
+      if (!hit && !semanticHit) continue
+
+      let relevance: number
+      if (mode === 'keyword') {
+        relevance = hit!.bm25
+      } else if (mode === 'semantic') {
+        relevance = similarity! * RELEVANCE_SCALE
+      } else {
+        const keywordScore = hit && maxBm25 > 0 ? hit.bm25 / maxBm25 : 0
+        relevance = (keywordScore * HYBRID_KEYWORD_WEIGHT + (similarity ?? 0) * HYBRID_SEMANTIC_WEIGHT) * RELEVANCE_SCALE
       }
 
-      if (rawMatchCount > 0) {
-        const normalizedMatch = (weightedMatch / tokens.length) * Math.min(tokens.length, 10)
-        scored.push({
-          ...entry,
-          fts_rank: rawMatchCount,
-          score: entry.imp * 2.0 + normalizedMatch * 3.0,
-        })
-      }
+      const ageHours = Math.max(0, (now - new Date(entry.updated_at).getTime()) / (1000 * 60 * 60))
+      const recency = Math.pow(2, -ageHours / RECENCY_HALF_LIFE_HOURS) || 0
+
+      scored.push({
+        ...entry,
+        fts_rank: hit?.matched ?? 0,
+        ...(similarity !== undefined ? { similarity: Math.round(similarity * 1e4) / 1e4 } : {}),
+        score: relevance + entry.imp * IMPORTANCE_BOOST + recency * RECENCY_BOOST,
+      })
     }
 
     scored.sort((a, b) => b.score - a.score)
@@ -262,10 +510,13 @@ export class MemoryDB {
   }
 
   /**
-   * 获取最高重要性记忆
+   * 获取最高重要性记忆（不含未生效 / 已过期的记忆）
+   * @param scope - 只返回该作用域下可见的记忆，缺省不过滤
    */
-  getTopMemories(limit: number = 50): MemoryEntry[] {
-    return [...this.entries]
+  getTopMemories(limit: number = 50, scope?: MemoryScope): MemoryEntry[] {
+    const now = Date.now()
+    return this.entries
+      .filter(e => (!scope || isMemoryVisible(e, scope)) && isMemoryActive(e, now))
       .sort((a, b) => b.imp - a.imp || b.updated_at.localeCompare(a.updated_at))
       .slice(0, limit)
   }
@@ -298,11 +549,11 @@ export class MemoryDB {
 
   // ==================== 删除 ====================
 
-  delete(query: string, options: { exact_match?: boolean; dry_run?: boolean } = {}): {
+  delete(query: string, options: { exact_match?: boolean; dry_run?: boolean; actor?: MemoryActor } = {}): {
     count: number
     entries: MemoryEntry[]
   } {
-    const { exact_match = false, dry_run = false } = options
+    const { exact_match = false, dry_run = false, actor = 'system' } = options
 
     let matched: MemoryEntry[]
     if (exact_match) {
@@ -312,9 +563,7 @@ export class MemoryDB {
     }
 
     if (!dry_run && matched.length > 0) {
-      const ids = new Set(matched.map(e => e.id))
-      this.entries = this.entries.filter(e => !ids.has(e.id))
-      this.rewrite()
+      this.removeEntries(new Set(matched.map(e => e.id!)), actor)
     }
 
     return { count: matched.length, entries: matched }
@@ -326,6 +575,7 @@ export class MemoryDB {
     maxEntries: number = MEMORY_CONFIG.CAPACITY.MAX_ENTRIES,
     keepEntries: number = MEMORY_CONFIG.CAPACITY.KEEP_ENTRIES
   ): number {
+    this.archiveExpired()
     if (this.entries.length <= maxEntries) return 0
 
     const toDelete = this.entries.length - keepEntries
@@ -339,14 +589,51 @@ export class MemoryDB {
     })
 
     scored.sort((a, b) => a.decayScore - b.decayScore)
-    const idsToRemove = new Set(scored.slice(0, toDelete).map(s => s.entry.id))
-    this.entries = this.entries.filter(e => !idsToRemove.has(e.id))
-    this.rewrite()
+    const idsToRemove = new Set(scored.slice(0, toDelete).map(s => s.entry.id!))
+    this.removeEntries(idsToRemove, 'compaction')
 
     console.log(`🗑️ MemoryDB compact: 淘汰了 ${toDelete} 条记忆`)
     return toDelete
   }
 
+  // ==================== 归档 ====================
+
+  /**
+   * 将已过期的记忆移入归档文件（data/memory.archive.jsonl），变更日志记为 archive，可通过 revert 恢复
+   * 启动时与每次淘汰检查（compact）前执行
+   * @returns 归档条数
+   */
+  archiveExpired(now: number = Date.now()): number {
+    const expired = this.entries.filter(e => e.expires_at && Date.parse(e.expires_at) <= now)
+    if (expired.length === 0) return 0
+
+    const archivedAt = new Date(now).toISOString()
+    const lines = expired.map(e => JSON.stringify({ ...e, archived_at: archivedAt })).join('\n')
+    fs.appendFileSync(this.archivePath, lines + '\n', 'utf-8')
+    this.removeEntries(new Set(expired.map(e => e.id!)), 'expiry', 'archive')
+
+    console.log(`📦 MemoryDB: 归档了 ${expired.length} 条过期记忆`)
+    return expired.length
+  }
+
+  /**
+   * 已归档的记忆（按归档时间正序）
+   */
+  getArchived(): Array<MemoryEntry & { archived_at: string }> {
+    if (!fs.existsSync(this.archivePath)) return []
+
+    const archived: Array<MemoryEntry & { archived_at: string }> = []
+    for (const line of fs.readFileSync(this.archivePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue
+      try {
+        archived.push(JSON.parse(line))
+      } catch {
+        console.warn(`⚠️ 跳过损坏的归档记忆行: ${line.slice(0, 80)}...`)
+      }
+    }
+    return archived
+  }
+
   // ==================== 导出 ====================
 
   exportToJsonl(outputPath: string): number {
@@ -369,16 +656,89 @@ export class MemoryDB {
     console.log(`📝 MemoryDB 备份完成: ${targetPath}`)
   }
 
+  // ==================== 导入 ====================
+
+  /**
+   * 批量导入（格式解析见 memory-transfer.ts）
+   *
+   * 冲突判定（只与同一作用域内的记忆比较）:
+   *   - 候选带 ID（编辑后导回的 md / json）且原记忆仍存在 → 与原记忆冲突，内容未修改则跳过
+   *   - 内容完全相同 → 跳过
+   *   - 同分类 Jaccard 相似度超过 DEDUP.JACCARD_THRESHOLD → 与最相似的一条冲突
+   * 冲突按 strategy 处理：skip 跳过（列入 conflicts） / overwrite 以导入内容覆盖 / merge 内容取导入值、重要性取较高、关键词取并集
+   * 新增时仍经写入去重，与本次导入的其他记忆重复记为 skip、相似而合并记为 merge
+   * @param dryRun - 只生成预览（diff），不写入
+   */
+  importEntries(
+    candidates: ImportCandidate[],
+    options: { strategy?: ImportStrategy; dryRun?: boolean; actor?: MemoryActor } = {},
+  ): ImportReport {
+    const { strategy = 'skip', dryRun = false, actor = 'system' } = options
+    const report: ImportReport = {
+      strategy, dryRun, added: 0, overwritten: 0, merged: 0, skipped: 0, items: [], conflicts: [], errors: [],
+    }
+
+    for (const candidate of candidates) {
+      const item = this.planImport(candidate, strategy)
+      if (!dryRun) {
+        if (item.action === 'add') {
+          const { id: _id, ...entry } = candidate
+          const { existingId } = this.checkDuplicate(entry)
+          const existing = this.entries.find(e => e.id === existingId)
+          const before = existing ? { ...existing } : undefined
+          const result = this.insert(entry, actor)
+          if (result === 'skipped') {
+            Object.assign(item, { action: 'skip', after: undefined, reason: '与本次导入的其他记忆重复' })
+          } else if (result === 'merged' && existing) {
+            const { text, cat, imp, keywords } = existing
+            Object.assign(item, { action: 'merge', before, after: { text, cat, imp, keywords }, reason: '写入时与相似记忆合并' })
+          }
+        } else if (item.action !== 'skip') {
+          this.update(item.before!.id!, item.after!, actor)
+        }
+      }
+
+      report.items.push(item)
+      if (item.conflict && item.action === 'skip') report.conflicts.push(item)
+      if (item.action === 'add') report.added++
+      else if (item.action === 'overwrite') report.overwritten++
+      else if (item.action === 'merge') report.merged++
+      else report.skipped++
+    }
+
+    return report
+  }
+
   close(): void {
     // no-op
   }
 
+  // ==================== 内部方法：删除 ====================
+
+  /**
+   * 批量删除并同步索引、向量与变更日志
+   */
+  private removeEntries(ids: Set<number>, actor: MemoryActor, op: 'delete' | 'archive' = 'delete'): void {
+    const removed = this.entries.filter(e => ids.has(e.id!))
+    if (removed.length === 0) return
+
+    this.entries = this.entries.filter(e => !ids.has(e.id!))
+    for (const id of ids) this.index.remove(id)
+    this.vectors.remove(ids)
+    this.rewrite()
+
+    for (const entry of removed) {
+      this.history.record({ id: entry.id!, op, actor, before: { ...entry } })
+    }
+  }
+
   // ==================== 内部方法：持久化 ====================
 
   private load(): void {
     if (!fs.existsSync(this.filePath)) {
       this.entries = []
       this.nextId = 1
+      this.index.rebuild([])
       return
     }
 
@@ -398,6 +758,11 @@ export class MemoryDB {
           imp: raw.imp as number,
           text: raw.text as string,
           keywords: (raw.keywords as string) || '',
+          ...(raw.user_id ? { user_id: raw.user_id as string } : {}),
+          ...(raw.chat_id ? { chat_id: raw.chat_id as string } : {}),
+          ...(Array.isArray(raw.derived_from) ? { derived_from: raw.derived_from as MemoryOrigin[] } : {}),
+          ...(raw.valid_from ? { valid_from: raw.valid_from as string } : {}),
+          ...(raw.expires_at ? { expires_at: raw.expires_at as string } : {}),
           created_at: raw.created_at as string,
           updated_at: raw.updated_at as string,
         }
@@ -411,6 +776,7 @@ export class MemoryDB {
     }
 
     this.nextId = maxId + 1
+    this.index.rebuild(this.entries)
   }
 
   private appendOne(entry: MemoryEntry): void {
@@ -422,25 +788,111 @@ export class MemoryDB {
     fs.writeFileSync(this.filePath, lines ? lines + '\n' : '', 'utf-8')
   }
 
-  // ==================== 内部方法：去重 ====================
+  // ==================== 内部方法：有效期 ====================
+
+  private setValidity(target: MemoryEntry, source: Pick<MemoryEntry, 'valid_from' | 'expires_at'>): void {
+    if (source.valid_from) target.valid_from = source.valid_from
+    else delete target.valid_from
+    if (source.expires_at) target.expires_at = source.expires_at
+    else delete target.expires_at
+  }
+
+  // ==================== 内部方法：导入 ====================
+
+  private planImport(candidate: ImportCandidate, strategy: ImportStrategy): ImportItem {
+    const sameScope = this.entries.filter(e => this.sameScope(e, candidate))
+
+    const original = candidate.id !== undefined ? sameScope.find(e => e.id === candidate.id) : undefined
+    if (original) {
+      const unchanged = original.text === candidate.text
+        && original.cat === candidate.cat
+        && original.imp === candidate.imp
+        && (!candidate.keywords || original.keywords === candidate.keywords)
+      return unchanged
+        ? { action: 'skip', candidate, before: original, reason: '未修改' }
+        : this.resolveImportConflict(candidate, original, strategy, `ID #${original.id}`)
+    }
+
+    const exact = sameScope.find(e => e.text === candidate.text)
+    if (exact) {
+      return { action: 'skip', candidate, before: exact, reason: '内容相同' }
+    }
+
+    let similar: MemoryEntry | undefined
+    let bestSimilarity: number = MEMORY_CONFIG.DEDUP.JACCARD_THRESHOLD
+    for (const existing of sameScope) {
+      if (existing.cat !== candidate.cat) continue
+      const similarity = this.jaccardSimilarity(candidate.text, existing.text)
+      if (similarity > bestSimilarity) {
+        similar = existing
+        bestSimilarity = similarity
+      }
+    }
+    if (similar) {
+      return this.resolveImportConflict(candidate, similar, strategy, `相似度 ${bestSimilarity.toFixed(2)}`)
+    }
+
+    const { text, cat, imp, keywords } = candidate
+    return { action: 'add', candidate, after: { text, cat, imp, keywords } }
+  }
+
+  private resolveImportConflict(
+    candidate: ImportCandidate,
+    existing: MemoryEntry,
+    strategy: ImportStrategy,
+    basis: string,
+  ): ImportItem {
+    if (strategy === 'skip') {
+      return { action: 'skip', candidate, before: existing, reason: `与已有记忆冲突（${basis}）`, conflict: true }
+    }
 
-  private checkDuplicate(text: string, cat: string): {
+    const after = strategy === 'overwrite'
+      ? {
+        text: candidate.text,
+        cat: candidate.cat,
+        imp: candidate.imp,
+        keywords: candidate.keywords || existing.keywords,
+      }
+      : {
+        text: candidate.text,
+        cat: candidate.cat,
+        imp: Math.max(existing.imp, candidate.imp),
+        keywords: [...new Set(`${existing.keywords} ${candidate.keywords}`.split(/\s+/).filter(Boolean))].join(' '),
+      }
+    return { action: strategy, candidate, before: { ...existing }, after, reason: basis, conflict: true }
+  }
+
+  // ==================== 去重 ====================
+
+  /**
+   * 写入时去重：只与同一作用域内的记忆比较，避免不同用户 / 会话的记忆互相合并
+   * 也供自动提取在写入前预判候选是否已存在
+   */
+  checkDuplicate(entry: Pick<MemoryEntry, 'text' | 'cat' | 'user_id' | 'chat_id'>): {
     action: 'add' | 'merge' | 'skip'
     existingId?: number
   } {
-    const exact = this.entries.find(e => e.text === text)
+    const { text, cat } = entry
+    const sameScope = this.entries.filter(e => this.sameScope(e, entry))
+
+    const exact = sameScope.find(e => e.text === text)
     if (exact) return { action: 'skip' }
 
-    const sameCat = this.entries.filter(e => e.cat === cat)
-    for (const entry of sameCat) {
-      if (this.jaccardSimilarity(text, entry.text) > MEMORY_CONFIG.DEDUP.JACCARD_THRESHOLD) {
-        return { action: 'merge', existingId: entry.id }
+    const sameCat = sameScope.filter(e => e.cat === cat)
+    for (const existing of sameCat) {
+      if (this.jaccardSimilarity(text, existing.text) > MEMORY_CONFIG.DEDUP.JACCARD_THRESHOLD) {
+        return { action: 'merge', existingId: existing.id }
       }
     }
 
     return { action: 'add' }
   }
 
+  private sameScope(a: Pick<MemoryEntry, 'user_id' | 'chat_id'>, b: Pick<MemoryEntry, 'user_id' | 'chat_id'>): boolean {
+    return (a.user_id || undefined) === (b.user_id || undefined)
+      && (a.chat_id || undefined) === (b.chat_id || undefined)
+  }
+
   private jaccardSimilarity(a: string, b: string): number {
     const tokenize = (s: string) => new Set(
       s.toLowerCase()
@@ -0,0 +1,151 @@
+/**
+ * 记忆有效期 - 自然语言时间解析
+ *
+ * save_memory / REST 传入的 valid_from / expires_at 支持以下写法（不带时区的按 MEMORY_TIMEZONE，默认 Asia/Shanghai）:
+ *   - 绝对时间: 2026-10-30 / 2026-10-30 18:00 / 10-30 / 10月30日 / Oct 30 / Oct 30 2026 / 带时区的 ISO 8601
+ *   - 相对时间: 30分钟 / 12小时 / 3天 / 两周 / 1个月 / 3d / 2w / 12h / 3 days
+ *   - 关键词:   今天 / 明天 / 后天 / 本周 / 下周 / 本月 / 下个月（today / tomorrow / this week / next week / this month / next month）
+ * 只有日期的写法：作为 valid_from 取当天 00:00:00，作为 expires_at 取当天 23:59:59
+ * 前后缀「到 / 直到 / until」「前 / 之前 / 为止」会被忽略，如「10月30日前」「until 2026-10-30」
+ * 相对时间与日期关键词的解析与提醒时间共用（见 cronjob/natural-time.ts）
+ *
+ * 解析结果统一存为 UTC ISO 字符串（toISOString）
+ */
+
+import { MEMORY_CONFIG } from './config.js'
+import { DAY_KEYWORDS, normalizeNumbers, parseRelativeTime, zonedDayBoundary, type DayBoundary } from '../cronjob/natural-time.js'
+import { getZonedParts, zonedTimeToTimestamp } from '../cronjob/timezone.js'
+
+/** 时间落在区间的哪一端：valid_from 取 start，expires_at 取 end */
+export type MemoryTimeBoundary = DayBoundary
+
+type Day = [number, number, number]
+type DayRange = { start: Day; end: Day }
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+]
+
+/**
+ * 解析自然语言时间，无法识别时返回 null
+ * @param timezone - 不带时区的写法按此 IANA 时区解释，默认 MEMORY_CONFIG.TIME_ZONE
+ */
+export function parseMemoryTime(
+  input: string,
+  boundary: MemoryTimeBoundary,
+  timezone: string = MEMORY_CONFIG.TIME_ZONE,
+  now: Date = new Date(),
+): string | null {
+  const text = normalizeNumbers(input.trim().toLowerCase())
+    .replace(/^(到|至|直到|截至|截止到?|until|till|by)\s*/, '')
+    .replace(/\s*(为止|之前|以前|前|止|截止)$/, '')
+    .trim()
+  if (!text) return null
+
+  const timestamp = parseDateTime(text, timezone)
+    ?? parseDate(text, boundary, timezone, now)
+    ?? parseRelativeTime(text, timezone, now)
+    ?? parseKeyword(text, boundary, timezone, now)
+  return timestamp !== null && !isNaN(timestamp) ? new Date(timestamp).toISOString() : null
+}
+
+/**
+ * 按 MEMORY_CONFIG.TIME_ZONE 展示（prompt / 工具输出用）
+ */
+export function formatMemoryTime(iso: string): string {
+  return new Date(iso).toLocaleString('zh-CN', { timeZone: MEMORY_CONFIG.TIME_ZONE, hour12: false })
+}
+
+// ==================== 内部方法 ====================
+
+/** 2026-10-30 18:00[:00][Z|+08:00] / 2026-10-30T18:00 */
+function parseDateTime(text: string, timezone: string): number | null {
+  const match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})[t ](\d{1,2}):(\d{2})(?::(\d{2}))?(z|[+-]\d{2}:?\d{2})?$/)
+  if (!match) return null
+
+  const [, y, mo, d, h, mi, s = '0', tz] = match
+  if (!tz) {
+    return zonedTimeToTimestamp([Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi)], timezone) + Number(s) * 1000
+  }
+
+  const utc = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s))
+  if (tz === 'z') return utc
+  const sign = tz.startsWith('-') ? -1 : 1
+  const [tzH, tzM] = [Number(tz.slice(1, 3)), Number(tz.slice(-2))]
+  return utc - sign * (tzH * 60 + tzM) * 60 * 1000
+}
+
+/** 2026-10-30 / 2026年10月30日 / 10-30 / 10月30日 / Oct 30 / 30 October / Oct 30 2026（省略年份时取今年，作为 expires_at 已过去则取明年） */
+function parseDate(text: string, boundary: MemoryTimeBoundary, timezone: string, now: Date): number | null {
+  const full = text.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})[日号]?$/)
+  if (full) {
+    return zonedDayBoundary([Number(full[1]), Number(full[2]) - 1, Number(full[3])], boundary, timezone)
+  }
+
+  const short = text.match(/^(\d{1,2})[-/.月](\d{1,2})[日号]?$/)
+  if (short) {
+    return parseYearlessDate(Number(short[1]) - 1, Number(short[2]), boundary, timezone, now)
+  }
+
+  // Oct 30 / October 30th / 30 Oct
+  const english = text.match(/^(?<month>[a-z]{3,9})\.?\s+(?<day>\d{1,2})(?:st|nd|rd|th)?$/)
+    ?? text.match(/^(?<day>\d{1,2})(?:st|nd|rd|th)?\s+(?<month>[a-z]{3,9})\.?$/)
+  if (english) {
+    const { month: monthName, day } = english.groups!
+    const month = MONTH_NAMES.findIndex(name => name.startsWith(monthName!))
+    if (month !== -1) return parseYearlessDate(month, Number(day), boundary, timezone, now)
+  }
+
+  // 带年份的其他英文写法（如 Oct 30 2026）；不带年份的交给 Date.parse 会被解析成 2001 年，不接受
+  // Date.parse 按进程本地时区解析，取出其年月日 / 时分后按 timezone 重新解释；带时区的写法原样使用
+  if (/\b\d{4}\b/.test(text) && !isNaN(Date.parse(text))) {
+    const parsed = new Date(Date.parse(text))
+    if (/\b(z|gmt|utc)\b|[+-]\d{2}:?\d{2}$/.test(text)) return parsed.getTime()
+
+    const day: Day = [parsed.getFullYear(), parsed.getMonth(), parsed.getDate()]
+    if (!/\d{1,2}:\d{2}/.test(text)) return zonedDayBoundary(day, boundary, timezone)
+    return zonedTimeToTimestamp([...day, parsed.getHours(), parsed.getMinutes()], timezone) + parsed.getSeconds() * 1000
+  }
+  return null
+}
+
+/** 省略年份的日期：取今年，作为 expires_at 已过去则取明年 */
+function parseYearlessDate(month: number, day: number, boundary: MemoryTimeBoundary, timezone: string, now: Date): number {
+  const [y] = getZonedParts(now, timezone)
+  const timestamp = zonedDayBoundary([y, month, day], boundary, timezone)
+  if (boundary === 'end' && timestamp < now.getTime()) {
+    return zonedDayBoundary([y + 1, month, day], boundary, timezone)
+  }
+  return timestamp
+}
+
+/** 今天 / 明天（见 DAY_KEYWORDS） / 本周 / 下个月 … */
+function parseKeyword(text: string, boundary: MemoryTimeBoundary, timezone: string, now: Date): number | null {
+  const [y, m, d, , , dow] = getZonedParts(now, timezone)
+
+  const dayOffset = DAY_KEYWORDS[text]?.[0]
+  if (dayOffset !== undefined) {
+    return zonedDayBoundary([y, m, d + dayOffset], boundary, timezone)
+  }
+
+  const toMonday = (dow + 6) % 7
+  const toSunday = (7 - dow) % 7
+  const ranges: Record<string, DayRange> = {
+    thisWeek: { start: [y, m, d - toMonday], end: [y, m, d + toSunday] },
+    nextWeek: { start: [y, m, d - toMonday + 7], end: [y, m, d + toSunday + 7] },
+    thisMonth: { start: [y, m, 1], end: [y, m + 1, 0] },
+    nextMonth: { start: [y, m + 1, 1], end: [y, m + 2, 0] },
+  }
+  const aliases: Record<string, keyof typeof ranges> = {
+    '本周': 'thisWeek', '这周': 'thisWeek', '本周末': 'thisWeek', '这周末': 'thisWeek', '周末': 'thisWeek', 'this week': 'thisWeek', 'end of week': 'thisWeek',
+    '下周': 'nextWeek', '下星期': 'nextWeek', 'next week': 'nextWeek',
+    '本月': 'thisMonth', '这个月': 'thisMonth', '月底': 'thisMonth', '本月底': 'thisMonth', 'this month': 'thisMonth', 'end of month': 'thisMonth',
+    '下月': 'nextMonth', '下个月': 'nextMonth', 'next month': 'nextMonth',
+  }
+
+  const key = aliases[text]
+  if (!key) return null
+  const range = ranges[key]!
+  return zonedDayBoundary(boundary === 'start' ? range.start : range.end, boundary, timezone)
+}
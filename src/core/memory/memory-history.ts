@@ -0,0 +1,114 @@
+/**
+ * MemoryHistory - 记忆变更日志（append-only）
+ *
+ * 存储格式（data/memory.history.jsonl，与 memory.jsonl 同目录）:
+ * {"seq":12,"ts":"...","id":3,"op":"merge","actor":"tool","before":{...},"after":{...}}
+ *
+ * 每次 insert / merge / update / delete / revert / consolidate / archive 追加一行，记录变更前后的完整快照，
+ * 用于查看单条记忆的版本历史，以及将记忆恢复到任一次变更之前的状态。
+ */
+
+import * as fs from 'node:fs'
+import type { MemoryEntry } from './memory-db.js'
+
+// ==================== 类型定义 ====================
+
+export type MemoryChangeOp = 'insert' | 'merge' | 'update' | 'delete' | 'revert' | 'consolidate' | 'archive'
+
+/** 变更来源：Agent 工具 / REST 接口 / 命令行 / 容量淘汰 / 自动提取 / 定期整理 / 飞书卡片审核 / 过期归档 / 其他内部调用 */
+export type MemoryActor = 'tool' | 'rest' | 'cli' | 'compaction' | 'extraction' | 'consolidation' | 'review' | 'expiry' | 'system'
+
+export interface MemoryChange {
+  /** 全局递增序号 */
+  seq: number
+  ts: string
+  id: number
+  op: MemoryChangeOp
+  actor: MemoryActor
+  /** 变更前快照（insert 时为空） */
+  before?: MemoryEntry
+  /** 变更后快照（delete 时为空） */
+  after?: MemoryEntry
+  /** consolidate 时被合并删除的其他记忆，回滚时一并恢复 */
+  removed?: MemoryEntry[]
+}
+
+// ==================== MemoryHistory 类 ====================
+
+export class MemoryHistory {
+  private filePath: string
+  private nextSeq: number = 1
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    const changes = this.loadAll()
+    this.nextSeq = (changes[changes.length - 1]?.seq ?? 0) + 1
+  }
+
+  /**
+   * 追加一条变更记录（写入失败只打日志，不影响记忆写入）
+   */
+  record(change: Omit<MemoryChange, 'seq' | 'ts'>): MemoryChange {
+    const entry: MemoryChange = {
+      seq: this.nextSeq++,
+      ts: new Date().toISOString(),
+      ...change,
+    }
+
+    try {
+      fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf-8')
+    } catch (error) {
+      console.error('❌ 写入记忆变更日志失败:', error)
+    }
+
+    return entry
+  }
+
+  /**
+   * 下一条变更将使用的序号（写入前引用本次变更时使用）
+   */
+  peekSeq(): number {
+    return this.nextSeq
+  }
+
+  /**
+   * 指定序号之后的全部变更
+   */
+  since(seq: number): MemoryChange[] {
+    return this.loadAll().filter(c => c.seq > seq)
+  }
+
+  /**
+   * 单条记忆的变更历史（按时间正序）
+   */
+  list(id: number): MemoryChange[] {
+    return this.loadAll().filter(c => c.id === id)
+  }
+
+  /**
+   * 查找指定序号的变更；缺省返回该记忆的最近一次变更
+   */
+  find(id: number, seq?: number): MemoryChange | undefined {
+    const changes = this.list(id)
+    return seq === undefined
+      ? changes[changes.length - 1]
+      : changes.find(c => c.seq === seq)
+  }
+
+  // ==================== 内部方法 ====================
+
+  private loadAll(): MemoryChange[] {
+    if (!fs.existsSync(this.filePath)) return []
+
+    const changes: MemoryChange[] = []
+    for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue
+      try {
+        changes.push(JSON.parse(line) as MemoryChange)
+      } catch {
+        console.warn(`⚠️ 跳过损坏的记忆变更行: ${line.slice(0, 50)}...`)
+      }
+    }
+    return changes
+  }
+}
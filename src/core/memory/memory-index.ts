@@ -0,0 +1,234 @@
+/**
+ * MemoryIndex - 记忆倒排索引 + BM25F 排序
+ *
+ * 分词沿用 MemoryDB 原有策略（英文/数字整词 + CJK 2/3-gram），
+ * text 与 keywords 分字段建立倒排表，检索时按 BM25F 计算相关度：
+ *
+ *   tf'(t, d)  = Σ_field  w_field × tf_field / (1 - b + b × len_field / avglen_field)
+ *   bm25(q, d) = Σ_t  idf(t) × tf' × (k1 + 1) / (tf' + k1)
+ *
+ * 索引常驻内存，由 MemoryDB 在 insert / update / delete / compact 时同步维护。
+ */
+
+import { MEMORY_CONFIG } from './config.js'
+
+// ==================== 类型定义 ====================
+
+type IndexField = 'text' | 'keywords'
+
+/** 单个 token 在某条记忆中的词频 */
+interface Posting {
+  text: number
+  keywords: number
+}
+
+/** 单条记忆的字段长度（token 数） */
+interface DocLength {
+  text: number
+  keywords: number
+}
+
+export interface IndexedDoc {
+  id?: number
+  text: string
+  keywords: string
+}
+
+export interface IndexHit {
+  id: number
+  /** BM25F 相关度 */
+  bm25: number
+  /** 命中的 query token 数 */
+  matched: number
+}
+
+// ==================== 分词 ====================
+
+/**
+ * 分词：空格分词 + N-gram 双策略（保留重复，用于统计词频）
+ *
+ * 1. 先按空格/标点切分
+ * 2. 对每个切分片段：
+ *    - 英文/数字片段保留原样
+ *    - 中文片段生成 2-gram 和 3-gram
+ */
+export function tokenize(text: string): string[] {
+  const segments = text
+    .toLowerCase()
+    .split(/[\s,;.!?，。；！？、\n:：()\[\]{}""''「」【】]+/)
+    .filter(s => s.length > 0)
+
+  const tokens: string[] = []
+
+  for (const seg of segments) {
+    const hasCJK = /[\u4e00-\u9fff\u3400-\u4dbf]/.test(seg)
+
+    if (!hasCJK) {
+      if (seg.length > 1) tokens.push(seg)
+      continue
+    }
+
+    // 英文部分作为整体 token
+    const engParts = seg.match(/[a-z0-9]+/gi)
+    if (engParts) {
+      for (const ep of engParts) {
+        if (ep.length > 1) tokens.push(ep)
+      }
+    }
+
+    // CJK 连续片段做 N-gram
+    const cjkParts = seg.match(/[\u4e00-\u9fff\u3400-\u4dbf]+/g)
+    if (cjkParts) {
+      for (const part of cjkParts) {
+        if (part.length <= 3) {
+          if (part.length >= 2) tokens.push(part)
+          continue
+        }
+        for (let i = 0; i <= part.length - 2; i++) {
+          tokens.push(part.slice(i, i + 2))
+        }
+        for (let i = 0; i <= part.length - 3; i++) {
+          tokens.push(part.slice(i, i + 3))
+        }
+      }
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * 提取搜索 token（去重，query 超长时截断到 MAX_QUERY_CHARS）
+ */
+export function extractSearchTokens(query: string): string[] {
+  return [...new Set(tokenize(query.slice(0, MEMORY_CONFIG.SEARCH.MAX_QUERY_CHARS)))]
+}
+
+// ==================== MemoryIndex 类 ====================
+
+export class MemoryIndex {
+  /** token → (记忆 ID → 字段词频) */
+  private postings = new Map<string, Map<number, Posting>>()
+  /** 记忆 ID → 字段长度 */
+  private lengths = new Map<number, DocLength>()
+  /** 记忆 ID → 已索引 token（删除时定位倒排表） */
+  private docTokens = new Map<number, Set<string>>()
+  private totalLength: DocLength = { text: 0, keywords: 0 }
+
+  get size(): number {
+    return this.lengths.size
+  }
+
+  /**
+   * 重建索引
+   */
+  rebuild(docs: IndexedDoc[]): void {
+    this.postings.clear()
+    this.lengths.clear()
+    this.docTokens.clear()
+    this.totalLength = { text: 0, keywords: 0 }
+    for (const doc of docs) {
+      this.add(doc)
+    }
+  }
+
+  /**
+   * 写入 / 覆盖一条记忆的索引
+   */
+  add(doc: IndexedDoc): void {
+    if (doc.id === undefined) return
+    const id = doc.id
+    this.remove(id)
+
+    const length: DocLength = { text: 0, keywords: 0 }
+    const tokens = new Set<string>()
+
+    for (const field of ['text', 'keywords'] as IndexField[]) {
+      const fieldTokens = tokenize(doc[field] || '')
+      length[field] = fieldTokens.length
+      for (const token of fieldTokens) {
+        let docs = this.postings.get(token)
+        if (!docs) {
+          docs = new Map()
+          this.postings.set(token, docs)
+        }
+        let posting = docs.get(id)
+        if (!posting) {
+          posting = { text: 0, keywords: 0 }
+          docs.set(id, posting)
+        }
+        posting[field]++
+        tokens.add(token)
+      }
+    }
+
+    this.lengths.set(id, length)
+    this.docTokens.set(id, tokens)
+    this.totalLength.text += length.text
+    this.totalLength.keywords += length.keywords
+  }
+
+  /**
+   * 移除一条记忆的索引
+   */
+  remove(id: number): void {
+    const length = this.lengths.get(id)
+    if (!length) return
+
+    for (const token of this.docTokens.get(id) ?? []) {
+      const docs = this.postings.get(token)
+      if (!docs) continue
+      docs.delete(id)
+      if (docs.size === 0) this.postings.delete(token)
+    }
+
+    this.totalLength.text -= length.text
+    this.totalLength.keywords -= length.keywords
+    this.lengths.delete(id)
+    this.docTokens.delete(id)
+  }
+
+  /**
+   * 按 BM25F 计算 query token 命中的记忆（未排序）
+   */
+  search(tokens: string[]): IndexHit[] {
+    const { BM25_K1: k1, BM25_B: b, FIELD_WEIGHTS } = MEMORY_CONFIG.SEARCH
+    const docCount = this.lengths.size
+    if (docCount === 0) return []
+
+    const avgLength: DocLength = {
+      text: this.totalLength.text / docCount || 1,
+      keywords: this.totalLength.keywords / docCount || 1,
+    }
+
+    const hits = new Map<number, IndexHit>()
+
+    for (const token of tokens) {
+      const docs = this.postings.get(token)
+      if (!docs) continue
+
+      // BM25 idf（+1 保证高频 token 不为负）
+      const idf = Math.log(1 + (docCount - docs.size + 0.5) / (docs.size + 0.5))
+
+      for (const [id, posting] of docs) {
+        const length = this.lengths.get(id)!
+        let tf = 0
+        for (const field of ['text', 'keywords'] as IndexField[]) {
+          if (posting[field] === 0) continue
+          const norm = 1 - b + b * (length[field] / avgLength[field])
+          tf += FIELD_WEIGHTS[field] * posting[field] / norm
+        }
+
+        let hit = hits.get(id)
+        if (!hit) {
+          hit = { id, bm25: 0, matched: 0 }
+          hits.set(id, hit)
+        }
+        hit.bm25 += idf * tf * (k1 + 1) / (tf + k1)
+        hit.matched++
+      }
+    }
+
+    return [...hits.values()]
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * MemoryPendingQueue - 待确认记忆队列（记忆审核收件箱）
+ *
+ * 存储格式（与 memory.jsonl 同目录）:
+ * - data/memory.pending.jsonl  待审核项
+ *   {"id":1,"op":"insert","entry":{...},"confidence":0.6,"reason":"...","origin":"extraction","session_id":"...","proposed_at":"..."}
+ *   {"id":2,"op":"delete","targets":[{...}],"query":"emoji","reason":"...","origin":"tool","requested_by":"ou_xxx","proposed_at":"..."}
+ *   {"id":3,"op":"consolidate","entry":{...},"targets":[{...},{...}],"reason":"...","origin":"consolidation","proposed_at":"..."}
+ * - data/memory.reviews.jsonl  审核决定日志（append-only）
+ *   {"ts":"...","pending_id":1,"decision":"edited","reviewer":"ou_xxx","result":"added","item":{...}}
+ *
+ * 自动提取的记忆、delete_memory 删除请求、定期整理给出的合并 / 改写暂存于此，
+ * 由管理员通过飞书卡片 / REST / CLI 审核后才写入 memory.jsonl（自动模式的提取结果入队后立即通过）。
+ */
+
+import * as fs from 'node:fs'
+import type { MemoryEntry } from './memory-db.js'
+
+// ==================== 类型定义 ====================
+
+/** 待审核操作：新增记忆 / 删除记忆 / 整理（合并 / 改写）记忆 */
+export type PendingOp = 'insert' | 'delete' | 'consolidate'
+
+/** 待审核项来源：对话后自动提取 / Agent 工具调用 / 定期整理 */
+export type PendingOrigin = 'extraction' | 'tool' | 'consolidation'
+
+export interface PendingMemory {
+  id: number
+  op: PendingOp
+  /** insert：待写入的记忆（作用域已解析为 user_id / chat_id）；consolidate：整理后的记忆 */
+  entry?: Omit<MemoryEntry, 'id' | 'created_at' | 'updated_at'>
+  /** delete：待删除记忆的快照；consolidate：参与整理的原始记忆快照（保留第一条的 ID） */
+  targets?: MemoryEntry[]
+  /** delete：删除请求的原始查询 */
+  query?: string
+  /** 模型给出的置信度 0-1（仅自动提取） */
+  confidence?: number
+  /** 提取 / 删除理由 */
+  reason: string
+  origin: PendingOrigin
+  /** 发起人（飞书 open_id） */
+  requested_by?: string
+  /** 产生该项的会话 */
+  session_id?: string
+  /** insert：写入时将与之合并的已有记忆 */
+  duplicate_of?: number
+  proposed_at: string
+}
+
+/** 审核决定：通过 / 修改后通过 / 拒绝 */
+export type ReviewDecision = 'approved' | 'edited' | 'rejected'
+
+export interface ReviewRecord {
+  ts: string
+  pending_id: number
+  decision: ReviewDecision
+  /** 审核人（飞书 open_id），REST / CLI 审核时为空，自动模式写入时为 auto */
+  reviewer?: string
+  /** 写入结果（added / merged / skipped / deleted / consolidated） */
+  result?: string
+  item: PendingMemory
+}
+
+// ==================== MemoryPendingQueue 类 ====================
+
+export class MemoryPendingQueue {
+  private filePath: string
+  private logPath: string
+  private items: PendingMemory[] = []
+  private nextId: number = 1
+
+  constructor(filePath: string, logPath: string) {
+    this.filePath = filePath
+    this.logPath = logPath
+    this.load()
+  }
+
+  add(item: Omit<PendingMemory, 'id' | 'proposed_at'>): PendingMemory {
+    const pending: PendingMemory = {
+      id: this.nextId++,
+      proposed_at: new Date().toISOString().replace('T', ' ').slice(0, 19),
+      ...item,
+    }
+    this.items.push(pending)
+    fs.appendFileSync(this.filePath, JSON.stringify(pending) + '\n', 'utf-8')
+    return pending
+  }
+
+  list(): PendingMemory[] {
+    return [...this.items]
+  }
+
+  get(id: number): PendingMemory | undefined {
+    return this.items.find(p => p.id === id)
+  }
+
+  /**
+   * 出队（审核完成后调用）
+   */
+  remove(id: number): PendingMemory | undefined {
+    const index = this.items.findIndex(p => p.id === id)
+    if (index < 0) return undefined
+    const [removed] = this.items.splice(index, 1)
+    this.rewrite()
+    return removed
+  }
+
+  /**
+   * 记录审核决定（写入失败只打日志，不影响审核结果）
+   */
+  logDecision(record: Omit<ReviewRecord, 'ts'>): void {
+    try {
+      fs.appendFileSync(this.logPath, JSON.stringify({ ts: new Date().toISOString(), ...record }) + '\n', 'utf-8')
+    } catch (error) {
+      console.error('❌ 写入记忆审核日志失败:', error)
+    }
+  }
+
+  // ==================== 内部方法 ====================
+
+  private load(): void {
+    // 已审核的 ID 不再复用，避免旧卡片误操作新的待审核项
+    for (const record of this.readLines<ReviewRecord>(this.logPath)) {
+      this.nextId = Math.max(this.nextId, record.pending_id + 1)
+    }
+
+    for (const pending of this.readLines<PendingMemory>(this.filePath)) {
+      // 兼容旧数据：没有 op 字段的均为新增
+      pending.op = pending.op || 'insert'
+      this.items.push(pending)
+      this.nextId = Math.max(this.nextId, pending.id + 1)
+    }
+  }
+
+  private readLines<T>(filePath: string): T[] {
+    if (!fs.existsSync(filePath)) return []
+
+    const records: T[] = []
+    for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue
+      try {
+        records.push(JSON.parse(line) as T)
+      } catch {
+        console.warn(`⚠️ 跳过损坏的记忆审核行: ${line.slice(0, 50)}...`)
+      }
+    }
+    return records
+  }
+
+  private rewrite(): void {
+    const lines = this.items.map(p => JSON.stringify(p)).join('\n')
+    fs.writeFileSync(this.filePath, lines ? lines + '\n' : '', 'utf-8')
+  }
+}
@@ -0,0 +1,393 @@
+/**
+ * MemoryTransfer - 记忆导入 / 导出格式
+ *
+ * 导出:
+ * - md    按分类分组的 Markdown，可直接编辑后导回；行尾注释保存 ID / 来源 / 关键词 / 作用域 / 有效期
+ *     ## preference
+ *     - [4] 不要使用emoji <!-- {"id":1,"source":"USER","keywords":"表情 emoji"} -->
+ * - json  {"exported_at":"...","memories":[{...}]}
+ *
+ * 导入:
+ * - md    Markdown 列表（- / * / 1.），二级标题为分类；兼容 dump --format md 与上述导出格式
+ * - csv   首行为表头，至少包含 text 列（cat / imp / keywords / source / user_id / chat_id / valid_from / expires_at 可选）
+ * - jsonl 每行一个对象（其他 bot 导出的记忆），字段名宽松匹配（text / content / memory 等）
+ * - json  导出的 JSON，或对象数组
+ *
+ * 只有 md / json（本工具导出的格式）保留 ID，用于编辑后导回时定位原记忆；
+ * 冲突判定与处理策略见 MemoryDB.importEntries。
+ */
+
+import { MEMORY_CATEGORIES, MEMORY_SOURCES, type MemoryCat, type MemorySource } from './config.js'
+import type { MemoryEntry } from './memory-db.js'
+
+// ==================== 类型定义 ====================
+
+export type ExportFormat = 'md' | 'json'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'json']
+
+export type ImportFormat = 'md' | 'csv' | 'jsonl' | 'json'
+
+export const IMPORT_FORMATS: ImportFormat[] = ['md', 'csv', 'jsonl', 'json']
+
+/** 冲突处理策略：跳过 / 以导入内容覆盖 / 合并（取较高重要性，关键词取并集） */
+export type ImportStrategy = 'skip' | 'overwrite' | 'merge'
+
+export const IMPORT_STRATEGIES: ImportStrategy[] = ['skip', 'overwrite', 'merge']
+
+/** 待导入记忆；id 仅来自本工具导出的 md / json */
+export interface ImportCandidate extends Omit<MemoryEntry, 'id' | 'created_at' | 'updated_at' | 'derived_from'> {
+  id?: number
+}
+
+export interface ParsedImport {
+  candidates: ImportCandidate[]
+  /** 无法解析的行（跳过，不中断导入） */
+  errors: string[]
+}
+
+/** 单条导入结果（dry_run 时为预览） */
+export interface ImportItem {
+  action: 'add' | 'overwrite' | 'merge' | 'skip'
+  candidate: ImportCandidate
+  /** 与之冲突的已有记忆 */
+  before?: MemoryEntry
+  /** 写入后的内容（add / overwrite / merge） */
+  after?: Pick<MemoryEntry, 'text' | 'cat' | 'imp' | 'keywords'>
+  /** 冲突依据 / 跳过原因 */
+  reason?: string
+  /** 与已有记忆冲突（skip 策略下因此跳过） */
+  conflict?: boolean
+}
+
+export interface ImportReport {
+  strategy: ImportStrategy
+  dryRun: boolean
+  added: number
+  overwritten: number
+  merged: number
+  skipped: number
+  items: ImportItem[]
+  /** skip 策略下因与已有记忆冲突而跳过的条目，可改用 overwrite / merge 重新导入 */
+  conflicts: ImportItem[]
+  errors: string[]
+}
+
+// ==================== 导出 ====================
+
+/**
+ * 导出为 Markdown（按分类分组，组内按重要性降序）或 JSON
+ */
+export function exportMemories(entries: MemoryEntry[], format: ExportFormat): string {
+  const exportedAt = new Date().toISOString().replace('T', ' ').slice(0, 19)
+
+  if (format === 'json') {
+    return JSON.stringify({ exported_at: exportedAt, memories: entries }, null, 2) + '\n'
+  }
+
+  const lines = [
+    '# Memory Export',
+    '',
+    `> 导出时间: ${exportedAt} · 共 ${entries.length} 条`,
+    '> 可直接修改内容、重要性（[1-5]）或移动到其他分类后导回；行尾注释用于定位原记忆，请勿修改',
+  ]
+
+  for (const cat of MEMORY_CATEGORIES) {
+    const group = entries
+      .filter(e => e.cat === cat)
+      .sort((a, b) => b.imp - a.imp || a.created_at.localeCompare(b.created_at))
+    if (group.length === 0) continue
+
+    lines.push('', `## ${cat}`, '')
+    for (const e of group) {
+      const meta = {
+        id: e.id,
+        source: e.source,
+        ...(e.keywords ? { keywords: e.keywords } : {}),
+        ...(e.user_id ? { user_id: e.user_id } : {}),
+        ...(e.chat_id ? { chat_id: e.chat_id } : {}),
+        ...(e.valid_from ? { valid_from: e.valid_from } : {}),
+        ...(e.expires_at ? { expires_at: e.expires_at } : {}),
+      }
+      lines.push(`- [${e.imp}] ${e.text.replace(/\n+/g, ' ')} <!-- ${JSON.stringify(meta)} -->`)
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+// ==================== 导入 ====================
+
+/**
+ * 按文件扩展名推断导入格式
+ */
+export function detectImportFormat(fileName: string): ImportFormat | undefined {
+  const ext = fileName.toLowerCase().split('.').pop()
+  if (ext === 'markdown' || ext === 'txt') return 'md'
+  return IMPORT_FORMATS.find(f => f === ext)
+}
+
+/**
+ * 解析导入内容为候选记忆
+ */
+export function parseImport(content: string, format: ImportFormat): ParsedImport {
+  switch (format) {
+    case 'md':
+      return parseMarkdown(content)
+    case 'csv':
+      return parseCsv(content)
+    case 'jsonl':
+      return parseJsonl(content)
+    case 'json':
+      return parseJson(content)
+  }
+}
+
+/**
+ * 导入结果的文本预览（类 diff：+ 新增 / ~ 覆盖、合并 / = 跳过）
+ */
+export function formatImportDiff(report: ImportReport): string {
+  const lines: string[] = []
+
+  for (const item of report.items) {
+    const { candidate, before, after } = item
+    switch (item.action) {
+      case 'add':
+        lines.push(`+ [${candidate.cat}] (imp=${candidate.imp}) ${candidate.text}`)
+        break
+      case 'overwrite':
+      case 'merge':
+        lines.push(`~ #${before!.id} [${before!.cat}] (imp=${before!.imp}) ${before!.text}`)
+        lines.push(`  → [${after!.cat}] (imp=${after!.imp}) ${after!.text}  (${item.action}: ${item.reason})`)
+        break
+      case 'skip':
+        lines.push(`= ${before ? `#${before.id} ` : ''}${candidate.text}  (跳过: ${item.reason})`)
+        break
+    }
+  }
+
+  for (const error of report.errors) {
+    lines.push(`! ${error}`)
+  }
+
+  if (report.conflicts.length > 0) {
+    lines.push('', `⚠️ ${report.conflicts.length} 条与已有记忆冲突而跳过（改用 overwrite / merge 策略可重新导入）:`)
+    lines.push(...report.conflicts.map(c => `  - ${c.candidate.text} ↔ #${c.before!.id} ${c.before!.text}`))
+  }
+
+  const verb = report.dryRun ? '预览' : '导入完成'
+  lines.push('', `${verb} [strategy=${report.strategy}]: 新增 ${report.added}，覆盖 ${report.overwritten}，合并 ${report.merged}，跳过 ${report.skipped}，解析失败 ${report.errors.length}`)
+  return lines.join('\n')
+}
+
+// ==================== 内部方法：各格式解析 ====================
+
+const BULLET_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+(.+)$/
+const META_PATTERN = /\s*<!--\s*(\{.*\})\s*-->\s*$/
+const TAG_PATTERN = /^\*{0,2}\[([^\]]+)\]\*{0,2}\s*/
+const DUMP_META_PATTERN = /^\(imp=(\d)(?:,\s*src=(\w+))?\)\s*/
+const DUMP_DATE_PATTERN = /\s+_\d{4}-\d{2}-\d{2}[^_]*_\s*$/
+
+function parseMarkdown(content: string): ParsedImport {
+  const candidates: ImportCandidate[] = []
+  const errors: string[] = []
+  let sectionCat: MemoryCat | undefined
+
+  content.split('\n').forEach((line, i) => {
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*$/)
+    if (heading) {
+      sectionCat = toCategory(heading[1]!)
+      return
+    }
+
+    const bullet = line.match(BULLET_PATTERN)
+    if (!bullet) return
+    let text = bullet[1]!.trim()
+    if (/^\[[ xX]\]\s/.test(text)) text = text.slice(4)  // 任务列表勾选框
+
+    let meta: Record<string, unknown> = {}
+    const metaMatch = text.match(META_PATTERN)
+    if (metaMatch) {
+      try {
+        meta = JSON.parse(metaMatch[1]!)
+      } catch {
+        errors.push(`第 ${i + 1} 行: 元数据注释不是合法 JSON，已忽略`)
+      }
+      text = text.slice(0, metaMatch.index).trim()
+    }
+
+    // 行首标签: [4] 重要性 / [preference] 分类（兼容 dump 格式的 **[cat]** (imp=4, src=USER)）
+    let cat = sectionCat
+    let imp: number | undefined
+    let source: unknown = meta.source
+    for (let tag = text.match(TAG_PATTERN); tag; tag = text.match(TAG_PATTERN)) {
+      if (/^[1-5]$/.test(tag[1]!)) imp = Number(tag[1])
+      else if (toCategory(tag[1]!)) cat = toCategory(tag[1]!)
+      else break
+      text = text.slice(tag[0].length)
+    }
+    const dumpMeta = text.match(DUMP_META_PATTERN)
+    if (dumpMeta) {
+      imp = Number(dumpMeta[1])
+      source = dumpMeta[2] ?? source
+      text = text.slice(dumpMeta[0].length)
+    }
+    text = text.replace(DUMP_DATE_PATTERN, '').trim()
+
+    if (!text) {
+      errors.push(`第 ${i + 1} 行: 内容为空`)
+      return
+    }
+    candidates.push(toCandidate({ ...meta, text, cat, imp, source }, true))
+  })
+
+  return { candidates, errors }
+}
+
+function parseCsv(content: string): ParsedImport {
+  const rows = parseCsvRows(content).filter(row => row.some(cell => cell.trim()))
+  if (rows.length === 0) return { candidates: [], errors: [] }
+
+  const header = rows[0]!.map(h => h.trim().toLowerCase())
+  if (!header.some(h => TEXT_FIELDS.includes(h))) {
+    return { candidates: [], errors: [`CSV 表头缺少 text 列（可用列名: ${TEXT_FIELDS.join(' / ')}）`] }
+  }
+
+  const candidates: ImportCandidate[] = []
+  const errors: string[] = []
+  rows.slice(1).forEach((row, i) => {
+    const record = Object.fromEntries(header.map((h, col) => [h, row[col]?.trim() ?? '']))
+    const candidate = toCandidate(record, false)
+    if (candidate.text) candidates.push(candidate)
+    else errors.push(`第 ${i + 2} 行: 缺少 text`)
+  })
+  return { candidates, errors }
+}
+
+function parseJsonl(content: string): ParsedImport {
+  const candidates: ImportCandidate[] = []
+  const errors: string[] = []
+
+  content.split('\n').forEach((line, i) => {
+    if (!line.trim()) return
+    try {
+      const candidate = toCandidate(JSON.parse(line), false)
+      if (candidate.text) candidates.push(candidate)
+      else errors.push(`第 ${i + 1} 行: 缺少 text`)
+    } catch {
+      errors.push(`第 ${i + 1} 行: 不是合法 JSON`)
+    }
+  })
+  return { candidates, errors }
+}
+
+function parseJson(content: string): ParsedImport {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    return { candidates: [], errors: ['不是合法 JSON'] }
+  }
+
+  const records = Array.isArray(data) ? data : (data as { memories?: unknown })?.memories
+  if (!Array.isArray(records)) {
+    return { candidates: [], errors: ['JSON 须为对象数组或 {"memories": [...]}'] }
+  }
+
+  const candidates: ImportCandidate[] = []
+  const errors: string[] = []
+  records.forEach((record, i) => {
+    const candidate = toCandidate(record ?? {}, true)
+    if (candidate.text) candidates.push(candidate)
+    else errors.push(`第 ${i + 1} 条: 缺少 text`)
+  })
+  return { candidates, errors }
+}
+
+// ==================== 内部方法：字段映射 ====================
+
+const TEXT_FIELDS = ['text', 'content', 'memory']
+
+/**
+ * 宽松映射外部记录；非法分类归为 knowledge，重要性缺省为 3 并限制在 1-5
+ */
+function toCandidate(raw: Record<string, unknown>, keepId: boolean): ImportCandidate {
+  const pick = (...keys: string[]) => keys.map(k => raw[k]).find(v => v !== undefined && v !== null && v !== '')
+
+  const text = String(pick(...TEXT_FIELDS) ?? '').trim()
+  const impRaw = Number(pick('imp', 'importance', 'priority'))
+  const keywordsRaw = pick('keywords', 'tags')
+  const source = String(pick('source') ?? '').toUpperCase() as MemorySource
+  const userId = pick('user_id', 'userId')
+  const chatId = pick('chat_id', 'chatId')
+  const validFrom = toIsoTime(pick('valid_from', 'validFrom'))
+  const expiresAt = toIsoTime(pick('expires_at', 'expiresAt'))
+  const id = Number(raw.id)
+
+  return {
+    ...(keepId && Number.isInteger(id) && id > 0 ? { id } : {}),
+    source: MEMORY_SOURCES.includes(source) ? source : 'USER',
+    cat: toCategory(String(pick('cat', 'category', 'type') ?? '')) ?? 'knowledge',
+    imp: Number.isFinite(impRaw) ? Math.min(5, Math.max(1, Math.round(impRaw))) : 3,
+    text,
+    keywords: Array.isArray(keywordsRaw) ? keywordsRaw.join(' ') : String(keywordsRaw ?? ''),
+    ...(userId ? { user_id: String(userId) } : {}),
+    ...(chatId ? { chat_id: String(chatId) } : {}),
+    ...(validFrom ? { valid_from: validFrom } : {}),
+    ...(expiresAt ? { expires_at: expiresAt } : {}),
+  }
+}
+
+/** 有效期字段只接受可解析的时间，统一为 ISO 字符串 */
+function toIsoTime(value: unknown): string | undefined {
+  const time = value === undefined ? NaN : Date.parse(String(value))
+  return isNaN(time) ? undefined : new Date(time).toISOString()
+}
+
+function toCategory(value: string): MemoryCat | undefined {
+  const cat = value.trim().toLowerCase() as MemoryCat
+  return MEMORY_CATEGORIES.includes(cat) ? cat : undefined
+}
+
+/**
+ * RFC 4180 CSV：支持引号包裹、引号内逗号 / 换行、"" 转义
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i]
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
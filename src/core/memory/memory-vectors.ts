@@ -0,0 +1,141 @@
+/**
+ * MemoryVectorStore - 记忆向量存储
+ *
+ * 存储格式（data/memory.vectors.jsonl，与 memory.jsonl 同目录）:
+ * {"id":1,"hash":"<provider>:<内容摘要>","vector":[0.0123,...]}
+ *
+ * 向量按需计算：检索前对缺失 / 内容已变更 / provider 已切换的记忆补算，删除记忆时同步移除。
+ */
+
+import * as fs from 'node:fs'
+import { createHash } from 'node:crypto'
+import { cosineSimilarity, type EmbeddingProvider } from './embedding-provider.js'
+import type { MemoryEntry } from './memory-db.js'
+
+interface StoredVector {
+  id: number
+  hash: string
+  vector: number[]
+}
+
+export class MemoryVectorStore {
+  private filePath: string
+  private provider: EmbeddingProvider
+  private vectors = new Map<number, StoredVector>()
+
+  constructor(filePath: string, provider: EmbeddingProvider) {
+    this.filePath = filePath
+    this.provider = provider
+    this.load()
+  }
+
+  getProvider(): EmbeddingProvider {
+    return this.provider
+  }
+
+  /**
+   * 移除记忆向量
+   */
+  remove(ids: Iterable<number>): void {
+    let changed = false
+    for (const id of ids) {
+      changed = this.vectors.delete(id) || changed
+    }
+    if (changed) this.rewrite()
+  }
+
+  /**
+   * 计算 query 与每条记忆的相似度（记忆 ID → 余弦相似度）
+   */
+  async similarity(query: string, entries: MemoryEntry[]): Promise<Map<number, number>> {
+    const vectors = await this.vectorsOf(entries)
+    const [queryVector] = await this.provider.embed([query])
+
+    const scores = new Map<number, number>()
+    for (const [id, vector] of vectors) {
+      if (queryVector) {
+        scores.set(id, cosineSimilarity(queryVector, vector))
+      }
+    }
+    return scores
+  }
+
+  /**
+   * 记忆向量（记忆 ID → 向量），缺失的先补算
+   * entries 需为全部记忆：不在其中的向量视为已删除并清理
+   */
+  async vectorsOf(entries: MemoryEntry[]): Promise<Map<number, number[]>> {
+    await this.sync(entries)
+
+    const vectors = new Map<number, number[]>()
+    for (const entry of entries) {
+      const stored = entry.id !== undefined ? this.vectors.get(entry.id) : undefined
+      if (stored) vectors.set(stored.id, stored.vector)
+    }
+    return vectors
+  }
+
+  // ==================== 内部方法 ====================
+
+  /**
+   * 补算缺失 / 过期向量，并清理已不存在的记忆
+   */
+  private async sync(entries: MemoryEntry[]): Promise<void> {
+    const liveIds = new Set<number>()
+    const stale: Array<{ id: number; hash: string; text: string }> = []
+
+    for (const entry of entries) {
+      if (entry.id === undefined) continue
+      liveIds.add(entry.id)
+      const hash = this.hashOf(entry)
+      if (this.vectors.get(entry.id)?.hash !== hash) {
+        stale.push({ id: entry.id, hash, text: `${entry.text} ${entry.keywords}` })
+      }
+    }
+
+    let changed = false
+    for (const id of this.vectors.keys()) {
+      if (!liveIds.has(id)) {
+        this.vectors.delete(id)
+        changed = true
+      }
+    }
+
+    if (stale.length > 0) {
+      const vectors = await this.provider.embed(stale.map(s => s.text))
+      stale.forEach((s, i) => {
+        this.vectors.set(s.id, { id: s.id, hash: s.hash, vector: vectors[i]! })
+      })
+      changed = true
+      console.log(`🧮 MemoryVectorStore: 已向量化 ${stale.length} 条记忆 (${this.provider.id})`)
+    }
+
+    if (changed) this.rewrite()
+  }
+
+  private hashOf(entry: MemoryEntry): string {
+    const digest = createHash('md5').update(`${entry.text}\n${entry.keywords}`).digest('hex').slice(0, 12)
+    return `${this.provider.id}:${digest}`
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return
+
+    for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue
+      try {
+        const stored = JSON.parse(line) as StoredVector
+        this.vectors.set(stored.id, stored)
+      } catch {
+        console.warn(`⚠️ 跳过损坏的向量行: ${line.slice(0, 50)}...`)
+      }
+    }
+  }
+
+  private rewrite(): void {
+    const lines = [...this.vectors.values()]
+      .map(v => JSON.stringify({ ...v, vector: v.vector.map(x => Math.round(x * 1e4) / 1e4) }))
+      .join('\n')
+    fs.writeFileSync(this.filePath, lines ? lines + '\n' : '', 'utf-8')
+  }
+}
@@ -13,6 +13,7 @@ import {
 } from 'node:fs'
 import { join } from 'node:path'
 import type { ClaudeEngine } from '../agent/engine/claude-engine.js'
+import type { QueryContext } from '../agent/types/agent.js'
 import type {
   NightlyReport,
   NightlySkillReport,
@@ -27,9 +28,12 @@ import { SESSIONS_ROOT } from '../../utils/paths.js'
 
 export class IterationChecker {
   private claudeEngine: ClaudeEngine
+  /** 触发本次运行的 CronJob ID（用量归属） */
+  private cronJobId?: string
 
-  constructor(claudeEngine: ClaudeEngine) {
+  constructor(claudeEngine: ClaudeEngine, cronJobId?: string) {
     this.claudeEngine = claudeEngine
+    this.cronJobId = cronJobId
   }
 
   // ─── 入口 ───
@@ -98,7 +102,9 @@ export class IterationChecker {
         : OTHERS_SKILL_SYSTEM_PROMPT
 
       // SubAgent 自行读文件、分析、写入
-      await this.claudeEngine.sendMessage(userPrompt, systemPrompt)
+      // 用量按被分析的 Skill 归属
+      const usageContext: QueryContext = { cronJobId: this.cronJobId, system: true, skills: () => [skillName] }
+      await this.claudeEngine.sendMessage(userPrompt, systemPrompt, undefined, usageContext)
 
       return {
         skillName,
@@ -98,6 +98,15 @@ export class TraceCollector {
     return this.activeTurns.has(sessionId)
   }
 
+  /** 当前活跃 turn 中已调用的 Skill 名称（用量归属） */
+  getActiveSkillNames(sessionId: string): string[] {
+    const turn = this.activeTurns.get(sessionId)
+    if (!turn) return []
+    return turn.timeline
+      .filter(e => e.type === 'skill_start' && e.skill)
+      .map(e => e.skill!)
+  }
+
   // ─── 静态工具：读取时 slice ───
 
   static sliceForSkill(trace: TurnTrace, skillName: string): SkillView | null {
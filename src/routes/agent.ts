@@ -1,8 +1,16 @@
 import { Hono } from 'hono'
 import { getAgentEngine } from '../core/agent-registry.js'
+import { ModelRouter } from '../core/agent/engine/model-router.js'
+import { StructuredOutputError, resolveOutputSchema } from '../core/agent/engine/structured-output.js'
+import { SessionForkError } from '../core/agent/engine/session-id-store.js'
+import { USAGE_DIMENSIONS, type UsageDimension } from '../core/agent/engine/usage-ledger.js'
 
 const agentRouter = new Hono()
 
+function isUsageDimension(value: string): value is UsageDimension {
+  return (USAGE_DIMENSIONS as readonly string[]).includes(value)
+}
+
 // 创建新会话
 agentRouter.post('/sessions', async (c) => {
   try {
@@ -38,12 +46,34 @@ agentRouter.post('/sessions', async (c) => {
 agentRouter.post('/sessions/:sessionId/messages', async (c) => {
   try {
     const sessionId = c.req.param('sessionId')
-    const { message, userId, stream } = await c.req.json()
+    const { message, userId, stream, model, outputSchema, maxOutputRetries } = await c.req.json()
 
     if (!message) {
       return c.json({ error: 'message is required' }, 400)
     }
 
+    if (model !== undefined && (typeof model !== 'string' || !ModelRouter.isValidModelName(model))) {
+      return c.json({ error: 'model must be a valid model name' }, 400)
+    }
+
+    if (outputSchema !== undefined) {
+      if (stream) {
+        return c.json({ error: 'outputSchema is not supported in stream mode' }, 400)
+      }
+      if (typeof outputSchema !== 'object' || outputSchema === null || Array.isArray(outputSchema)) {
+        return c.json({ error: 'outputSchema must be a JSON Schema object' }, 400)
+      }
+      try {
+        resolveOutputSchema(outputSchema)
+      } catch (error) {
+        return c.json({ error: `Invalid outputSchema: ${error instanceof Error ? error.message : error}` }, 400)
+      }
+    }
+
+    if (maxOutputRetries !== undefined && (!Number.isInteger(maxOutputRetries) || maxOutputRetries < 0 || maxOutputRetries > 5)) {
+      return c.json({ error: 'maxOutputRetries must be an integer between 0 and 5' }, 400)
+    }
+
     const agentEngine = getAgentEngine()
 
     if (stream) {
@@ -54,7 +84,7 @@ agentRouter.post('/sessions/:sessionId/messages', async (c) => {
             controller.enqueue(new TextEncoder().encode(chunk))
           })
 
-          agentEngine.sendMessageStream(sessionId, message, userId, eventHandlers)
+          agentEngine.sendMessageStream(sessionId, message, userId, eventHandlers, undefined, { model, userIdUnverified: true })
             .then(() => {
               controller.close()
             })
@@ -73,10 +103,18 @@ agentRouter.post('/sessions/:sessionId/messages', async (c) => {
       })
     } else {
       // 普通响应
-      const response = await agentEngine.sendMessage(sessionId, message, userId)
+      const response = await agentEngine.sendMessage(sessionId, message, userId, undefined, {
+        model,
+        outputSchema,
+        maxOutputRetries,
+        userIdUnverified: true,
+      })
       return c.json(response)
     }
   } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      return c.json({ error: error.message, lastOutput: error.lastOutput }, 422)
+    }
     console.error('Message sending error:', error)
     return c.json({ error: 'Failed to send message' }, 500)
   }
@@ -116,6 +154,50 @@ agentRouter.delete('/sessions/:sessionId', async (c) => {
   }
 })
 
+// 从指定轮次分叉会话
+agentRouter.post('/sessions/:sessionId/fork', async (c) => {
+  try {
+    const sessionId = c.req.param('sessionId')
+    const { turnIndex, newSessionId, userId } = await c.req.json().catch(() => ({}))
+
+    if (turnIndex !== undefined && (!Number.isInteger(turnIndex) || turnIndex < 0)) {
+      return c.json({ error: 'turnIndex must be a non-negative integer' }, 400)
+    }
+
+    const agentEngine = getAgentEngine()
+    if (!agentEngine.getSession(sessionId)) {
+      return c.json({ error: 'Session not found' }, 404)
+    }
+    if (newSessionId && agentEngine.getSession(newSessionId)) {
+      return c.json({ error: 'Target session already exists' }, 409)
+    }
+
+    const result = agentEngine.forkSession(sessionId, { turnIndex, newSessionId, userId })
+    return c.json({
+      message: 'Session forked successfully',
+      ...result
+    })
+  } catch (error) {
+    if (error instanceof SessionForkError) {
+      return c.json({ error: error.message }, error.reason === 'no_history' ? 409 : 400)
+    }
+    console.error('Session fork error:', error)
+    return c.json({ error: 'Failed to fork session' }, 500)
+  }
+})
+
+// 获取会话分叉谱系
+agentRouter.get('/sessions/:sessionId/lineage', async (c) => {
+  try {
+    const sessionId = c.req.param('sessionId')
+    const lineage = getAgentEngine().getSessionLineage(sessionId)
+    return c.json({ lineage })
+  } catch (error) {
+    console.error('Lineage retrieval error:', error)
+    return c.json({ error: 'Failed to retrieve session lineage' }, 500)
+  }
+})
+
 // 获取会话统计
 agentRouter.get('/sessions', async (c) => {
   try {
@@ -150,4 +232,53 @@ agentRouter.get('/tools', async (c) => {
   }
 })
 
+// 获取 token 用量与费用统计（按天 / 周聚合）
+agentRouter.get('/usage', async (c) => {
+  try {
+    const groupBy = c.req.query('groupBy') || 'day'
+    if (groupBy !== 'day' && groupBy !== 'week') {
+      return c.json({ error: 'groupBy must be day or week' }, 400)
+    }
+
+    const dimension = c.req.query('dimension') || undefined
+    if (dimension !== undefined && !isUsageDimension(dimension)) {
+      return c.json({ error: `dimension must be one of ${USAGE_DIMENSIONS.join(', ')}` }, 400)
+    }
+
+    const from = c.req.query('from')
+    const to = c.req.query('to')
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/
+    if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+      return c.json({ error: 'from / to must be YYYY-MM-DD' }, 400)
+    }
+
+    const summary = getAgentEngine().getUsageSummary({
+      groupBy,
+      from,
+      to,
+      dimension,
+      sessionId: c.req.query('sessionId'),
+      chatId: c.req.query('chatId'),
+      userId: c.req.query('userId'),
+      cronJobId: c.req.query('cronJobId'),
+      skill: c.req.query('skill'),
+    })
+    return c.json(summary)
+  } catch (error) {
+    console.error('Usage retrieval error:', error)
+    return c.json({ error: 'Failed to retrieve usage' }, 500)
+  }
+})
+
+// 获取外部 MCP Server 健康状态
+agentRouter.get('/mcp', async (c) => {
+  try {
+    const servers = getAgentEngine().getMcpServerHealth()
+    return c.json({ servers, total: servers.length })
+  } catch (error) {
+    console.error('MCP status retrieval error:', error)
+    return c.json({ error: 'Failed to retrieve MCP server status' }, 500)
+  }
+})
+
 export default agentRouter
@@ -5,26 +5,40 @@
 
 import { Hono } from 'hono';
 import { getAgentEngine } from '../core/agent-registry.js';
+import { SEARCH_MODES, isMemoryVisible, type MemoryScope, type SearchMode } from '../core/memory/memory-db.js';
+import { parseMemoryTime } from '../core/memory/memory-expiry.js';
+import { IMPORT_FORMATS, IMPORT_STRATEGIES, parseImport, type ImportFormat, type ImportStrategy } from '../core/memory/memory-transfer.js';
 
 const memoryRoutes = new Hono();
 
 // ==================== V5.0 路由：MemoryDB (Markdown) ====================
 
-// 搜索记忆（关键词）
-memoryRoutes.get('/v2/search', (c) => {
+/** 从 userId / chatId 查询参数构建可见范围，均未传时不过滤 */
+function parseScope(userId?: string, chatId?: string): MemoryScope | undefined {
+  return userId || chatId ? { userId, chatId } : undefined;
+}
+
+// 搜索记忆（mode=keyword|semantic|hybrid，默认 hybrid）
+memoryRoutes.get('/v2/search', async (c) => {
   const query = c.req.query('q');
   const limitRaw = Number(c.req.query('limit'));
   const cat = c.req.query('cat');
+  const mode = (c.req.query('mode') || 'hybrid') as SearchMode;
 
   if (!query || !query.trim()) {
     return c.json({ error: 'Missing search query' }, 400);
   }
 
+  if (!SEARCH_MODES.includes(mode)) {
+    return c.json({ error: 'mode must be one of keyword, semantic, hybrid' }, 400);
+  }
+
   const limit = Number.isFinite(limitRaw) && limitRaw > 0 ? limitRaw : 20;
 
   try {
     const memoryDb = getAgentEngine().getMemoryDb();
-    let results = memoryDb.search(query, limit);
+    const scope = parseScope(c.req.query('userId'), c.req.query('chatId'));
+    let results = await memoryDb.search(query, limit, mode, scope);
     if (cat) {
       results = results.filter(r => r.cat === cat);
     }
@@ -64,6 +78,10 @@ memoryRoutes.get('/v2/list', (c) => {
     } else {
       entries = memoryDb.getTopMemories(limit);
     }
+    const scope = parseScope(c.req.query('userId'), c.req.query('chatId'));
+    if (scope) {
+      entries = entries.filter(e => isMemoryVisible(e, scope));
+    }
     return c.json({ entries, total: entries.length });
   } catch (err) {
     console.error('Failed to list memories:', err);
@@ -71,18 +89,37 @@ memoryRoutes.get('/v2/list', (c) => {
   }
 });
 
-// 添加记忆
+// 添加记忆（validFrom / expiresAt 可选，支持自然语言，如 "2026-10-30"、"3天"、"下周"）
 memoryRoutes.post('/v2/add', async (c) => {
   try {
     const body = await c.req.json();
-    const { text, cat, imp, source, keywords } = body;
+    const { text, cat, imp, source, keywords, userId, chatId, validFrom, expiresAt } = body;
 
     if (!text || !cat || imp === undefined || !keywords) {
       return c.json({ error: 'Missing required fields: text, cat, imp, keywords' }, 400);
     }
 
+    const valid_from = validFrom ? parseMemoryTime(String(validFrom), 'start') : undefined;
+    const expires_at = expiresAt ? parseMemoryTime(String(expiresAt), 'end') : undefined;
+    if (valid_from === null || expires_at === null) {
+      return c.json({ error: 'Unrecognized validFrom / expiresAt' }, 400);
+    }
+    if (valid_from && expires_at && valid_from >= expires_at) {
+      return c.json({ error: 'validFrom must be earlier than expiresAt' }, 400);
+    }
+
     const memoryDb = getAgentEngine().getMemoryDb();
-    const result = memoryDb.insert({ text, cat, imp, source: source || 'USER', keywords: body.keywords || [] });
+    const result = memoryDb.insert({
+      text,
+      cat,
+      imp,
+      source: source || 'USER',
+      keywords: body.keywords || [],
+      user_id: userId || undefined,
+      chat_id: chatId || undefined,
+      valid_from,
+      expires_at,
+    }, 'rest');
     return c.json({ result, message: `Memory ${result}` });
   } catch (err) {
     console.error('Failed to add memory:', err);
@@ -99,7 +136,7 @@ memoryRoutes.delete('/v2/:id', (c) => {
 
   try {
     const memoryDb = getAgentEngine().getMemoryDb();
-    memoryDb.deleteById(id);
+    memoryDb.deleteById(id, 'rest');
     return c.json({ success: true, message: `Memory ${id} deleted` });
   } catch (err) {
     console.error('Failed to delete memory:', err);
@@ -107,6 +144,128 @@ memoryRoutes.delete('/v2/:id', (c) => {
   }
 });
 
+// 获取记忆变更历史
+memoryRoutes.get('/v2/:id{[0-9]+}/history', (c) => {
+  const id = parseInt(c.req.param('id'));
+
+  try {
+    const memoryDb = getAgentEngine().getMemoryDb();
+    const history = memoryDb.getHistory(id);
+    return c.json({ id, history, total: history.length });
+  } catch (err) {
+    console.error('Failed to get memory history:', err);
+    return c.json({ error: 'Failed to get memory history' }, 500);
+  }
+});
+
+// 回滚记忆到指定变更之前（缺省为最近一次变更）
+memoryRoutes.post('/v2/:id{[0-9]+}/revert', async (c) => {
+  const id = parseInt(c.req.param('id'));
+
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const { seq } = body;
+    if (seq !== undefined && !Number.isInteger(seq)) {
+      return c.json({ error: 'seq must be an integer' }, 400);
+    }
+
+    const memoryDb = getAgentEngine().getMemoryDb();
+    const change = memoryDb.revert(id, 'rest', seq);
+    if (!change) {
+      return c.json({ error: 'No revertible change found' }, 404);
+    }
+    return c.json({ success: true, change, message: `Memory ${id} reverted` });
+  } catch (err) {
+    console.error('Failed to revert memory:', err);
+    return c.json({ error: 'Failed to revert memory' }, 500);
+  }
+});
+
+// 待确认记忆列表（自动提取的候选）
+memoryRoutes.get('/v2/pending', (c) => {
+  try {
+    const memoryDb = getAgentEngine().getMemoryDb();
+    const pending = memoryDb.listPending(parseScope(c.req.query('userId'), c.req.query('chatId')));
+    return c.json({ pending, total: pending.length });
+  } catch (err) {
+    console.error('Failed to list pending memories:', err);
+    return c.json({ error: 'Failed to list pending memories' }, 500);
+  }
+});
+
+// 确认候选记忆（可附带 text / cat / imp / keywords 修改后写入）
+memoryRoutes.post('/v2/pending/:id{[0-9]+}/accept', async (c) => {
+  const id = parseInt(c.req.param('id'));
+
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const { text, cat, imp, keywords } = body;
+    if (imp !== undefined && !(Number.isInteger(imp) && imp >= 1 && imp <= 5)) {
+      return c.json({ error: 'imp must be an integer between 1 and 5' }, 400);
+    }
+
+    const memoryDb = getAgentEngine().getMemoryDb();
+    const fields = Object.fromEntries(
+      Object.entries({ text, cat, imp, keywords }).filter(([, v]) => v !== undefined),
+    );
+    const result = memoryDb.acceptPending(id, 'rest', fields);
+    if (!result) {
+      return c.json({ error: 'Pending memory not found' }, 404);
+    }
+    return c.json({ result, message: `Pending memory ${id} accepted: ${result}` });
+  } catch (err) {
+    console.error('Failed to accept pending memory:', err);
+    return c.json({ error: 'Failed to accept pending memory' }, 500);
+  }
+});
+
+// 拒绝候选记忆
+memoryRoutes.post('/v2/pending/:id{[0-9]+}/reject', (c) => {
+  const id = parseInt(c.req.param('id'));
+
+  try {
+    const memoryDb = getAgentEngine().getMemoryDb();
+    const rejected = memoryDb.rejectPending(id);
+    if (!rejected) {
+      return c.json({ error: 'Pending memory not found' }, 404);
+    }
+    return c.json({ success: true, message: `Pending memory ${id} rejected` });
+  } catch (err) {
+    console.error('Failed to reject pending memory:', err);
+    return c.json({ error: 'Failed to reject pending memory' }, 500);
+  }
+});
+
+// 导入记忆（format=md|csv|jsonl|json，strategy=skip|overwrite|merge，dryRun 时只返回变更预览）
+memoryRoutes.post('/v2/import', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const { content, format, strategy = 'skip', dryRun = false } = body;
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return c.json({ error: 'Missing required field: content' }, 400);
+    }
+    if (!IMPORT_FORMATS.includes(format)) {
+      return c.json({ error: `format must be one of ${IMPORT_FORMATS.join(', ')}` }, 400);
+    }
+    if (!IMPORT_STRATEGIES.includes(strategy)) {
+      return c.json({ error: `strategy must be one of ${IMPORT_STRATEGIES.join(', ')}` }, 400);
+    }
+
+    const memoryDb = getAgentEngine().getMemoryDb();
+    const { candidates, errors } = parseImport(content, format as ImportFormat);
+    const report = memoryDb.importEntries(candidates, {
+      strategy: strategy as ImportStrategy,
+      dryRun: dryRun === true,
+      actor: 'rest',
+    });
+    return c.json({ ...report, errors });
+  } catch (err) {
+    console.error('Failed to import memories:', err);
+    return c.json({ error: 'Failed to import memories' }, 500);
+  }
+});
+
 // 手动触发淘汰
 memoryRoutes.post('/v2/compact', (c) => {
   try {
@@ -1,6 +1,7 @@
 /**
  * FeishuAgentBridge V4.4
  * 新增:
+ *   - 卡片交互回调（card.action.trigger）：记忆审核卡片的通过 / 修改后通过 / 拒绝
  *   - 图片分析缓存：vision-analyzer Sub-Agent 分析完成后自动将结果写入 images.json
  *   - JSONL 中只存图片路径 ![image](path)，分析结果存在独立可覆盖的缓存中
  *   - context-builder 加载历史时从缓存替换图片引用，避免重复调用 Sub-Agent
@@ -11,16 +12,21 @@
 
 import { FeishuService, FeishuSendError } from './feishu-service.js';
 import { StreamingCardRenderer } from './streaming-card-renderer.js';
-import type { FeishuConnectionConfig, FeishuMessage, ThreadContext } from './types.js';
+import type { FeishuCardAction, FeishuCardActionResult, FeishuConnectionConfig, FeishuMessage, ThreadContext } from './types.js';
+import { buildMemoryReviewCard, MEMORY_REVIEW_ACTION, type MemoryReviewAction } from './memory-review-card.js';
+import { buildReminderCard, type ReminderCardInput } from './reminder-card.js';
 import { formatMentionsForPrompt } from './mention-utils.js';
 import { getAgentEngine } from '../../core/agent-registry.js';
-import type { EventHandlers } from '@/core/agent/types/agent.js';
+import type { EventHandlers, RetryInfo, TurnUsage } from '@/core/agent/types/agent.js';
 import { writeFileSync, existsSync, readdirSync } from 'fs';
 import { execSync } from 'child_process';
 import { ClaudeEngine } from '@/core/agent/engine/claude-engine.js';
+import { ModelRouter } from '@/core/agent/engine/model-router.js';
+import { EXTRACTION_MODES, type ExtractionMode } from '@/core/agent/engine/memory-extractor.js';
 import { getFilesDir } from '../../utils/paths.js';
 import { relative, join } from 'path';
 import type { ImageAnalysisEntry } from '../../core/memory/conversation-store.js';
+import type { PendingMemory } from '../../core/memory/memory-pending.js';
 
 // 状态文件路径
 const STATE_FILE = '.restart-state.json';
@@ -43,9 +49,27 @@ export interface FeishuAgentBridgeConfig {
   showTypingIndicator?: boolean;
   /** 是否启用流式卡片 (Create + Patch)，默认 false */
   enableStreamingCard?: boolean;
+  /** 流式卡片完成后是否在底部展示本轮 token 用量与费用，默认 false */
+  showUsageFooter?: boolean;
 }
 
 
+/**
+ * 格式化卡片底部的用量信息
+ */
+function formatUsageFooter(usage: TurnUsage): string {
+  const formatTokens = (n: number) => n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+  const parts = [
+    `输入 ${formatTokens(usage.inputTokens)}`,
+    `输出 ${formatTokens(usage.outputTokens)}`,
+  ];
+  if (usage.cacheReadInputTokens > 0) {
+    parts.push(`缓存命中 ${formatTokens(usage.cacheReadInputTokens)}`);
+  }
+  parts.push(`$${usage.costUsd.toFixed(4)}`);
+  return `🪙 ${parts.join(' · ')}`;
+}
+
 /**
  * 在目录中查找包含指定 fileKey 的已有文件
  * 用于图片/文件去重，避免 Date.now() 导致的重复下载
@@ -79,6 +103,7 @@ export class FeishuAgentBridge {
       enableStreaming: true,
       showTypingIndicator: true,
       enableStreamingCard: false,
+      showUsageFooter: false,
       ...config,
     };
 
@@ -91,6 +116,10 @@ export class FeishuAgentBridge {
   async start(): Promise<boolean> {
     console.log('🚀 启动飞书Agent桥接服务...');
 
+    this.restoreChatSessionMap();
+
+    this.feishuService.setCardActionHandler((action) => this.handleCardAction(action));
+
     const success = await this.feishuService.connect((message) => {
       this.handleFeishuMessage(message);
     });
@@ -118,6 +147,29 @@ export class FeishuAgentBridge {
     console.log('✅ 飞书Agent桥接服务已停止');
   }
 
+  /**
+   * 从持久化的会话元数据恢复 chat → session 映射（进程重启后续接原会话）
+   */
+  private restoreChatSessionMap(): void {
+    // 按更新时间升序遍历，同一 chat/thread 存在多个会话（如分叉）时保留最近活跃的
+    const sessions = getAgentEngine().listPersistedSessions()
+      .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime());
+    let restored = 0;
+
+    for (const session of sessions) {
+      if (!session.feishu || !session.sessionId.startsWith(this.config.sessionPrefix!)) continue;
+      const sessionKey = session.feishu.threadId
+        ? `${session.feishu.chatId}:${session.feishu.threadId}`
+        : session.feishu.chatId;
+      if (!this.chatToSessionMap.has(sessionKey)) restored++;
+      this.chatToSessionMap.set(sessionKey, session.sessionId);
+    }
+
+    if (restored > 0) {
+      console.log(`♻️ 已恢复 ${restored} 个飞书会话映射`);
+    }
+  }
+
   /**
    * 检查服务是否已连接
    */
@@ -132,6 +184,22 @@ export class FeishuAgentBridge {
     await this.feishuService.sendMessage(chatId, text, replyMessageId, threadId);
   }
 
+  /**
+   * 发送记忆审核卡片（通过 / 修改后通过 / 拒绝）
+   */
+  async sendMemoryReviewCard(chatId: string, item: PendingMemory): Promise<void> {
+    const messageId = await this.feishuService.createInteractiveCard(chatId, buildMemoryReviewCard(item));
+    console.log(`🧠 已发送记忆审核卡片 [pending=${item.id}, chat=${chatId}, message=${messageId ?? '-'}]`);
+  }
+
+  /**
+   * 发送提醒卡片（@ 提醒发起人）
+   */
+  async sendReminderCard(chatId: string, reminder: ReminderCardInput): Promise<void> {
+    const messageId = await this.feishuService.createInteractiveCard(chatId, buildReminderCard(reminder));
+    console.log(`⏰ 已发送提醒卡片 [chat=${chatId}, message=${messageId ?? '-'}]`);
+  }
+
   // ==================== NEW: 暴露文件发送能力 ====================
 
   /**
@@ -246,6 +314,7 @@ private async handleNewCommand(message: FeishuMessage): Promise<void> {
     agentEngine.createSession({
       sessionId,
       userId: message.chatId,
+      feishu: { chatId: message.chatId, threadId: message.threadId },
     });
 
     console.log(`✅ 会话已重置: ${sessionId}`);
@@ -258,6 +327,194 @@ private async handleNewCommand(message: FeishuMessage): Promise<void> {
     );
 }
 
+  /**
+   * 处理 /model [name] 指令 - 查看或切换当前会话使用的模型（持久化到会话元数据）
+   * /model          查看当前模型与回退链
+   * /model <name>   切换模型
+   * /model default  恢复默认模型
+   * 切换模型仅限管理员（FEISHU_ADMIN_OPEN_IDS），查看不受限
+   */
+  private async handleModelCommand(message: FeishuMessage, model?: string): Promise<void> {
+    const agentEngine = getAgentEngine();
+    const router = agentEngine.getModelRouter();
+    const sessionId = this.getOrCreateSessionId(message.chatId, message.threadId);
+    const defaultModel = router.getDefaultModel() || 'SDK 默认';
+    let reply: string;
+
+    if (model && !this.isAdmin(message.senderId)) {
+      reply = '❌ 仅管理员可切换模型';
+    } else if (!model) {
+      const current = agentEngine.getSession(sessionId)?.model;
+      const fallbacks = router.getFallbackModels();
+      reply = [
+        `🤖 当前模型: ${current || `${defaultModel}（默认）`}`,
+        fallbacks.length > 0 ? `回退链: ${fallbacks.join(' → ')}` : '',
+        '用法: /model <name> 切换，/model default 恢复默认',
+      ].filter(Boolean).join('\n');
+    } else if (model === 'default') {
+      agentEngine.setSessionModel(sessionId, undefined);
+      reply = `✅ 已恢复默认模型: ${defaultModel}`;
+    } else if (!ModelRouter.isValidModelName(model)) {
+      reply = `❌ 无效的模型名: ${model}`;
+    } else {
+      agentEngine.setSessionModel(sessionId, model);
+      reply = `✅ 当前会话已切换到模型: ${model}`;
+    }
+
+    console.log(`🤖 /model 指令 [session=${sessionId}]: ${model ?? '(查询)'}`);
+    await this.feishuService.sendMessage(message.chatId, reply, message.messageId, message.threadId);
+  }
+
+  /**
+   * 处理 /memory-extract [mode] 指令 - 查看或切换当前会话的记忆自动提取模式
+   * review  全部候选待确认（默认，GET /api/memory/v2/pending）
+   * auto    高置信度的新记忆直接写入，其余待确认
+   * off     关闭自动提取
+   * 切换模式仅限管理员，查看不受限
+   */
+  private async handleMemoryExtractCommand(message: FeishuMessage, mode?: string): Promise<void> {
+    const extractor = getAgentEngine().getMemoryExtractor();
+    let reply: string;
+
+    if (mode && !this.isAdmin(message.senderId)) {
+      reply = '❌ 仅管理员可切换记忆自动提取模式';
+    } else if (!mode) {
+      reply = [
+        `🧠 当前记忆自动提取模式: ${extractor.getMode(message.chatId)}`,
+        '用法: /memory-extract review|auto|off',
+      ].join('\n');
+    } else if (!EXTRACTION_MODES.includes(mode as ExtractionMode)) {
+      reply = `❌ 无效的模式: ${mode}（可选 review / auto / off）`;
+    } else {
+      extractor.setMode(message.chatId, mode as ExtractionMode);
+      reply = `✅ 当前会话的记忆自动提取模式已切换为: ${mode}`;
+    }
+
+    console.log(`🧠 /memory-extract 指令 [chat=${message.chatId}]: ${mode ?? '(查询)'}`);
+    await this.feishuService.sendMessage(message.chatId, reply, message.messageId, message.threadId);
+  }
+
+  /**
+   * 是否为管理员（FEISHU_ADMIN_OPEN_IDS，逗号分隔）；未配置管理员时一律视为非管理员
+   */
+  private isAdmin(openId?: string): boolean {
+    if (!openId) return false;
+    return (process.env.FEISHU_ADMIN_OPEN_IDS || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean)
+      .includes(openId);
+  }
+
+  /**
+   * 卡片交互回调分发（按 value.kind）
+   */
+  private async handleCardAction(action: FeishuCardAction): Promise<FeishuCardActionResult> {
+    switch (action.value.kind) {
+      case MEMORY_REVIEW_ACTION:
+        return this.handleMemoryReviewAction(action);
+      default:
+        console.warn(`⚠️ 未知的卡片回调: ${JSON.stringify(action.value)}`);
+        return {};
+    }
+  }
+
+  /**
+   * 记忆审核卡片回调：决定写回 MemoryDB，并将卡片更新为已处理状态
+   * 仅 FEISHU_ADMIN_OPEN_IDS 中的管理员可审核（未配置时拒绝所有人）
+   */
+  private async handleMemoryReviewAction(action: FeishuCardAction): Promise<FeishuCardActionResult> {
+    const pendingId = Number(action.value.pendingId);
+    const decision = action.value.decision as MemoryReviewAction;
+
+    if (!this.isAdmin(action.operatorId)) {
+      return { toast: { type: 'error', content: '仅管理员可审核记忆' } };
+    }
+
+    const memoryDb = getAgentEngine().getMemoryDb();
+    const item = memoryDb.getPending(pendingId);
+    if (!item) {
+      return { toast: { type: 'info', content: `#${pendingId} 已审核或不存在` } };
+    }
+
+    if (decision === 'reject') {
+      memoryDb.rejectPending(pendingId, action.operatorId);
+      console.log(`🧠 记忆审核 #${pendingId}: rejected by ${action.operatorId}`);
+      return {
+        toast: { type: 'success', content: `已拒绝 #${pendingId}` },
+        card: buildMemoryReviewCard(item, { decision: 'rejected', reviewer: action.operatorId }),
+      };
+    }
+
+    const text = String(action.formValue?.text ?? '').trim();
+    const edited = decision === 'edit' && item.op !== 'delete' && !!text && text !== item.entry?.text;
+    if (decision === 'edit' && !edited) {
+      return { toast: { type: 'warning', content: '内容未修改，请直接点击「通过」' } };
+    }
+
+    const result = memoryDb.acceptPending(pendingId, 'review', edited ? { text } : {}, action.operatorId);
+    console.log(`🧠 记忆审核 #${pendingId}: ${edited ? 'edited' : 'approved'} by ${action.operatorId} → ${result}`);
+    return {
+      toast: { type: 'success', content: `已通过 #${pendingId}（${result}）` },
+      card: buildMemoryReviewCard(item, {
+        decision: edited ? 'edited' : 'approved',
+        reviewer: action.operatorId,
+        result: result ?? undefined,
+        text: edited ? text : undefined,
+      }),
+    };
+  }
+
+  /**
+   * 处理 /fork [n] 指令 - 从第 n 轮（从 1 开始，缺省为最新一轮）分叉当前会话
+   * 分叉后当前 chat/thread 切换到新分支，原会话保留不变
+   */
+  private async handleForkCommand(message: FeishuMessage, turn?: number): Promise<void> {
+    console.log(`🌿 收到 /fork 指令${turn ? `，分叉点: 第 ${turn} 轮` : ''}`);
+
+    const sessionKey = message.threadId ? `${message.chatId}:${message.threadId}` : message.chatId;
+    const sourceSessionId = this.getOrCreateSessionId(message.chatId, message.threadId);
+
+    if (turn !== undefined && turn < 1) {
+      await this.feishuService.sendMessage(
+        message.chatId,
+        '❌ 轮次从 1 开始，例如 /fork 3',
+        message.messageId,
+        message.threadId
+      );
+      return;
+    }
+
+    // 等待进行中的请求写完历史，避免复制到半轮对话
+    if (this.processingChats.has(sessionKey)) {
+      await this.waitForProcessingComplete(sessionKey);
+    }
+
+    try {
+      const { session, turns } = getAgentEngine().forkSession(sourceSessionId, {
+        turnIndex: turn !== undefined ? turn - 1 : undefined,
+        userId: message.chatId,
+        feishu: { chatId: message.chatId, threadId: message.threadId },
+      });
+      this.chatToSessionMap.set(sessionKey, session.sessionId);
+
+      await this.feishuService.sendMessage(
+        message.chatId,
+        `🌿 已从第 ${turns} 轮分叉出新会话（复制 ${turns} 轮对话），后续消息将在新分支中继续。\n原会话: ${sourceSessionId}\n新会话: ${session.sessionId}`,
+        message.messageId,
+        message.threadId
+      );
+    } catch (error) {
+      console.error('❌ 会话分叉失败:', error);
+      await this.feishuService.sendMessage(
+        message.chatId,
+        `❌ 会话分叉失败: ${error instanceof Error ? error.message : String(error)}`,
+        message.messageId,
+        message.threadId
+      );
+    }
+  }
+
   /**
    * 处理 /stop 指令 - 中断当前 session 正在进行的请求
    * - 精确匹配 sessionId，失败后按 chatId 前缀遍历所有关联 session
@@ -432,6 +689,24 @@ private async handleNewCommand(message: FeishuMessage): Promise<void> {
       return;
     }
 
+    const modelMatch = command.match(/^\/model(?:\s+(\S+))?$/);
+    if (modelMatch) {
+      await this.handleModelCommand(message, modelMatch[1]);
+      return;
+    }
+
+    const extractMatch = command.match(/^\/memory-extract(?:\s+(\S+))?$/);
+    if (extractMatch) {
+      await this.handleMemoryExtractCommand(message, extractMatch[1]);
+      return;
+    }
+
+    const forkMatch = command.match(/^\/fork(?:\s+(\d+))?$/);
+    if (forkMatch) {
+      await this.handleForkCommand(message, forkMatch[1] ? parseInt(forkMatch[1], 10) : undefined);
+      return;
+    }
+
     const processingKey = message.threadId ? `${message.chatId}:${message.threadId}` : message.chatId;
 
     if (this.processingChats.has(processingKey)) {
@@ -926,6 +1201,16 @@ ${originalContent}
         this.activeRenderers.delete(processingKey);
       },
 
+      onUsage: async (usage: TurnUsage) => {
+        if (this.config.showUsageFooter) {
+          renderer.setUsageFooter(formatUsageFooter(usage));
+        }
+      },
+
+      onRetry: async (info: RetryInfo) => {
+        await renderer.onRetry(info.attempt, info.maxRetries, info.delayMs, info.reason);
+      },
+
       onError: async (error: string) => {
         if (renderer.isFallback()) {
           await this.sendErrorResponse(message.chatId, new Error(error), replyMessageId, message.threadId);
@@ -934,13 +1219,24 @@ ${originalContent}
         }
         this.activeRenderers.delete(processingKey);
       },
+
+      onBudgetExceeded: async (budgetMessage: string) => {
+        if (renderer.isFallback()) {
+          await this.feishuService.sendMessage(message.chatId, `💰 ${budgetMessage}`, replyMessageId, message.threadId);
+        } else {
+          await renderer.onBudgetExceeded(budgetMessage);
+        }
+        this.activeRenderers.delete(processingKey);
+      },
     };
 
     const isNewSession = !getAgentEngine().hasResumeSession(sessionId);
     const sessionContext = this.buildSessionContext(message, isNewSession);
     const enrichedContent = this.buildEnrichedContent(message);
 
-    await getAgentEngine().sendMessageStream(sessionId, enrichedContent, message.senderId, eventHandlers, sessionContext);
+    await getAgentEngine().sendMessageStream(sessionId, enrichedContent, message.senderId, eventHandlers, sessionContext, {
+      chatId: message.chatId,
+    });
   }
 
   /**
@@ -985,7 +1281,9 @@ ${originalContent}
     const sessionContext = this.buildSessionContext(message, isNewSession);
     const enrichedContent = this.buildEnrichedContent(message);
 
-    await getAgentEngine().sendMessageStream(sessionId, enrichedContent, message.senderId, eventHandlers, sessionContext);
+    await getAgentEngine().sendMessageStream(sessionId, enrichedContent, message.senderId, eventHandlers, sessionContext, {
+      chatId: message.chatId,
+    });
   }
 
   /**
@@ -995,7 +1293,9 @@ ${originalContent}
     const isNewSession = !getAgentEngine().hasResumeSession(sessionId);
     const sessionContext = this.buildSessionContext(message, isNewSession);
     const enrichedContent = this.buildEnrichedContent(message);
-    const response = await getAgentEngine().sendMessage(sessionId, enrichedContent, message.senderId, sessionContext);
+    const response = await getAgentEngine().sendMessage(sessionId, enrichedContent, message.senderId, sessionContext, {
+      chatId: message.chatId,
+    });
 
     const replyMessageId = message.threadId ? message.messageId : undefined;
 
@@ -1031,9 +1331,16 @@ ${originalContent}
 
     this.chatToSessionMap.set(sessionKey, sessionId);
 
-    getAgentEngine().createSession({
+    // 已持久化的会话（如重启前创建）直接续用，不覆盖元数据
+    const agentEngine = getAgentEngine();
+    if (agentEngine.getSession(sessionId)) {
+      return sessionId;
+    }
+
+    agentEngine.createSession({
       sessionId,
       userId: chatId,
+      feishu: { chatId, threadId },
     });
 
     console.log(`🆕 Created new ${threadId ? 'thread' : 'chat'} session: ${sessionId}`);
@@ -6,6 +6,8 @@ import type {
   FeishuConnection,
   FeishuConnectionConfig,
   FeishuMessage,
+  FeishuCardAction,
+  FeishuCardActionResult,
   ImageUploadOptions,
   ImageUploadResult,
   FileUploadResult,
@@ -88,6 +90,7 @@ export class FeishuService implements FeishuConnection {
   private wsClient: lark.WSClient | null = null;
   private config: FeishuConnectionConfig;
   private onMessageCallback: ((message: FeishuMessage) => void) | null = null;
+  private cardActionHandler: ((action: FeishuCardAction) => Promise<FeishuCardActionResult>) | null = null;
   private messageCache = new Map<string, number>();
   private lastMessageIdByChat = new Map<string, string>();
   private ackReactionByChat = new Map<string, string>(); // 消息确认反应
@@ -142,11 +145,16 @@ export class FeishuService implements FeishuConnection {
         loggerLevel: lark.LoggerLevel.info,
       });
 
-      // 创建事件分发器
-      const eventDispatcher = new lark.EventDispatcher({}).register({
+      // 创建事件分发器（card.action.trigger 不在 SDK 内置事件类型中，通过泛型声明）
+      const eventDispatcher = new lark.EventDispatcher({}).register<{
+        'card.action.trigger': (data: any) => Promise<any>;
+      }>({
         'im.message.receive_v1': async (data) => {
           await this.handleMessage(data);
         },
+        'card.action.trigger': async (data) => {
+          return await this.handleCardAction(data);
+        },
       });
 
       // 初始化 WebSocket 客户端
@@ -277,6 +285,13 @@ export class FeishuService implements FeishuConnection {
     }
   }
 
+  /**
+   * 注册卡片交互回调处理器（需在 connect 前调用）
+   */
+  setCardActionHandler(handler: (action: FeishuCardAction) => Promise<FeishuCardActionResult>): void {
+    this.cardActionHandler = handler;
+  }
+
   isConnected(): boolean {
     return this.wsClient !== null;
   }
@@ -340,6 +355,35 @@ export class FeishuService implements FeishuConnection {
     return checkBotMentioned(mentions, this.botOpenId || undefined);
   }
 
+  /**
+   * 处理卡片交互回调，返回值作为回调响应（toast + 更新后的卡片）
+   */
+  private async handleCardAction(data: any): Promise<any> {
+    if (!this.cardActionHandler) {
+      console.warn('⚠️ 收到卡片回调但未注册处理器，忽略');
+      return {};
+    }
+
+    const action: FeishuCardAction = {
+      operatorId: data?.operator?.open_id || '',
+      messageId: data?.context?.open_message_id || '',
+      chatId: data?.context?.open_chat_id || '',
+      value: data?.action?.value || {},
+      formValue: data?.action?.form_value,
+    };
+
+    try {
+      const result = await this.cardActionHandler(action);
+      return {
+        ...(result.toast ? { toast: result.toast } : {}),
+        ...(result.card ? { card: { type: 'raw', data: JSON.parse(result.card) } } : {}),
+      };
+    } catch (error) {
+      console.error('❌ 处理卡片回调失败:', error);
+      return { toast: { type: 'error', content: '操作失败，请稍后重试' } };
+    }
+  }
+
   private async handleMessage(data: any): Promise<void> {
     try {
       const message = data.message;
@@ -0,0 +1,195 @@
+/**
+ * 记忆审核卡片（schema 2.0）
+ *
+ * 卡片布局:
+ *   ┌─────────────────────────────────────────────┐
+ *   │ [orange] 🧠 记忆审核 #12 · 新增                │  ← 新增 / 删除 / 整理；已处理后变为 green / red
+ *   ├─────────────────────────────────────────────┤
+ *   │ 分类 / 重要性 / 作用域 / 置信度 / 理由           │
+ *   │ ┌ 表单 ─────────────────────────────────┐   │
+ *   │ │ [记忆内容输入框（可修改）]                 │   │  ← 仅新增 / 整理
+ *   │ │ [通过] [修改后通过] [拒绝]                 │   │
+ *   │ └───────────────────────────────────────┘   │
+ *   └─────────────────────────────────────────────┘
+ *
+ * 按钮回调 value: { kind: 'memory_review', pendingId, decision: 'approve' | 'edit' | 'reject' }
+ * 表单提交时输入框的值在 form_value.text 中。
+ */
+
+import type { PendingMemory, PendingOp, ReviewDecision } from '../../core/memory/memory-pending.js';
+import { formatMentionTag } from './mention-utils.js';
+
+/** 卡片回调 value.kind，bridge 据此分发 */
+export const MEMORY_REVIEW_ACTION = 'memory_review';
+
+/** 按钮对应的审核操作 */
+export type MemoryReviewAction = 'approve' | 'edit' | 'reject';
+
+/** 已处理卡片的展示信息 */
+export interface MemoryReviewResolution {
+  decision: ReviewDecision;
+  /** 审核人 open_id */
+  reviewer?: string;
+  /** 写入结果（added / merged / skipped / deleted / consolidated） */
+  result?: string;
+  /** 修改后通过时的最终内容 */
+  text?: string;
+}
+
+const OP_LABELS: Record<PendingOp, string> = {
+  insert: '新增',
+  delete: '删除',
+  consolidate: '整理',
+};
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  approved: '✅ 已通过',
+  edited: '✏️ 已修改后通过',
+  rejected: '🚫 已拒绝',
+};
+
+/**
+ * 构建审核卡片 JSON；传入 resolution 时渲染为已处理状态（无按钮）
+ */
+export function buildMemoryReviewCard(item: PendingMemory, resolution?: MemoryReviewResolution): string {
+  const isDelete = item.op === 'delete';
+  const template = resolution
+    ? (resolution.decision === 'rejected' ? 'red' : 'green')
+    : 'orange';
+
+  const elements: any[] = [
+    {
+      tag: 'markdown',
+      content: isDelete ? buildDeleteDetails(item) : buildInsertDetails(item, resolution?.text),
+    },
+  ];
+
+  if (resolution) {
+    const parts = [DECISION_LABELS[resolution.decision]];
+    if (resolution.result) parts.push(`结果: ${resolution.result}`);
+    if (resolution.reviewer) parts.push(`审核人: ${formatMentionTag(resolution.reviewer)}`);
+    elements.push({ tag: 'hr' });
+    elements.push({ tag: 'markdown', content: parts.join(' · '), text_size: 'notation' });
+  } else {
+    elements.push(isDelete ? buildDeleteActions(item) : buildInsertForm(item));
+  }
+
+  return JSON.stringify({
+    schema: '2.0',
+    config: { update_multi: true },
+    header: {
+      template,
+      title: {
+        tag: 'plain_text',
+        content: `🧠 记忆审核 #${item.id} · ${OP_LABELS[item.op]}`,
+      },
+    },
+    body: {
+      direction: 'vertical',
+      padding: '12px 12px 12px 12px',
+      elements,
+    },
+  });
+}
+
+// ==================== 内部方法 ====================
+
+function buildInsertDetails(item: PendingMemory, editedText?: string): string {
+  const entry = item.entry;
+  if (!entry) return '（无内容）';
+
+  const scope = entry.user_id
+    ? `发信人 ${formatMentionTag(entry.user_id)}`
+    : entry.chat_id ? `会话 ${entry.chat_id}` : '全局';
+  const lines = [
+    `**内容**: ${editedText ?? entry.text}`,
+    `**分类**: ${entry.cat} · **重要性**: ${entry.imp} · **作用域**: ${scope}`,
+  ];
+  if (editedText !== undefined && editedText !== entry.text) {
+    lines.push(`**原内容**: ~~${entry.text}~~`);
+  }
+  if (item.confidence !== undefined) {
+    lines.push(`**置信度**: ${item.confidence.toFixed(2)}`);
+  }
+  if (item.reason) lines.push(`**理由**: ${item.reason}`);
+  if (item.duplicate_of) lines.push(`**将合并到**: #${item.duplicate_of}`);
+  if (item.op === 'consolidate') {
+    lines.push(`**整理自**（保留 #${item.targets?.[0]?.id}）:`);
+    lines.push(...(item.targets || []).map(t => `- #${t.id} [${t.cat}] ${t.text}`));
+  }
+  lines.push(`**来源**: ${item.origin} · ${item.proposed_at}`);
+  return lines.join('\n');
+}
+
+function buildDeleteDetails(item: PendingMemory): string {
+  const targets = item.targets || [];
+  const lines = [
+    `**删除请求**: \`${item.query ?? ''}\` 匹配 ${targets.length} 条记忆`,
+    ...targets.map(t => `- #${t.id} [${t.cat}] ${t.text}`),
+  ];
+  if (item.reason) lines.push(`**理由**: ${item.reason}`);
+  if (item.requested_by) lines.push(`**发起人**: ${formatMentionTag(item.requested_by)}`);
+  lines.push(`**来源**: ${item.origin} · ${item.proposed_at}`);
+  return lines.join('\n');
+}
+
+/** 新增：可编辑内容的表单 + 三个提交按钮 */
+function buildInsertForm(item: PendingMemory): object {
+  return {
+    tag: 'form',
+    name: `memory_review_${item.id}`,
+    elements: [
+      {
+        tag: 'input',
+        name: 'text',
+        default_value: item.entry?.text ?? '',
+        placeholder: { tag: 'plain_text', content: '修改记忆内容后点击「修改后通过」' },
+        max_length: 1000,
+      },
+      buildButtonRow(item, [
+        { action: 'approve', label: '通过', type: 'primary' },
+        { action: 'edit', label: '修改后通过', type: 'default' },
+        { action: 'reject', label: '拒绝', type: 'danger' },
+      ], true),
+    ],
+  };
+}
+
+/** 删除：仅通过 / 拒绝 */
+function buildDeleteActions(item: PendingMemory): object {
+  return buildButtonRow(item, [
+    { action: 'approve', label: '通过删除', type: 'danger' },
+    { action: 'reject', label: '拒绝', type: 'default' },
+  ], false);
+}
+
+function buildButtonRow(
+  item: PendingMemory,
+  buttons: Array<{ action: MemoryReviewAction; label: string; type: string }>,
+  inForm: boolean,
+): object {
+  return {
+    tag: 'column_set',
+    flex_mode: 'none',
+    horizontal_spacing: '8px',
+    columns: buttons.map(({ action, label, type }) => ({
+      tag: 'column',
+      width: 'auto',
+      elements: [
+        {
+          tag: 'button',
+          name: `${action}_${item.id}`,
+          text: { tag: 'plain_text', content: label },
+          type,
+          ...(inForm ? { form_action_type: 'submit' } : {}),
+          behaviors: [
+            {
+              type: 'callback',
+              value: { kind: MEMORY_REVIEW_ACTION, pendingId: item.id, decision: action },
+            },
+          ],
+        },
+      ],
+    })),
+  };
+}
@@ -5,6 +5,7 @@
  *   1. 将飞书原始 mention 数据解析为结构化 MentionInfo[]
  *   2. 将消息文本中的 mention 占位符替换为可读格式
  *   3. 将 MentionInfo[] 序列化为 Agent 系统提示词片段
+ *   4. 生成卡片中 @用户 的标签
  *
  * 设计原则：
  *   - 纯函数，无副作用（缓存写入由调用方负责）
@@ -105,6 +106,13 @@ export function formatMentionsForPrompt(mentions: MentionInfo[] | undefined): st
   return `[本次消息的 @提及] ${descriptions}`;
 }
 
+/**
+ * 生成卡片 markdown 中 @用户 的标签
+ */
+export function formatMentionTag(openId: string): string {
+  return `<at id=${openId}></at>`;
+}
+
 /**
  * 检查原始 mentions 中是否包含指定 botOpenId
  */
@@ -0,0 +1,47 @@
+/**
+ * 提醒卡片（schema 2.0）
+ *
+ * 卡片布局:
+ *   ┌─────────────────────────────────────────────┐
+ *   │ [blue] ⏰ 提醒                                │
+ *   ├─────────────────────────────────────────────┤
+ *   │ @发起人 提醒内容                               │
+ *   │ 设定时间 2026/10/20 15:00:00 (Asia/Shanghai)  │  ← notation
+ *   └─────────────────────────────────────────────┘
+ */
+
+import { formatMentionTag } from './mention-utils.js';
+
+export interface ReminderCardInput {
+  message: string;
+  /** 需要 @ 的用户 open_id */
+  mentionUserId?: string;
+  /** 计划提醒时间（已按任务时区格式化） */
+  scheduledTime?: string;
+}
+
+/**
+ * 构建提醒卡片 JSON
+ */
+export function buildReminderCard(input: ReminderCardInput): string {
+  const mention = input.mentionUserId ? `${formatMentionTag(input.mentionUserId)} ` : '';
+  const elements: any[] = [
+    { tag: 'markdown', content: `${mention}${input.message}` },
+  ];
+  if (input.scheduledTime) {
+    elements.push({ tag: 'markdown', content: `设定时间 ${input.scheduledTime}`, text_size: 'notation' });
+  }
+
+  return JSON.stringify({
+    schema: '2.0',
+    header: {
+      template: 'blue',
+      title: { tag: 'plain_text', content: '⏰ 提醒' },
+    },
+    body: {
+      direction: 'vertical',
+      padding: '12px 12px 12px 12px',
+      elements,
+    },
+  });
+}
@@ -27,6 +27,8 @@
  *   │ 🧠 当前最新 thinking 原文（实时预览）                    │
  *   ├─────────────────────────────────────────────────────┤
  *   │ 回答正文（markdown）                                  │
+ *   ├─────────────────────────────────────────────────────┤
+ *   │ 🪙 本轮用量（可选，完成后展示）                          │
  *   └─────────────────────────────────────────────────────┘
  *
  * 飞书限制:
@@ -41,8 +43,8 @@
 interface StepInfo {
   id: string
   /** 步骤类型 */
-  type: 'thinking' | 'tool'
-  /** 显示文本（thinking 原文 / 工具名） */
+  type: 'thinking' | 'tool' | 'retry'
+  /** 显示文本（thinking 原文 / 工具名 / 重试原因） */
   label: string
   /** 工具动作摘要（仅 tool 类型） */
   actionSummary?: string
@@ -68,7 +70,7 @@ interface StepInfo {
 }
 
 /** 卡片渲染阶段 */
-type CardPhase = 'init' | 'thinking' | 'tool_calling' | 'generating' | 'completed' | 'error' | 'aborted'
+type CardPhase = 'init' | 'thinking' | 'tool_calling' | 'generating' | 'completed' | 'error' | 'aborted' | 'budget_exceeded'
 
 /** 卡片内部状态 */
 interface CardState {
@@ -128,6 +130,9 @@ export class StreamingCardRenderer {
   /** 完成时 @ 的用户 open_id */
   private mentionUserId: string | null = null
 
+  /** 完成后卡片底部展示的用量信息（可选） */
+  private usageFooter: string | null = null
+
   /** 当前正在累积的 thinking 文本 */
   private currentThinkingText = ''
   /** 当前 thinking 步骤的 ID */
@@ -172,6 +177,11 @@ export class StreamingCardRenderer {
     this.mentionUserId = openId
   }
 
+  /** 设置完成后卡片底部的用量信息（随 onComplete 一并渲染） */
+  setUsageFooter(text: string): void {
+    this.usageFooter = text
+  }
+
   /** 初始化：立即创建初始卡片 */
   async init(): Promise<void> {
     if (this.messageId || this.isFallbackMode) return
@@ -347,6 +357,29 @@ export class StreamingCardRenderer {
     await this.flushPatch()
   }
 
+  /**
+   * 瞬时故障重试：在步骤面板中记录一条重试步骤
+   * 重试会从头重新生成回复，未结束的 thinking / 工具步骤标记为失败
+   */
+  async onRetry(attempt: number, maxRetries: number, delayMs: number, reason: string): Promise<void> {
+    if (this.isFallbackMode || this.isLocked) return
+
+    this.markAllRunningSteps(this.state.steps, 'error')
+    this.currentThinkingStepId = null
+    this.currentThinkingText = ''
+    this.state.liveThinkingText = ''
+
+    this.state.steps.push({
+      id: `step_${++this.stepIdCounter}`,
+      type: 'retry',
+      label: `第 ${attempt}/${maxRetries} 次重试`,
+      actionSummary: `${reason.slice(0, 100)} · ${(delayMs / 1000).toFixed(1)}s 后重试`,
+      status: 'success',
+    })
+
+    await this.schedulePatch()
+  }
+
   /** 错误 */
   async onError(errorMessage: string): Promise<void> {
     if (this.isLocked) return
@@ -359,6 +392,18 @@ export class StreamingCardRenderer {
     await this.flushPatch()
   }
 
+  /** 费用预算已用尽 */
+  async onBudgetExceeded(message: string): Promise<void> {
+    if (this.isLocked) return
+
+    this.markAllRunningSteps(this.state.steps, 'error')
+
+    this.state.phase = 'budget_exceeded'
+    this.state.errorMessage = message
+    this.state.liveThinkingText = ''
+    await this.flushPatch()
+  }
+
   /** 用户主动中断 */
   async onAborted(): Promise<void> {
     this.markAllRunningSteps(this.state.steps, 'error')
@@ -427,7 +472,8 @@ export class StreamingCardRenderer {
 
   private buildCard(): object {
     const elements: any[] = []
-    const isFinished = this.state.phase === 'completed' || this.state.phase === 'error' || this.state.phase === 'aborted'
+    const isFinished = this.state.phase === 'completed' || this.state.phase === 'error'
+      || this.state.phase === 'aborted' || this.state.phase === 'budget_exceeded'
 
     // ====== 1. 步骤面板 ======
     if (this.state.steps.length > 0) {
@@ -457,7 +503,7 @@ export class StreamingCardRenderer {
     }
 
     // ====== 4. 错误信息 ======
-    if (this.state.phase === 'error' && this.state.errorMessage) {
+    if ((this.state.phase === 'error' || this.state.phase === 'budget_exceeded') && this.state.errorMessage) {
       elements.push({
         tag: 'markdown',
         content: `**Error**: ${this.truncate(this.state.errorMessage, 500)}`,
@@ -465,6 +511,15 @@ export class StreamingCardRenderer {
       })
     }
 
+    // ====== 5. 用量 footer ======
+    if (this.state.phase === 'completed' && this.usageFooter) {
+      elements.push({
+        tag: 'markdown',
+        content: this.usageFooter,
+        text_size: 'notation',
+      })
+    }
+
     return {
       schema: '2.0',
       header: this.buildCardHeader(),
@@ -499,12 +554,14 @@ export class StreamingCardRenderer {
       completed:    { template: 'green',     icon: '✅', text: '已完成' },
       error:        { template: 'red',       icon: '❌', text: '失败' },
       aborted:      { template: 'grey',      icon: '⏸️', text: '用户已中断' },
+      budget_exceeded: { template: 'orange', icon: '💰', text: '预算已用尽' },
     }
 
     const { template, icon, text } = phaseConfig[this.state.phase]
 
     let titleContent = `${icon} ${text}`
-    if (this.state.phase === 'completed' || this.state.phase === 'error' || this.state.phase === 'aborted') {
+    if (this.state.phase === 'completed' || this.state.phase === 'error'
+      || this.state.phase === 'aborted' || this.state.phase === 'budget_exceeded') {
       const elapsed = this.formatDuration(Date.now() - this.state.startTime)
       titleContent = `${icon} ${text} · ⏱ ${elapsed}`
     }
@@ -620,12 +677,14 @@ export class StreamingCardRenderer {
     let skillCount = 0
     let subagentCount = 0
     let errorCount = 0
+    let retryCount = 0
     this.collectStepStats(this.state.steps, {
       onThinking: () => thinkingCount++,
       onTool: () => toolCount++,
       onSkill: () => skillCount++,
       onSubagent: () => subagentCount++,
       onError: () => errorCount++,
+      onRetry: () => retryCount++,
     })
 
     const parts: string[] = []
@@ -633,6 +692,7 @@ export class StreamingCardRenderer {
     if (toolCount > 0) parts.push(`${toolCount} tool`)
     if (skillCount > 0) parts.push(`${skillCount} skill`)
     if (subagentCount > 0) parts.push(`${subagentCount} sub-agent`)
+    if (retryCount > 0) parts.push(`${retryCount} retry`)
 
     let summary = `${totalSteps} steps · ${parts.join(', ')}`
     if (errorCount > 0) {
@@ -649,10 +709,12 @@ export class StreamingCardRenderer {
     onSkill: () => void
     onSubagent: () => void
     onError: () => void
+    onRetry: () => void
   }): void {
     for (const step of steps) {
       if (step.status === 'error') callbacks.onError()
       if (step.type === 'thinking') callbacks.onThinking()
+      else if (step.type === 'retry') callbacks.onRetry()
       else if (step.category === 'skill') callbacks.onSkill()
       else if (step.category === 'subagent') callbacks.onSubagent()
       else callbacks.onTool()
@@ -670,6 +732,11 @@ export class StreamingCardRenderer {
 
     if (step.type === 'thinking') {
       text = `${icon}  ${step.label}`
+    } else if (step.type === 'retry') {
+      text = `${icon}  retry: ${step.label}`
+      if (step.actionSummary) {
+        text += `\n　　${step.actionSummary}`
+      }
     } else {
       const prefix = step.category === 'skill' ? 'skill' : step.category === 'subagent' ? 'sub-agent' : 'tool'
       text = `${icon}  ${prefix}: ${step.label}`
@@ -686,6 +753,7 @@ export class StreamingCardRenderer {
   }
 
   private getStepIcon(step: StepInfo): string {
+    if (step.type === 'retry') return '🔁'
     if (step.status === 'running') {
       return step.type === 'thinking' ? '🧠' : '⏳'
     }
@@ -49,6 +49,30 @@ export interface FeishuMessage {
   downloadedPaths?: string[];
 }
 
+// ==================== 卡片交互回调（card.action.trigger） ====================
+
+/** 卡片按钮 / 表单提交回调 */
+export interface FeishuCardAction {
+  /** 操作人 open_id */
+  operatorId: string;
+  /** 卡片所在消息 ID */
+  messageId: string;
+  chatId: string;
+  /** 按钮 behaviors.callback.value */
+  value: Record<string, unknown>;
+  /** 表单提交时各输入组件的值（按 name） */
+  formValue?: Record<string, unknown>;
+}
+
+/** 卡片回调响应：toast 提示 + 可选的更新后卡片（JSON 字符串，schema 2.0） */
+export interface FeishuCardActionResult {
+  toast?: {
+    type: 'success' | 'error' | 'info' | 'warning';
+    content: string;
+  };
+  card?: string;
+}
+
 export interface ThreadContext {
   threadId: string;
   chatId: string;
@@ -5,11 +5,12 @@
  * - history.jsonl   — 对话历史（JSONL 格式）
  * - summary.json    — 压缩摘要缓存
  * - images.json     — 图片分析缓存
+ * - session.json    — 会话元数据（SessionState 持久化）
  * - files/          — 用户发送 & Bot 生成的文件
  */
 
 import { join } from 'path';
-import { existsSync, mkdirSync } from 'fs';
+import { existsSync, mkdirSync, readdirSync, statSync } from 'fs';
 
 /** 项目根目录 */
 const PROJECT_ROOT = process.cwd();
@@ -61,6 +62,15 @@ export function getImageCachePath(sessionId: string): string {
   return join(dir, 'images.json');
 }
 
+/**
+ * 获取会话元数据文件路径
+ * data/sessions/{sessionId}/session.json
+ * 不自动创建目录：读取不存在的会话时不应产生空目录
+ */
+export function getSessionMetaPath(sessionId: string): string {
+  return join(SESSIONS_ROOT, sanitizeSessionId(sessionId), 'session.json');
+}
+
 // ==================== 文件存储 ====================
 
 /**
@@ -89,7 +99,6 @@ function sanitizeSessionId(sessionId: string): string {
  */
 export function listAllSessionIds(): string[] {
   if (!existsSync(SESSIONS_ROOT)) return [];
-  const { readdirSync, statSync } = require('fs');
   return readdirSync(SESSIONS_ROOT).filter((name: string) => {
     try {
       return statSync(join(SESSIONS_ROOT, name)).isDirectory();